@@ -0,0 +1,93 @@
+const { getAudioDurationSeconds } = require('./transcriptionProvider');
+
+/**
+ * Bounded ring buffer of PCM frames captured while a provider is disconnected
+ * Frames are replayed on reconnect; once the buffer is full the oldest frames
+ * are dropped and the lost span is recorded so a gap marker can be emitted.
+ * Silence skipped by the voice activity gate is kept as a timing-only entry.
+ */
+class AudioReplayBuffer {
+  constructor({ maxSeconds = 60, channels = 1 } = {}) {
+    this.maxSeconds = maxSeconds;
+    this.channels = channels;
+    this.clear();
+  }
+
+  /**
+   * Queue a frame that starts at `offset` seconds into the session
+   */
+  push(audioData, offset) {
+    this.append({ data: Buffer.from(audioData), offset, duration: getAudioDurationSeconds(audioData, this.channels) });
+  }
+
+  /**
+   * Record skipped silence between buffered frames (leading silence is not worth keeping)
+   */
+  pushSilence(duration, offset) {
+    if (this.isEmpty()) return;
+    this.append({ data: null, offset, duration });
+  }
+
+  append(frame) {
+    this.frames.push(frame);
+    this.bufferedSeconds += frame.duration;
+
+    while (this.bufferedSeconds > this.maxSeconds && this.frames.length > 1) {
+      const dropped = this.frames.shift();
+      this.bufferedSeconds -= dropped.duration;
+
+      // Dropped silence loses nothing worth flagging
+      if (!dropped.data) continue;
+
+      if (this.lostFrom === null) {
+        this.lostFrom = dropped.offset;
+      }
+      this.lostUntil = dropped.offset + dropped.duration;
+    }
+  }
+
+  isEmpty() {
+    return this.frames.length === 0;
+  }
+
+  /**
+   * Session offset of the oldest frame still buffered
+   */
+  getStartOffset() {
+    return this.frames.length > 0 ? this.frames[0].offset : null;
+  }
+
+  /**
+   * Span of audio that was dropped for good, or null if nothing was lost
+   */
+  getLostRange() {
+    return this.lostFrom === null ? null : { startOffset: this.lostFrom, endOffset: this.lostUntil };
+  }
+
+  /**
+   * Span from the first lost or buffered frame up to `endOffset`, or null if nothing is pending
+   */
+  getPendingRange(endOffset) {
+    const startOffset = this.lostFrom === null ? this.getStartOffset() : this.lostFrom;
+    return startOffset === null ? null : { startOffset, endOffset };
+  }
+
+  /**
+   * Remove and return every buffered entry, oldest first
+   * Entries are { data, duration }; data is null for skipped silence
+   */
+  drain() {
+    const frames = this.frames.map(({ data, duration }) => ({ data, duration }));
+    this.clear();
+    return frames;
+  }
+
+  clear() {
+    this.frames = [];
+    this.bufferedSeconds = 0;
+    this.lostFrom = null;
+    this.lostUntil = null;
+  }
+}
+
+module.exports = AudioReplayBuffer;
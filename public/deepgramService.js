@@ -1,17 +1,46 @@
 const logger = require('./logger');
 const WebSocket = require('ws');
+const https = require('https');
 const dns = require('dns');
 const { promisify } = require('util');
+const { getSpeakerForAudioMode, getSpeakerForChannel, getAudioDurationSeconds, createGapMarker } = require('./transcriptionProvider');
+const AudioReplayBuffer = require('./audioReplayBuffer');
+const StreamTimeline = require('./streamTimeline');
 const lookup = promisify(dns.lookup);
 
+const KEEPALIVE_INTERVAL_MS = 5000;
+
+/**
+ * Deepgram streaming transcription provider
+ * Implements the provider interface described in transcriptionProvider.js
+ */
 class DeepgramService {
-  constructor() {
+  constructor(options = {}) {
     this.ws = null;
-    this.apiKey = null;
+    this.apiKey = options.apiKey || null;
     this.isConnected = false;
     this.reconnectAttempts = 0;
     this.maxReconnectAttempts = 5;
-    this.audioMode = 'microphone'; // 'microphone', 'system', 'both'
+    this.audioMode = options.audioMode || 'microphone'; // 'microphone', 'system', 'both'
+    this.channels = options.channels || 1; // 2 = mic and system audio as separate channels
+    this.language = options.language || 'en-US'; // 'auto' = multilingual detection
+    this.model = options.model || 'nova-2';
+    this.keywords = options.keywords || []; // 'Pinecone' or 'Pinecone:2' (term:boost)
+    this.onTranscriptCallback = null;
+    this.onStoppedCallback = null;
+
+    // Deepgram timings restart at 0 on every connection, so map each one onto the session timeline
+    this.audioSecondsReceived = 0;
+    this.timeline = new StreamTimeline();
+    this.lastAudioSentAt = 0;
+
+    // Audio captured while reconnecting is replayed instead of dropped
+    this.replayBuffer = new AudioReplayBuffer({
+      maxSeconds: options.replayBufferSeconds || 60,
+      channels: this.channels
+    });
+
+    logger.debug('🎙️ Deepgram provider initialized with key:', this.apiKey ? this.apiKey.substring(0, 10) + '...' : 'NO KEY');
   }
 
   setAudioMode(mode) {
@@ -19,9 +48,12 @@ class DeepgramService {
     logger.debug(`🎙️ Audio mode set to: ${mode}`);
   }
 
-  initialize(apiKey) {
-    this.apiKey = apiKey;
-    logger.debug('🎙️ Deepgram service initialized with key:', apiKey ? apiKey.substring(0, 10) + '...' : 'NO KEY');
+  onTranscript(callback) {
+    this.onTranscriptCallback = callback;
+  }
+
+  onStopped(callback) {
+    this.onStoppedCallback = callback;
   }
 
   async connect() {
@@ -43,18 +75,30 @@ class DeepgramService {
         logger.debug('🔄 Attempting with direct WebSocket connection...');
       }
       
-      const url = 'wss://api.deepgram.com/v1/listen?' + new URLSearchParams({
-        model: 'nova-2',
-        language: 'en-US',
+      const params = {
+        model: this.model,
+        language: this.language === 'auto' ? 'multi' : this.language,
         punctuate: 'true',
         interim_results: 'true',
         endpointing: '300',  // Increased for better sentence boundaries
         utterance_end_ms: '1000',  // Added for better sentence completion
         vad_events: 'true',  // Voice activity detection
+        diarize: 'true',  // Word-level speaker ids
         encoding: 'linear16',
         sample_rate: '16000',
-        channels: '1'
-      }).toString();
+        channels: String(this.channels)
+      };
+
+      // Transcribe each channel independently so lines are tagged rep vs. prospect
+      if (this.channels > 1) {
+        params.multichannel = 'true';
+      }
+
+      const searchParams = new URLSearchParams(params);
+      this.appendVocabulary(searchParams);
+
+      const url = 'wss://api.deepgram.com/v1/listen?' + searchParams.toString();
+      logger.debug(`🗣️ Deepgram model: ${this.model}, language: ${params.language}, vocabulary: ${this.keywords.length} terms`);
 
       try {
         this.ws = new WebSocket(url, {
@@ -67,44 +111,16 @@ class DeepgramService {
         this.ws.on('open', () => {
           logger.debug('✅ Connected to Deepgram WebSocket');
           this.isConnected = true;
+          this.timeline.reset(this.replayBuffer.isEmpty()
+            ? this.audioSecondsReceived
+            : this.replayBuffer.getStartOffset());
           this.reconnectAttempts = 0;
+          this.replayBufferedAudio();
           resolve(true);
         });
 
         this.ws.on('message', (data) => {
-          try {
-            const response = JSON.parse(data.toString());
-            
-            if (response.channel && response.channel.alternatives && response.channel.alternatives.length > 0) {
-              const transcript = response.channel.alternatives[0].transcript;
-              const isFinal = response.is_final || false;
-              
-              if (transcript) {
-                logger.debug(`📝 Deepgram transcript: "${transcript}" (final: ${isFinal})`);
-                // Send transcript to renderer and overlay
-                const transcriptData = {
-                  text: transcript,
-                  timestamp: new Date(),
-                  isInterim: !isFinal,
-                  speaker: this.audioMode === 'system' ? 'call' : (this.audioMode === 'both' ? 'mixed' : 'user'),
-                  audioSource: this.audioMode
-                };
-                
-                if (global.mainWindow) {
-                  global.mainWindow.webContents.send('transcript', transcriptData);
-                  logger.debug('✅ Transcript sent to renderer');
-                  
-                  // Also send to overlay if it exists
-                  const { sendToOverlay } = require('./overlayWindow');
-                  sendToOverlay('transcript', transcriptData);
-                } else {
-                  logger.error('❌ mainWindow not available to send transcript');
-                }
-              }
-            }
-          } catch (error) {
-            logger.error('❌ Error parsing Deepgram response:', error);
-          }
+          this.handleMessage(data);
         });
 
         this.ws.on('error', (error) => {
@@ -138,8 +154,15 @@ class DeepgramService {
                 });
               }
             }, 2000 * this.reconnectAttempts); // Exponential backoff
+          } else if (this.ws) {
+            // close() drops the socket first, so reaching here means the connection gave up on its own
+            logger.error('🛑 Max reconnection attempts reached, transcription stopped');
+            this.discardBufferedAudio();
+            if (this.onStoppedCallback) {
+              this.onStoppedCallback(`Lost the connection to Deepgram (${code})`);
+            }
           } else {
-            logger.debug('🛑 Max reconnection attempts reached or intentional disconnect');
+            logger.debug('🛑 Intentional disconnect');
           }
         });
 
@@ -150,13 +173,257 @@ class DeepgramService {
     });
   }
 
-  sendAudioData(audioData) {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN && this.isConnected) {
+  /**
+   * Add custom vocabulary to the query string
+   * Nova-3 models take plain `keyterm` prompts, older models take `keywords` with an intensifier
+   */
+  appendVocabulary(searchParams) {
+    const useKeyterms = this.model.startsWith('nova-3');
+
+    this.keywords.forEach(entry => {
+      const [term, boost] = entry.split(':').map(part => part.trim());
+      if (!term) return;
+
+      if (useKeyterms) {
+        searchParams.append('keyterm', term);
+      } else {
+        searchParams.append('keywords', boost ? `${term}:${boost}` : term);
+      }
+    });
+  }
+
+  /**
+   * Parse a Deepgram streaming response and emit it as a transcript
+   */
+  handleMessage(data) {
+    try {
+      const response = JSON.parse(data.toString());
+
+      if (response.channel && response.channel.alternatives && response.channel.alternatives.length > 0) {
+        const alternative = response.channel.alternatives[0];
+        const transcript = alternative.transcript;
+        const isFinal = response.is_final || false;
+        // Channel tagging already separates rep from prospect in multichannel mode
+        const isMultichannel = this.channels > 1 && Array.isArray(response.channel_index);
+        const speakerId = isMultichannel ? undefined : this.getDominantSpeaker(alternative.words);
+
+        if (transcript) {
+          logger.debug(`📝 Deepgram transcript: "${transcript}" (final: ${isFinal})`);
+
+          if (this.onTranscriptCallback) {
+            const hasTimings = typeof response.start === 'number';
+            const source = isMultichannel
+              ? getSpeakerForChannel(response.channel_index[0])
+              : { speaker: getSpeakerForAudioMode(this.audioMode), audioSource: this.audioMode };
+
+            this.onTranscriptCallback({
+              text: transcript,
+              timestamp: new Date(),
+              isInterim: !isFinal,
+              speaker: source.speaker,
+              speakerId,
+              audioSource: source.audioSource,
+              channelIndex: isMultichannel ? response.channel_index[0] : undefined,
+              startOffset: hasTimings ? this.timeline.toSessionOffset(response.start) : undefined,
+              endOffset: hasTimings ? this.timeline.toSessionOffset(response.start + (response.duration || 0)) : undefined,
+              words: this.mapWords(alternative.words)
+            });
+          }
+        }
+      }
+    } catch (error) {
+      logger.error('❌ Error parsing Deepgram response:', error);
+    }
+  }
+
+  /**
+   * Pick the diarized speaker who said most of the words in an utterance
+   * Returns undefined when the response carries no speaker ids
+   */
+  getDominantSpeaker(words) {
+    if (!Array.isArray(words)) return undefined;
+
+    const counts = new Map();
+    words.forEach(word => {
+      if (typeof word.speaker === 'number') {
+        counts.set(word.speaker, (counts.get(word.speaker) || 0) + 1);
+      }
+    });
+
+    let dominant;
+    let maxCount = 0;
+    counts.forEach((count, speaker) => {
+      if (count > maxCount) {
+        dominant = speaker;
+        maxCount = count;
+      }
+    });
+    return dominant;
+  }
+
+  /**
+   * Transcribe a complete recording in pre-recorded (batch) mode
+   * Batch mode sees the whole call, so diarization and formatting are far more
+   * accurate than the live stream. Resolves to utterances with session offsets.
+   */
+  transcribeFile(audioBuffer, { channels = 1, mimeType = 'audio/wav' } = {}) {
+    return new Promise((resolve, reject) => {
+      if (!this.apiKey) {
+        reject(new Error('No Deepgram API key provided'));
+        return;
+      }
+
+      const searchParams = new URLSearchParams({
+        model: this.model,
+        punctuate: 'true',
+        smart_format: 'true',
+        diarize: 'true',
+        utterances: 'true'
+      });
+      if (this.language === 'auto') {
+        searchParams.set('detect_language', 'true');
+      } else {
+        searchParams.set('language', this.language);
+      }
+      if (channels > 1) {
+        searchParams.set('multichannel', 'true');
+      }
+      this.appendVocabulary(searchParams);
+
+      logger.debug(`📼 Sending ${(audioBuffer.length / 1024 / 1024).toFixed(1)} MB to Deepgram pre-recorded API...`);
+
+      const req = https.request({
+        hostname: 'api.deepgram.com',
+        path: `/v1/listen?${searchParams.toString()}`,
+        method: 'POST',
+        headers: {
+          'Authorization': `Token ${this.apiKey}`,
+          'Content-Type': mimeType,
+          'Content-Length': audioBuffer.length
+        }
+      }, (res) => {
+        const chunks = [];
+        res.on('data', (chunk) => chunks.push(chunk));
+        res.on('end', () => {
+          const body = Buffer.concat(chunks).toString();
+
+          if (res.statusCode !== 200) {
+            reject(new Error(`Deepgram batch transcription failed (status: ${res.statusCode}): ${body.substring(0, 200)}`));
+            return;
+          }
+
+          try {
+            const response = JSON.parse(body);
+            const utterances = (response.results && response.results.utterances) || [];
+            const isMultichannel = channels > 1;
+
+            resolve(utterances.map(utterance => {
+              const source = isMultichannel
+                ? getSpeakerForChannel(utterance.channel)
+                : { speaker: undefined, audioSource: this.audioMode };
+
+              return {
+                text: utterance.transcript,
+                speaker: source.speaker,
+                speakerId: isMultichannel ? undefined : utterance.speaker,
+                audioSource: source.audioSource,
+                startOffset: utterance.start,
+                endOffset: utterance.end,
+                words: (utterance.words || []).map(word => ({
+                  word: word.punctuated_word || word.word,
+                  start: word.start,
+                  end: word.end,
+                  confidence: word.confidence,
+                  speaker: word.speaker
+                }))
+              };
+            }));
+          } catch (error) {
+            reject(error);
+          }
+        });
+      });
+
+      req.on('error', reject);
+      req.write(audioBuffer);
+      req.end();
+    });
+  }
+
+  /**
+   * Convert Deepgram word timings to session-relative offsets
+   */
+  mapWords(words) {
+    if (!Array.isArray(words) || words.length === 0) return undefined;
+
+    return words.map(word => ({
+      word: word.punctuated_word || word.word,
+      start: this.timeline.toSessionOffset(word.start),
+      end: this.timeline.toSessionOffset(word.end),
+      confidence: word.confidence,
+      speaker: word.speaker
+    }));
+  }
+
+  /**
+   * Send audio held while disconnected, and flag whatever no longer fit as a gap
+   */
+  replayBufferedAudio() {
+    const lostRange = this.replayBuffer.getLostRange();
+    const frames = this.replayBuffer.drain();
+
+    frames.forEach(({ data, duration }) => {
+      if (data) {
+        this.ws.send(data);
+        this.timeline.addSent(duration);
+      } else {
+        this.timeline.addSkipped(duration);
+      }
+    });
+
+    if (frames.length > 0) {
+      logger.debug(`⏪ Replayed ${frames.length} buffered audio frames to Deepgram`);
+    }
+
+    if (lostRange) {
+      logger.warn(`⚠️ Audio lost while disconnected: ${lostRange.startOffset.toFixed(1)}s - ${lostRange.endOffset.toFixed(1)}s`);
+      if (this.onTranscriptCallback) {
+        this.onTranscriptCallback(createGapMarker(lostRange, this.audioMode));
+      }
+    }
+  }
+
+  /**
+   * Give up on audio still waiting for a connection and mark it as a gap in the transcript
+   */
+  discardBufferedAudio() {
+    const pendingRange = this.replayBuffer.getPendingRange(this.audioSecondsReceived);
+    this.replayBuffer.clear();
+
+    if (pendingRange) {
+      logger.warn(`⚠️ Audio never sent: ${pendingRange.startOffset.toFixed(1)}s - ${pendingRange.endOffset.toFixed(1)}s`);
+      if (this.onTranscriptCallback) {
+        this.onTranscriptCallback(createGapMarker(pendingRange, this.audioMode));
+      }
+    }
+  }
+
+  sendAudio(audioData) {
+    const offset = this.audioSecondsReceived;
+    const duration = getAudioDurationSeconds(audioData, this.channels);
+    // Count every frame, sent or not, so offsets follow the real call timeline
+    this.audioSecondsReceived += duration;
+
+    if (this.isOpen()) {
       this.ws.send(audioData);
+      this.timeline.addSent(duration);
+      this.lastAudioSentAt = Date.now();
     } else {
+      this.replayBuffer.push(audioData, offset);
+
       // Only log occasionally to avoid spam
       if (Math.random() < 0.01) { // Log ~1% of the time
-        logger.warn('⚠️ WebSocket not ready, skipping audio data', {
+        logger.warn('⚠️ WebSocket not ready, buffering audio data', {
           wsExists: !!this.ws,
           readyState: this.ws?.readyState,
           isConnected: this.isConnected
@@ -165,7 +432,33 @@ class DeepgramService {
     }
   }
 
-  disconnect() {
+  /**
+   * Account for silence the voice activity gate chose not to stream
+   * Deepgram closes idle sockets after ~10s, so send KeepAlive messages instead
+   */
+  skipAudio(audioData) {
+    const offset = this.audioSecondsReceived;
+    const duration = getAudioDurationSeconds(audioData, this.channels);
+    this.audioSecondsReceived += duration;
+
+    if (!this.isOpen()) {
+      this.replayBuffer.pushSilence(duration, offset);
+      return;
+    }
+
+    this.timeline.addSkipped(duration);
+
+    if (Date.now() - this.lastAudioSentAt >= KEEPALIVE_INTERVAL_MS) {
+      this.ws.send(JSON.stringify({ type: 'KeepAlive' }));
+      this.lastAudioSentAt = Date.now();
+    }
+  }
+
+  isOpen() {
+    return !!this.ws && this.ws.readyState === WebSocket.OPEN && this.isConnected;
+  }
+
+  close() {
     logger.debug('🛑 Disconnecting from Deepgram...');
     this.reconnectAttempts = this.maxReconnectAttempts; // Prevent further reconnections
     if (this.ws) {
@@ -173,8 +466,9 @@ class DeepgramService {
       this.ws = null;
     }
     this.isConnected = false;
+    this.discardBufferedAudio();
     logger.debug('✅ Deepgram disconnected');
   }
 }
 
-module.exports = DeepgramService;
\ No newline at end of file
+module.exports = DeepgramService;
@@ -2,8 +2,8 @@ const logger = require('./logger');
 const { desktopCapturer } = require('electron');
 
 class DualAudioCapture {
-  constructor(deepgramService) {
-    this.deepgramService = deepgramService;
+  constructor(transcriptionProvider) {
+    this.transcriptionProvider = transcriptionProvider;
     this.micStream = null;
     this.systemStream = null;
     this.audioContext = null;
@@ -90,8 +90,8 @@ class DualAudioCapture {
   sendAudioData(audioData) {
     if (!this.isCapturing) return;
     
-    if (this.deepgramService) {
-      this.deepgramService.sendAudioData(audioData);
+    if (this.transcriptionProvider) {
+      this.transcriptionProvider.sendAudio(audioData);
     }
   }
 }
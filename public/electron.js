@@ -2,27 +2,69 @@ const { app, BrowserWindow, ipcMain, Menu, Tray, nativeImage, desktopCapturer, s
 const logger = require('./logger');
 const path = require('path');
 const fs = require('fs');
-const DeepgramService = require('./deepgramService');
+const { createTranscriptionProvider, DEFAULT_PROVIDER } = require('./transcriptionProvider');
 const DualAudioCapture = require('./dualAudioCapture');
+const sessionRecorder = require('./sessionRecorder');
+const VoiceActivityGate = require('./voiceActivityGate');
 const { createOverlayWindow, closeOverlayWindow, sendToOverlay, syncDataToOverlay } = require('./overlayWindow');
 const conversationDB = require('./supabaseDB');
+const knowledgeBase = require('./knowledgeBase');
 const isDev = process.env.ELECTRON_IS_DEV === 'true' || false;
 
 // Load environment variables
 require('dotenv').config();
 
-// Initialize Deepgram service
-const deepgramService = new DeepgramService();
+// Active transcription provider (created per recording from settings)
+let transcriptionProvider = null;
 let dualAudioCapture = null;
+let audioGate = null;
+let lastAudioLevelSentAt = 0;
+
+// Level meter updates are throttled so accelerated imports don't flood the renderer
+const AUDIO_LEVEL_INTERVAL_MS = 100;
 
 // Settings storage
 const settingsPath = path.join(app.getPath('userData'), 'settings.json');
 let settings = {
   deepgramKey: process.env.DEEPGRAM_API_KEY || '',
-  openaiKey: process.env.GROQ_API_KEY || process.env.OPENAI_API_KEY || '',
+  openaiKey: process.env.OPENAI_API_KEY || '',
+  groqKey: process.env.GROQ_API_KEY || '',
+  anthropicKey: process.env.ANTHROPIC_API_KEY || '',
+  localLLMUrl: '',
+  llmModels: {
+    chat: { provider: 'groq', model: 'llama-3.3-70b-versatile' },
+    todos: { provider: 'groq', model: 'llama-3.3-70b-versatile' },
+    insights: { provider: 'groq', model: 'llama-3.3-70b-versatile' },
+    summaries: { provider: 'groq', model: 'llama-3.3-70b-versatile' }
+  },
+  llmFallbacks: [
+    { provider: 'openai', model: 'gpt-5-nano' }
+  ],
+  embeddingModel: { provider: 'openai', model: 'text-embedding-3-small' },
   autoTranscription: true,
   autoTodos: true,
-  autoSuggestions: true
+  autoSuggestions: true,
+  liveSummaryInterval: 8,
+  objectionDetection: true,
+  qualificationFramework: 'bant',
+  sentimentTracking: true,
+  playbookSuggestions: true,
+  transcriptionProvider: DEFAULT_PROVIDER,
+  localTranscriptionUrl: 'ws://localhost:9090',
+  multichannelTranscription: false,
+  transcriptionLanguage: 'en-US',
+  transcriptionModel: 'nova-2',
+  customVocabulary: [],
+  recordSessionAudio: false,
+  silenceGating: true,
+  audioInputDeviceId: '',
+  systemAudioSourceId: '',
+  microphoneGain: 1,
+  systemAudioGain: 1,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  duckSystemAudio: false
 };
 
 // Load settings on startup
@@ -130,6 +172,13 @@ app.on('ready', () => {
     logger.error('❌ Failed to initialize database:', error);
   }
 
+  // Local playbook knowledge base (embeddings stay on this machine)
+  try {
+    knowledgeBase.initializeKnowledgeBase();
+  } catch (error) {
+    logger.error('❌ Failed to initialize knowledge base:', error);
+  }
+
   // Request microphone permission on macOS
   if (process.platform === 'darwin') {
     systemPreferences.askForMediaAccess('microphone');
@@ -153,6 +202,7 @@ app.on('activate', () => {
 
 app.on('before-quit', () => {
   isQuiting = true;
+  knowledgeBase.closeKnowledgeBase();
 });
 
 // ================================
@@ -415,10 +465,11 @@ ipcMain.handle('update-settings', (event, newSettings) => {
 });
 
 // Test API connections
-ipcMain.handle('test-deepgram', async (event, apiKey) => {
+// With a recorded sample, also runs a transcription round-trip for the audio check
+ipcMain.handle('test-deepgram', async (event, apiKey, audioData) => {
   try {
     const https = require('https');
-    return new Promise((resolve) => {
+    const keyResult = await new Promise((resolve) => {
       const options = {
         hostname: 'api.deepgram.com',
         path: '/v1/projects',
@@ -443,6 +494,27 @@ ipcMain.handle('test-deepgram', async (event, apiKey) => {
 
       req.end();
     });
+
+    if (!keyResult.success || !audioData) {
+      return keyResult;
+    }
+
+    const provider = createTranscriptionProvider('deepgram', {
+      apiKey,
+      audioMode: 'microphone',
+      language: settings.transcriptionLanguage,
+      model: settings.transcriptionModel,
+      keywords: settings.customVocabulary
+    });
+    const utterances = await provider.transcribeFile(sessionRecorder.toWav(Buffer.from(audioData)), { channels: 1 });
+    const transcript = utterances.map(utterance => utterance.text).join(' ').trim();
+
+    logger.debug('🧪 Audio check transcription:', transcript);
+    return {
+      success: transcript.length > 0,
+      message: transcript ? 'Transcription round-trip succeeded' : 'No speech recognized - check the microphone level',
+      transcript
+    };
   } catch (error) {
     return { success: false, message: error.message };
   }
@@ -566,33 +638,104 @@ ipcMain.handle('get-audio-sources', async () => {
   }
 });
 
-// Deepgram transcription handlers
-ipcMain.handle('deepgram-start', async (event, apiKey) => {
+// Forward a provider transcript to the renderer and overlay
+function emitTranscript(transcriptData) {
+  if (global.mainWindow) {
+    global.mainWindow.webContents.send('transcript', transcriptData);
+    logger.debug('✅ Transcript sent to renderer');
+
+    // Also send to overlay if it exists
+    sendToOverlay('transcript', transcriptData);
+  } else {
+    logger.error('❌ mainWindow not available to send transcript');
+  }
+}
+
+// Tell the renderer the provider gave up, so the session can be ended instead of silently going quiet
+function emitTranscriptionStopped(reason) {
+  logger.error('❌ Transcription stopped:', reason);
+  if (global.mainWindow) {
+    global.mainWindow.webContents.send('transcription-stopped', { reason });
+  }
+}
+
+// Forward the input level (and whether the voice gate is open) to the Header meter
+function emitAudioLevel(level, isSpeech) {
+  const now = Date.now();
+  if (!global.mainWindow || now - lastAudioLevelSentAt < AUDIO_LEVEL_INTERVAL_MS) return;
+
+  lastAudioLevelSentAt = now;
+  global.mainWindow.webContents.send('audio-level', { level, isSpeech });
+}
+
+// Hand a frame to the active provider (through dual capture when it is running)
+function forwardAudio(audioData) {
+  if (dualAudioCapture && dualAudioCapture.isCapturing) {
+    dualAudioCapture.sendAudioData(audioData);
+  } else {
+    transcriptionProvider.sendAudio(audioData);
+  }
+}
+
+// Transcription handlers (channel names kept for compatibility, provider chosen from settings)
+ipcMain.handle('deepgram-start', async (event, apiKey, options = {}) => {
+  const providerName = settings.transcriptionProvider || DEFAULT_PROVIDER;
+  // Imported files are always mono, so callers may override the configured layout
+  const channels = options.channels || (settings.multichannelTranscription ? 2 : 1);
+
   try {
-    logger.debug(`🎙️ Starting Deepgram transcription for client calls (mic + system)...`);
-    deepgramService.initialize(apiKey);
-    deepgramService.setAudioMode('both'); // Always use both for client calls
-    await deepgramService.connect();
+    logger.debug(`🎙️ Starting ${providerName} transcription for client calls (mic + system)...`);
+
+    if (transcriptionProvider) {
+      transcriptionProvider.close();
+    }
+
+    transcriptionProvider = createTranscriptionProvider(providerName, {
+      apiKey,
+      url: settings.localTranscriptionUrl,
+      audioMode: 'both', // Always use both for client calls
+      channels,
+      language: settings.transcriptionLanguage,
+      model: settings.transcriptionModel,
+      keywords: settings.customVocabulary
+    });
+    transcriptionProvider.onTranscript(emitTranscript);
+    transcriptionProvider.onStopped(emitTranscriptionStopped);
+    await transcriptionProvider.connect();
+
+    // Silence is not streamed when gating is on; the gate also drives the level meter
+    audioGate = new VoiceActivityGate({ channels });
     
-    // Initialize dual audio capture
-    if (!dualAudioCapture) {
-      dualAudioCapture = new DualAudioCapture(deepgramService);
+    // Initialize dual audio capture against the active provider
+    if (dualAudioCapture) {
+      dualAudioCapture.stopCapture();
     }
+    dualAudioCapture = new DualAudioCapture(transcriptionProvider);
     await dualAudioCapture.startCapture('both');
+
+    // Opt-in local copy of the call audio
+    if (settings.recordSessionAudio) {
+      sessionRecorder.start(channels);
+    }
     
     return { success: true };
   } catch (error) {
-    logger.error('❌ Failed to start Deepgram:', error);
+    logger.error(`❌ Failed to start ${providerName} transcription:`, error);
     return { success: false, error: error.message };
   }
 });
 
 ipcMain.handle('deepgram-stop', () => {
-  logger.debug('🛑 Stopping Deepgram transcription...');
+  logger.debug('🛑 Stopping transcription...');
   if (dualAudioCapture) {
     dualAudioCapture.stopCapture();
   }
-  deepgramService.disconnect();
+  if (transcriptionProvider) {
+    transcriptionProvider.close();
+    transcriptionProvider = null;
+  }
+  audioGate = null;
+  sessionRecorder.stop();
   return { success: true };
 });
 
@@ -603,12 +746,30 @@ ipcMain.handle('deepgram-send-audio', (event, audioData) => {
     logger.debug(`📡 Main process received ${global.audioPacketCount} audio packets (latest: ${audioData.byteLength} bytes)`);
   }
   
-  if (dualAudioCapture && dualAudioCapture.isCapturing) {
-    dualAudioCapture.sendAudioData(audioData);
-  } else if (deepgramService) {
-    deepgramService.sendAudioData(audioData);
-  } else {
+  // The recording keeps silence so it stays aligned with transcript offsets
+  sessionRecorder.write(audioData);
+
+  if (!transcriptionProvider) {
     logger.warn('⚠️ No audio service available to send data to');
+    return { success: true };
+  }
+
+  if (audioGate && settings.silenceGating && transcriptionProvider.skipAudio) {
+    const { level, isSpeech, frames } = audioGate.process(audioData);
+    emitAudioLevel(level, isSpeech);
+
+    frames.forEach(frame => {
+      if (frame.send) {
+        forwardAudio(frame.data);
+      } else {
+        transcriptionProvider.skipAudio(frame.data);
+      }
+    });
+  } else {
+    if (audioGate) {
+      emitAudioLevel(audioGate.getLevel(Buffer.from(audioData)), true);
+    }
+    forwardAudio(audioData);
   }
   return { success: true };
 });
@@ -659,6 +820,17 @@ ipcMain.handle('update-transcript', async (event, transcriptId, text) => {
   return conversationDB.updateTranscript(transcriptId, text);
 });
 
+// Store sentiment and engagement scores for transcripts
+ipcMain.handle('update-transcript-scores', async (event, scores) => {
+  return conversationDB.updateTranscriptScores(scores);
+});
+
+// Rename a diarized speaker across a session
+ipcMain.handle('rename-speaker', async (event, sessionId, speakerId, name) => {
+  logger.debug(`🏷️ Renaming speaker ${speakerId} in session:`, sessionId);
+  return conversationDB.renameSpeaker(sessionId, speakerId, name);
+});
+
 // Get all recording sessions
 ipcMain.handle('get-all-sessions', async () => {
   logger.debug('📋 Loading all sessions');
@@ -671,12 +843,154 @@ ipcMain.handle('get-session', async (event, sessionId) => {
   return conversationDB.getSession(sessionId);
 });
 
+// Save the structured post-call report
+ipcMain.handle('save-call-report', async (event, report) => {
+  logger.debug('📑 Saving call report for session:', report.sessionId);
+  return conversationDB.saveCallReport(report);
+});
+
+// Get the post-call report for a session
+ipcMain.handle('get-call-report', async (event, sessionId) => {
+  logger.debug('📑 Loading call report for session:', sessionId);
+  return conversationDB.getCallReport(sessionId);
+});
+
+// Team rebuttal library for objection cards
+ipcMain.handle('get-rebuttals', async () => {
+  return conversationDB.getRebuttals();
+});
+
+ipcMain.handle('save-rebuttal', async (event, rebuttal) => {
+  logger.debug('🛡️ Saving rebuttal:', rebuttal.id);
+  return conversationDB.saveRebuttal(rebuttal);
+});
+
+ipcMain.handle('delete-rebuttal', async (event, rebuttalId) => {
+  logger.debug('🗑️ Deleting rebuttal:', rebuttalId);
+  return conversationDB.deleteRebuttal(rebuttalId);
+});
+
+// Playbook knowledge base (battle cards, case studies, pricing, portfolio)
+ipcMain.handle('list-knowledge-documents', async () => {
+  return knowledgeBase.listDocuments();
+});
+
+ipcMain.handle('save-knowledge-document', async (event, document, chunks) => {
+  logger.debug('📚 Saving knowledge document:', document.title);
+  return knowledgeBase.saveDocument(document, chunks);
+});
+
+ipcMain.handle('delete-knowledge-document', async (event, documentId) => {
+  logger.debug('🗑️ Deleting knowledge document:', documentId);
+  return knowledgeBase.deleteDocument(documentId);
+});
+
+ipcMain.handle('search-knowledge', async (event, embedding, options) => {
+  return knowledgeBase.searchKnowledge(embedding, options);
+});
+
 // Delete a session and its conversations
 ipcMain.handle('delete-session', async (event, sessionId) => {
   logger.debug('🗑️ Deleting session:', sessionId);
+  try {
+    sessionRecorder.delete(sessionId);
+  } catch (error) {
+    logger.error('❌ Failed to delete session audio:', error);
+  }
   return conversationDB.deleteSession(sessionId);
 });
 
+// ================================
+// SESSION AUDIO RECORDING IPC HANDLERS
+// ================================
+
+// Name the in-progress recording after the session the renderer created
+ipcMain.handle('attach-recording-session', (event, sessionId) => {
+  if (!sessionRecorder.isRecording()) {
+    return { success: false, error: 'No audio recording in progress' };
+  }
+  try {
+    sessionRecorder.attachSession(sessionId);
+    return { success: true };
+  } catch (error) {
+    logger.error('❌ Failed to attach session audio recording:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Re-run a session's recorded audio through the provider in batch mode
+// mode 'replace' deletes the previous transcripts, 'version' keeps them as history
+ipcMain.handle('retranscribe-session', async (event, sessionId, mode = 'version') => {
+  const providerName = settings.transcriptionProvider || DEFAULT_PROVIDER;
+
+  try {
+    logger.debug(`🔁 Re-transcribing session ${sessionId} with ${providerName} (${mode})...`);
+
+    const audio = sessionRecorder.read(sessionId);
+    if (!audio) {
+      return { success: false, error: 'No recording for this session' };
+    }
+
+    const sessionResult = await conversationDB.getSession(sessionId);
+    if (!sessionResult.success) {
+      return { success: false, error: sessionResult.error || 'Session not found' };
+    }
+
+    const provider = createTranscriptionProvider(providerName, {
+      apiKey: settings.deepgramKey,
+      url: settings.localTranscriptionUrl,
+      audioMode: 'both',
+      language: settings.transcriptionLanguage,
+      model: settings.transcriptionModel,
+      keywords: settings.customVocabulary
+    });
+    if (typeof provider.transcribeFile !== 'function') {
+      return { success: false, error: `The ${providerName} provider does not support re-transcription` };
+    }
+
+    const utterances = await provider.transcribeFile(audio, {
+      channels: sessionRecorder.getChannelCount(audio)
+    });
+
+    // Wall-clock timestamps follow the audio offsets from the session start
+    const startedAt = sessionResult.session.startedAt.getTime();
+    const transcripts = utterances
+      .filter(utterance => utterance.text && utterance.text.trim())
+      .map(utterance => ({
+        ...utterance,
+        speaker: utterance.speaker || (utterance.speakerId !== undefined ? `Speaker ${utterance.speakerId + 1}` : undefined),
+        timestamp: new Date(startedAt + utterance.startOffset * 1000)
+      }));
+
+    const saveResult = await conversationDB.saveTranscriptVersion(sessionId, transcripts, mode === 'replace');
+    if (!saveResult.success) {
+      return saveResult;
+    }
+
+    await conversationDB.updateSession(sessionId, { transcriptCount: transcripts.length });
+
+    logger.debug(`✅ Re-transcribed session ${sessionId}: ${transcripts.length} utterances (version ${saveResult.version})`);
+    return { success: true, version: saveResult.version, count: transcripts.length };
+  } catch (error) {
+    logger.error('❌ Failed to re-transcribe session:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Load a session's recorded audio (WAV bytes)
+ipcMain.handle('get-session-audio', async (event, sessionId) => {
+  try {
+    const audio = sessionRecorder.read(sessionId);
+    if (!audio) {
+      return { success: false, error: 'No recording for this session' };
+    }
+    return { success: true, audio };
+  } catch (error) {
+    logger.error('❌ Failed to read session audio:', error);
+    return { success: false, error: error.message };
+  }
+});
+
 logger.debug('🚀 AI Sales Assistant - Native Desktop App Started');
 logger.debug(`📱 Platform: ${process.platform}`);
 logger.debug(`🔧 Dev Mode: ${isDev}`);
\ No newline at end of file
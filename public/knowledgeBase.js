@@ -0,0 +1,224 @@
+const Database = require('better-sqlite3');
+const path = require('path');
+const { app } = require('electron');
+const logger = require('./logger');
+
+let db = null;
+// Chunk vectors kept in memory for search; rebuilt after any change
+let chunkCache = null;
+
+/**
+ * Initialize the local knowledge base
+ * Battle cards, case studies and other team content, split into chunks with their embeddings
+ */
+function initializeKnowledgeBase() {
+  try {
+    const dbPath = path.join(app.getPath('userData'), 'knowledge-base.db');
+    logger.debug('📁 Initializing knowledge base at:', dbPath);
+
+    db = new Database(dbPath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS kb_documents (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        source TEXT,
+        embedding_model TEXT NOT NULL,
+        created_at INTEGER DEFAULT (strftime('%s', 'now'))
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS kb_chunks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        document_id TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        text TEXT NOT NULL,
+        embedding BLOB NOT NULL,
+        FOREIGN KEY (document_id) REFERENCES kb_documents(id) ON DELETE CASCADE
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_kb_chunks_document
+      ON kb_chunks(document_id);
+    `);
+
+    logger.debug('✅ Knowledge base initialized successfully');
+    return true;
+  } catch (error) {
+    logger.error('❌ Failed to initialize knowledge base:', error);
+    throw error;
+  }
+}
+
+/**
+ * List documents with their chunk counts
+ */
+function listDocuments() {
+  try {
+    const rows = db.prepare(`
+      SELECT d.*, COUNT(c.id) AS chunk_count
+      FROM kb_documents d
+      LEFT JOIN kb_chunks c ON c.document_id = d.id
+      GROUP BY d.id
+      ORDER BY d.created_at DESC
+    `).all();
+
+    const documents = rows.map(row => ({
+      id: row.id,
+      title: row.title,
+      kind: row.kind,
+      source: row.source || undefined,
+      embeddingModel: row.embedding_model,
+      chunkCount: row.chunk_count,
+      createdAt: new Date(row.created_at * 1000)
+    }));
+
+    return { success: true, documents };
+  } catch (error) {
+    logger.error('❌ Failed to list knowledge base documents:', error);
+    return { success: false, error: error.message, documents: [] };
+  }
+}
+
+/**
+ * Save a document and its embedded chunks, replacing any earlier version
+ */
+function saveDocument(document, chunks) {
+  try {
+    const insertDocument = db.prepare(`
+      INSERT OR REPLACE INTO kb_documents (id, title, kind, source, embedding_model)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    const deleteChunks = db.prepare('DELETE FROM kb_chunks WHERE document_id = ?');
+    const insertChunk = db.prepare(`
+      INSERT INTO kb_chunks (document_id, position, text, embedding)
+      VALUES (?, ?, ?, ?)
+    `);
+
+    db.transaction(() => {
+      deleteChunks.run(document.id);
+      insertDocument.run(document.id, document.title, document.kind, document.source || null, document.embeddingModel);
+      chunks.forEach((chunk, position) => {
+        insertChunk.run(document.id, position, chunk.text, Buffer.from(new Float32Array(chunk.embedding).buffer));
+      });
+    })();
+
+    chunkCache = null;
+    logger.debug(`✅ Knowledge base document saved: ${document.title} (${chunks.length} chunks)`);
+    return { success: true };
+  } catch (error) {
+    logger.error('❌ Failed to save knowledge base document:', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Delete a document and its chunks
+ */
+function deleteDocument(documentId) {
+  try {
+    db.prepare('DELETE FROM kb_chunks WHERE document_id = ?').run(documentId);
+    db.prepare('DELETE FROM kb_documents WHERE id = ?').run(documentId);
+
+    chunkCache = null;
+    logger.debug('✅ Knowledge base document deleted:', documentId);
+    return { success: true };
+  } catch (error) {
+    logger.error('❌ Failed to delete knowledge base document:', error);
+    return { success: false, error: error.message };
+  }
+}
+
+function loadChunks() {
+  if (!chunkCache) {
+    chunkCache = db.prepare(`
+      SELECT c.document_id, c.text, c.embedding, d.title, d.kind, d.embedding_model
+      FROM kb_chunks c
+      JOIN kb_documents d ON d.id = c.document_id
+    `).all().map(row => {
+      const vector = new Float32Array(row.embedding.buffer, row.embedding.byteOffset, row.embedding.byteLength / 4);
+      return {
+        documentId: row.document_id,
+        title: row.title,
+        kind: row.kind,
+        text: row.text,
+        embeddingModel: row.embedding_model,
+        vector,
+        norm: Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+      };
+    });
+  }
+  return chunkCache;
+}
+
+/**
+ * Find the chunks closest to a query embedding (cosine similarity)
+ * Only chunks embedded with the same model are comparable.
+ */
+function searchKnowledge(embedding, options = {}) {
+  try {
+    const { embeddingModel, limit = 3, minScore = 0 } = options;
+    const query = Float32Array.from(embedding);
+    const queryNorm = Math.sqrt(query.reduce((sum, value) => sum + value * value, 0));
+    if (queryNorm === 0) {
+      return { success: true, results: [] };
+    }
+
+    const scored = loadChunks()
+      .filter(chunk => chunk.vector.length === query.length && (!embeddingModel || chunk.embeddingModel === embeddingModel))
+      .map(chunk => {
+        let dot = 0;
+        for (let i = 0; i < query.length; i++) {
+          dot += query[i] * chunk.vector[i];
+        }
+        return { chunk, score: chunk.norm > 0 ? dot / (chunk.norm * queryNorm) : 0 };
+      })
+      .filter(({ score }) => score >= minScore)
+      .sort((a, b) => b.score - a.score);
+
+    // One result per document, so a long case study doesn't crowd out the rest
+    const seen = new Set();
+    const results = [];
+    for (const { chunk, score } of scored) {
+      if (seen.has(chunk.documentId)) continue;
+      seen.add(chunk.documentId);
+      results.push({
+        documentId: chunk.documentId,
+        title: chunk.title,
+        kind: chunk.kind,
+        text: chunk.text,
+        score
+      });
+      if (results.length >= limit) break;
+    }
+
+    return { success: true, results };
+  } catch (error) {
+    logger.error('❌ Failed to search knowledge base:', error);
+    return { success: false, error: error.message, results: [] };
+  }
+}
+
+/**
+ * Close the knowledge base
+ */
+function closeKnowledgeBase() {
+  if (db) {
+    db.close();
+    logger.debug('📁 Knowledge base closed');
+  }
+}
+
+module.exports = {
+  initializeKnowledgeBase,
+  listDocuments,
+  saveDocument,
+  deleteDocument,
+  searchKnowledge,
+  closeKnowledgeBase
+};
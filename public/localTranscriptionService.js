@@ -0,0 +1,274 @@
+const logger = require('./logger');
+const WebSocket = require('ws');
+const { getSpeakerForAudioMode, getSpeakerForChannel, getAudioDurationSeconds, createGapMarker } = require('./transcriptionProvider');
+const AudioReplayBuffer = require('./audioReplayBuffer');
+const StreamTimeline = require('./streamTimeline');
+
+/**
+ * Local/offline transcription provider
+ * Streams linear16 PCM to a self-hosted WebSocket server (e.g. a Whisper or
+ * faster-whisper bridge) so audio never leaves the machine.
+ * Implements the provider interface described in transcriptionProvider.js
+ */
+class LocalTranscriptionService {
+  constructor(options = {}) {
+    this.ws = null;
+    this.url = options.url || 'ws://localhost:9090';
+    this.isConnected = false;
+    this.reconnectAttempts = 0;
+    this.maxReconnectAttempts = 5;
+    this.audioMode = options.audioMode || 'microphone'; // 'microphone', 'system', 'both'
+    this.channels = options.channels || 1;
+    this.language = options.language || 'en-US';
+    this.keywords = options.keywords || [];
+    this.onTranscriptCallback = null;
+    this.onStoppedCallback = null;
+
+    // Server timings restart at 0 on every connection, so map each one onto the session timeline
+    this.audioSecondsReceived = 0;
+    this.timeline = new StreamTimeline();
+
+    // Audio captured while reconnecting is replayed instead of dropped
+    this.replayBuffer = new AudioReplayBuffer({
+      maxSeconds: options.replayBufferSeconds || 60,
+      channels: this.channels
+    });
+
+    logger.debug('🖥️ Local transcription provider initialized for:', this.url);
+  }
+
+  onTranscript(callback) {
+    this.onTranscriptCallback = callback;
+  }
+
+  onStopped(callback) {
+    this.onStoppedCallback = callback;
+  }
+
+  async connect() {
+    return new Promise((resolve, reject) => {
+      logger.debug(`🔗 Connecting to local transcription server at ${this.url}...`);
+
+      try {
+        this.ws = new WebSocket(this.url);
+
+        this.ws.on('open', () => {
+          logger.debug('✅ Connected to local transcription server');
+          this.isConnected = true;
+          this.timeline.reset(this.replayBuffer.isEmpty()
+            ? this.audioSecondsReceived
+            : this.replayBuffer.getStartOffset());
+          this.reconnectAttempts = 0;
+
+          // Describe the audio format before streaming starts
+          this.ws.send(JSON.stringify({
+            type: 'config',
+            encoding: 'linear16',
+            sample_rate: 16000,
+            channels: this.channels,
+            language: this.language === 'auto' ? null : this.language.split('-')[0], // Whisper uses ISO 639-1, null = detect
+            initial_prompt: this.keywords.map(entry => entry.split(':')[0].trim()).filter(Boolean).join(', ') || undefined,
+            interim_results: true
+          }));
+
+          this.replayBufferedAudio();
+          resolve(true);
+        });
+
+        this.ws.on('message', (data) => {
+          this.handleMessage(data);
+        });
+
+        this.ws.on('error', (error) => {
+          logger.error('❌ Local transcription WebSocket error:', error.message);
+          this.isConnected = false;
+          reject(error);
+        });
+
+        this.ws.on('close', (code, reason) => {
+          logger.debug(`🔌 Local transcription WebSocket closed: ${code} - ${reason}`);
+          this.isConnected = false;
+
+          // Only attempt reconnection if not intentionally disconnected
+          if (this.reconnectAttempts < this.maxReconnectAttempts && code !== 1000) {
+            this.reconnectAttempts++;
+            logger.debug(`🔄 Attempting reconnection ${this.reconnectAttempts}/${this.maxReconnectAttempts}...`);
+            setTimeout(() => {
+              this.connect().catch(error => {
+                logger.error('❌ Reconnection failed:', error.message);
+              });
+            }, 2000 * this.reconnectAttempts);
+          } else if (this.ws) {
+            // close() drops the socket first, so reaching here means the connection gave up on its own
+            logger.error('🛑 Max reconnection attempts reached, transcription stopped');
+            this.discardBufferedAudio();
+            if (this.onStoppedCallback) {
+              this.onStoppedCallback(`Lost the connection to the local transcription server (${code})`);
+            }
+          } else {
+            logger.debug('🛑 Intentional disconnect');
+          }
+        });
+
+      } catch (error) {
+        logger.error('❌ Failed to create WebSocket:', error);
+        reject(error);
+      }
+    });
+  }
+
+  /**
+   * Parse a local server message and emit it as a transcript
+   * Accepts `{ text, is_final, channel?, start?, end?, words? }` messages as well as
+   * WhisperLive-style `{ segments: [{ text, completed, start, end }] }` payloads
+   */
+  handleMessage(data) {
+    try {
+      const response = JSON.parse(data.toString());
+      const isMultichannel = this.channels > 1 && typeof response.channel === 'number';
+      const source = isMultichannel
+        ? getSpeakerForChannel(response.channel)
+        : { speaker: getSpeakerForAudioMode(this.audioMode), audioSource: this.audioMode };
+      const segments = Array.isArray(response.segments)
+        ? response.segments.map(segment => ({
+          text: segment.text,
+          isFinal: segment.completed !== false,
+          start: segment.start,
+          end: segment.end,
+          words: segment.words
+        }))
+        : [{
+          text: response.text,
+          isFinal: response.is_final ?? response.final ?? true,
+          start: response.start,
+          end: response.end,
+          words: response.words
+        }];
+
+      segments.forEach(({ text, isFinal, start, end, words }) => {
+        const transcript = (text || '').trim();
+        if (!transcript) return;
+
+        logger.debug(`📝 Local transcript: "${transcript}" (final: ${isFinal})`);
+
+        if (this.onTranscriptCallback) {
+          this.onTranscriptCallback({
+            text: transcript,
+            timestamp: new Date(),
+            isInterim: !isFinal,
+            speaker: source.speaker,
+            audioSource: source.audioSource,
+            channelIndex: isMultichannel ? response.channel : undefined,
+            startOffset: this.toSessionOffset(start),
+            endOffset: this.toSessionOffset(end),
+            words: Array.isArray(words) ? words.map(word => ({
+              word: word.word || word.text,
+              start: this.toSessionOffset(word.start),
+              end: this.toSessionOffset(word.end),
+              confidence: word.confidence ?? word.probability
+            })) : undefined
+          });
+        }
+      });
+    } catch (error) {
+      logger.error('❌ Error parsing local transcription response:', error);
+    }
+  }
+
+  /**
+   * Convert a server timing (seconds, possibly a string) to a session offset
+   */
+  toSessionOffset(seconds) {
+    const value = Number(seconds);
+    return seconds !== undefined && !Number.isNaN(value) ? this.timeline.toSessionOffset(value) : undefined;
+  }
+
+  /**
+   * Send audio held while disconnected, and flag whatever no longer fit as a gap
+   */
+  replayBufferedAudio() {
+    const lostRange = this.replayBuffer.getLostRange();
+    const frames = this.replayBuffer.drain();
+
+    frames.forEach(({ data, duration }) => {
+      if (data) {
+        this.ws.send(data);
+        this.timeline.addSent(duration);
+      } else {
+        this.timeline.addSkipped(duration);
+      }
+    });
+
+    if (frames.length > 0) {
+      logger.debug(`⏪ Replayed ${frames.length} buffered audio frames to local server`);
+    }
+
+    if (lostRange) {
+      logger.warn(`⚠️ Audio lost while disconnected: ${lostRange.startOffset.toFixed(1)}s - ${lostRange.endOffset.toFixed(1)}s`);
+      if (this.onTranscriptCallback) {
+        this.onTranscriptCallback(createGapMarker(lostRange, this.audioMode));
+      }
+    }
+  }
+
+  /**
+   * Give up on audio still waiting for a connection and mark it as a gap in the transcript
+   */
+  discardBufferedAudio() {
+    const pendingRange = this.replayBuffer.getPendingRange(this.audioSecondsReceived);
+    this.replayBuffer.clear();
+
+    if (pendingRange) {
+      logger.warn(`⚠️ Audio never sent: ${pendingRange.startOffset.toFixed(1)}s - ${pendingRange.endOffset.toFixed(1)}s`);
+      if (this.onTranscriptCallback) {
+        this.onTranscriptCallback(createGapMarker(pendingRange, this.audioMode));
+      }
+    }
+  }
+
+  sendAudio(audioData) {
+    const offset = this.audioSecondsReceived;
+    const duration = getAudioDurationSeconds(audioData, this.channels);
+    this.audioSecondsReceived += duration;
+
+    if (this.isOpen()) {
+      this.ws.send(audioData);
+      this.timeline.addSent(duration);
+    } else {
+      this.replayBuffer.push(audioData, offset);
+    }
+  }
+
+  /**
+   * Account for silence the voice activity gate chose not to stream
+   */
+  skipAudio(audioData) {
+    const offset = this.audioSecondsReceived;
+    const duration = getAudioDurationSeconds(audioData, this.channels);
+    this.audioSecondsReceived += duration;
+
+    if (this.isOpen()) {
+      this.timeline.addSkipped(duration);
+    } else {
+      this.replayBuffer.pushSilence(duration, offset);
+    }
+  }
+
+  isOpen() {
+    return !!this.ws && this.ws.readyState === WebSocket.OPEN && this.isConnected;
+  }
+
+  close() {
+    logger.debug('🛑 Disconnecting from local transcription server...');
+    this.reconnectAttempts = this.maxReconnectAttempts; // Prevent further reconnections
+    if (this.ws) {
+      this.ws.close(1000, 'Intentional disconnect');
+      this.ws = null;
+    }
+    this.isConnected = false;
+    this.discardBufferedAudio();
+    logger.debug('✅ Local transcription disconnected');
+  }
+}
+
+module.exports = LocalTranscriptionService;
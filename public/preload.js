@@ -79,7 +79,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
   updateSettings: (settings) => ipcRenderer.invoke('update-settings', settings),
   
   // API Testing
-  testDeepgram: (apiKey) => ipcRenderer.invoke('test-deepgram', apiKey),
+  testDeepgram: (apiKey, audioData) => ipcRenderer.invoke('test-deepgram', apiKey, audioData),
   testOpenAI: (apiKey) => ipcRenderer.invoke('test-openai', apiKey),
 
   // ================================
@@ -92,15 +92,31 @@ contextBridge.exposeInMainWorld('electronAPI', {
   saveTranscript: (transcript) => ipcRenderer.invoke('save-transcript', transcript),
   getSessionTranscripts: (sessionId) => ipcRenderer.invoke('get-session-transcripts', sessionId),
   updateTranscript: (transcriptId, text) => ipcRenderer.invoke('update-transcript', transcriptId, text),
+  updateTranscriptScores: (scores) => ipcRenderer.invoke('update-transcript-scores', scores),
+  renameSpeaker: (sessionId, speakerId, name) => ipcRenderer.invoke('rename-speaker', sessionId, speakerId, name),
   getAllSessions: () => ipcRenderer.invoke('get-all-sessions'),
   getSession: (sessionId) => ipcRenderer.invoke('get-session', sessionId),
+  saveCallReport: (report) => ipcRenderer.invoke('save-call-report', report),
+  getCallReport: (sessionId) => ipcRenderer.invoke('get-call-report', sessionId),
+  getRebuttals: () => ipcRenderer.invoke('get-rebuttals'),
+  saveRebuttal: (rebuttal) => ipcRenderer.invoke('save-rebuttal', rebuttal),
+  deleteRebuttal: (rebuttalId) => ipcRenderer.invoke('delete-rebuttal', rebuttalId),
+  listKnowledgeDocuments: () => ipcRenderer.invoke('list-knowledge-documents'),
+  saveKnowledgeDocument: (document, chunks) => ipcRenderer.invoke('save-knowledge-document', document, chunks),
+  deleteKnowledgeDocument: (documentId) => ipcRenderer.invoke('delete-knowledge-document', documentId),
+  searchKnowledge: (embedding, options) => ipcRenderer.invoke('search-knowledge', embedding, options),
   deleteSession: (sessionId) => ipcRenderer.invoke('delete-session', sessionId),
 
+  // Session audio recording
+  attachRecordingSession: (sessionId) => ipcRenderer.invoke('attach-recording-session', sessionId),
+  getSessionAudio: (sessionId) => ipcRenderer.invoke('get-session-audio', sessionId),
+  retranscribeSession: (sessionId, mode) => ipcRenderer.invoke('retranscribe-session', sessionId, mode),
+
   // Audio source management
   getAudioSources: () => ipcRenderer.invoke('get-audio-sources'),
   
   // Deepgram transcription (main process)
-  deepgramStart: (apiKey, audioMode) => ipcRenderer.invoke('deepgram-start', apiKey, audioMode),
+  deepgramStart: (apiKey, options) => ipcRenderer.invoke('deepgram-start', apiKey, options),
   deepgramStop: () => ipcRenderer.invoke('deepgram-stop'),
   deepgramSendAudio: (audioData) => ipcRenderer.invoke('deepgram-send-audio', audioData),
   
@@ -109,6 +125,14 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.on('transcript', (event, data) => callback(data));
   },
   
+  onTranscriptionStopped: (callback) => {
+    ipcRenderer.on('transcription-stopped', (event, data) => callback(data));
+  },
+
+  onAudioLevel: (callback) => {
+    ipcRenderer.on('audio-level', (event, data) => callback(data));
+  },
+  
   onRecordingStateChanged: (callback) => {
     ipcRenderer.on('recording-state-changed', (event, isRecording) => callback(isRecording));
   },
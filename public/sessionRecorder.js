@@ -0,0 +1,179 @@
+const { app } = require('electron');
+const logger = require('./logger');
+const path = require('path');
+const fs = require('fs');
+
+const SAMPLE_RATE = 16000;
+const BITS_PER_SAMPLE = 16;
+const WAV_HEADER_SIZE = 44;
+// RecordingSession ids as the renderer creates them; anything else could escape the recordings folder
+const SESSION_ID_PATTERN = /^session_\d+_[a-z0-9]+$/;
+
+/**
+ * Session Audio Recorder
+ * Writes the linear16 PCM stream sent to the transcription provider into a WAV
+ * file under userData/recordings, keyed by RecordingSession.id.
+ *
+ * Recording starts before the renderer has created the session, so audio goes to
+ * a pending file first and is renamed when the session is attached. Offsets in
+ * the WAV therefore line up with the transcript startOffset/endOffset values.
+ */
+class SessionRecorder {
+  constructor() {
+    this.fd = null;
+    this.filePath = null;
+    this.sessionId = null;
+    this.channels = 1;
+    this.bytesWritten = 0;
+  }
+
+  getRecordingsDir() {
+    const dir = path.join(app.getPath('userData'), 'recordings');
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    return dir;
+  }
+
+  getRecordingPath(sessionId) {
+    if (typeof sessionId !== 'string' || !SESSION_ID_PATTERN.test(sessionId)) {
+      throw new Error(`Invalid session id: ${sessionId}`);
+    }
+    return path.join(this.getRecordingsDir(), `${sessionId}.wav`);
+  }
+
+  isRecording() {
+    return this.fd !== null;
+  }
+
+  /**
+   * Start a new recording with a placeholder header
+   */
+  start(channels = 1) {
+    if (this.fd !== null) {
+      this.stop();
+    }
+
+    this.channels = channels;
+    this.bytesWritten = 0;
+    this.sessionId = null;
+    this.filePath = path.join(this.getRecordingsDir(), `pending_${Date.now()}.wav`);
+
+    try {
+      this.fd = fs.openSync(this.filePath, 'w');
+      fs.writeSync(this.fd, this.buildHeader(0));
+      logger.debug('⏺️ Session audio recording started:', this.filePath);
+    } catch (error) {
+      logger.error('❌ Failed to start session audio recording:', error);
+      this.fd = null;
+      this.filePath = null;
+    }
+  }
+
+  /**
+   * Name the recording after the session it belongs to
+   */
+  attachSession(sessionId) {
+    // Fail now rather than when the recording is renamed at stop
+    this.getRecordingPath(sessionId);
+    this.sessionId = sessionId;
+    logger.debug('🔗 Session audio recording attached to:', sessionId);
+  }
+
+  write(audioData) {
+    if (this.fd === null) return;
+
+    try {
+      const buffer = Buffer.from(audioData);
+      fs.writeSync(this.fd, buffer);
+      this.bytesWritten += buffer.length;
+    } catch (error) {
+      logger.error('❌ Failed to write session audio:', error);
+    }
+  }
+
+  /**
+   * Finalize the WAV header and move the file into place
+   * Returns the final path, or null when nothing was recorded
+   */
+  stop() {
+    if (this.fd === null) return null;
+
+    const pendingPath = this.filePath;
+    let finalPath = null;
+
+    try {
+      fs.writeSync(this.fd, this.buildHeader(this.bytesWritten), 0, WAV_HEADER_SIZE, 0);
+      fs.closeSync(this.fd);
+
+      if (this.bytesWritten === 0 || !this.sessionId) {
+        fs.unlinkSync(pendingPath);
+        logger.debug('🗑️ Discarded session audio recording (no audio or no session)');
+      } else {
+        finalPath = this.getRecordingPath(this.sessionId);
+        fs.renameSync(pendingPath, finalPath);
+        logger.debug(`✅ Session audio saved (${(this.bytesWritten / 1024 / 1024).toFixed(1)} MB):`, finalPath);
+      }
+    } catch (error) {
+      logger.error('❌ Failed to finalize session audio recording:', error);
+    }
+
+    this.fd = null;
+    this.filePath = null;
+    this.sessionId = null;
+    this.bytesWritten = 0;
+    return finalPath;
+  }
+
+  /**
+   * Read a session recording, or null if none exists
+   */
+  read(sessionId) {
+    const filePath = this.getRecordingPath(sessionId);
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath) : null;
+  }
+
+  /**
+   * Channel count stored in a WAV header
+   */
+  getChannelCount(wavBuffer) {
+    return wavBuffer.length >= WAV_HEADER_SIZE ? wavBuffer.readUInt16LE(22) : 1;
+  }
+
+  delete(sessionId) {
+    const filePath = this.getRecordingPath(sessionId);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+      logger.debug('🗑️ Deleted session audio:', filePath);
+    }
+  }
+
+  /**
+   * Wrap raw linear16 PCM (e.g. an audio check sample) in a WAV container
+   */
+  toWav(pcmBuffer, channels = 1) {
+    return Buffer.concat([this.buildHeader(pcmBuffer.length, channels), pcmBuffer]);
+  }
+
+  buildHeader(dataSize, channels = this.channels) {
+    const header = Buffer.alloc(WAV_HEADER_SIZE);
+    const byteRate = SAMPLE_RATE * channels * (BITS_PER_SAMPLE / 8);
+
+    header.write('RIFF', 0);
+    header.writeUInt32LE(36 + dataSize, 4);
+    header.write('WAVE', 8);
+    header.write('fmt ', 12);
+    header.writeUInt32LE(16, 16); // PCM chunk size
+    header.writeUInt16LE(1, 20); // PCM format
+    header.writeUInt16LE(channels, 22);
+    header.writeUInt32LE(SAMPLE_RATE, 24);
+    header.writeUInt32LE(byteRate, 28);
+    header.writeUInt16LE(channels * (BITS_PER_SAMPLE / 8), 32);
+    header.writeUInt16LE(BITS_PER_SAMPLE, 34);
+    header.write('data', 36);
+    header.writeUInt32LE(dataSize, 40);
+    return header;
+  }
+}
+
+module.exports = new SessionRecorder();
@@ -0,0 +1,48 @@
+/**
+ * Maps provider stream time to session time for one connection
+ * Providers only see the audio they are sent, so silence skipped by the
+ * voice activity gate is recorded here to keep transcript offsets aligned
+ * with the session recording.
+ */
+class StreamTimeline {
+  constructor() {
+    this.reset(0);
+  }
+
+  /**
+   * Start a new connection whose stream time 0 is `sessionOffset` seconds into the session
+   */
+  reset(sessionOffset) {
+    this.sessionOffset = sessionOffset;
+    this.streamSeconds = 0;
+    this.skips = [];
+  }
+
+  addSent(seconds) {
+    this.streamSeconds += seconds;
+  }
+
+  addSkipped(seconds) {
+    const lastSkip = this.skips[this.skips.length - 1];
+
+    if (lastSkip && lastSkip.streamTime === this.streamSeconds) {
+      lastSkip.seconds += seconds;
+    } else {
+      this.skips.push({ streamTime: this.streamSeconds, seconds });
+    }
+  }
+
+  /**
+   * Convert a provider timing (seconds into the stream) to a session offset
+   */
+  toSessionOffset(streamTime) {
+    let skipped = 0;
+    for (const skip of this.skips) {
+      if (skip.streamTime > streamTime) break;
+      skipped += skip.seconds;
+    }
+    return this.sessionOffset + streamTime + skipped;
+  }
+}
+
+module.exports = StreamTimeline;
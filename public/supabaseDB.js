@@ -75,6 +75,12 @@ async function updateSession(sessionId, updates) {
     if (updates.transcriptCount !== undefined) {
       updateData.transcript_count = updates.transcriptCount;
     }
+    if (updates.liveSummary !== undefined) {
+      updateData.live_summary = updates.liveSummary;
+    }
+    if (updates.scorecard !== undefined) {
+      updateData.scorecard = updates.scorecard;
+    }
 
     if (Object.keys(updateData).length === 0) {
       return { success: true };
@@ -110,8 +116,8 @@ async function saveConversation(conversation) {
         ai_response: conversation.aiResponse,
         context_used: conversation.contextUsed || null,
         selected_transcript: conversation.selectedTranscript || null,
-        transcript_start_time: conversation.transcriptStartTime || null,
-        transcript_end_time: conversation.transcriptEndTime || null,
+        transcript_start_time: conversation.transcriptStartTime ?? null, // 0s is a valid offset
+        transcript_end_time: conversation.transcriptEndTime ?? null,
         speaker_info: conversation.speakerInfo || null,
         model_used: conversation.modelUsed || 'llama-3.3-70b-versatile'
       }])
@@ -140,9 +146,18 @@ async function getSessionConversations(sessionId) {
 
     if (error) throw error;
 
-    // Format dates
+    // Format dates and expose the camelCase fields used by AIConversation
     const formattedConversations = data.map(conv => ({
       ...conv,
+      sessionId: conv.session_id,
+      userMessage: conv.user_message,
+      aiResponse: conv.ai_response,
+      contextUsed: conv.context_used,
+      selectedTranscript: conv.selected_transcript,
+      transcriptStartTime: conv.transcript_start_time ?? undefined,
+      transcriptEndTime: conv.transcript_end_time ?? undefined,
+      speakerInfo: conv.speaker_info,
+      modelUsed: conv.model_used,
       createdAt: new Date(conv.created_at)
     }));
 
@@ -171,7 +186,9 @@ async function getAllSessions() {
     const formattedSessions = data.map(session => ({
       ...session,
       startedAt: new Date(session.started_at),
-      endedAt: session.ended_at ? new Date(session.ended_at) : null
+      endedAt: session.ended_at ? new Date(session.ended_at) : null,
+      liveSummary: session.live_summary || undefined,
+      scorecard: session.scorecard || undefined
     }));
 
     logger.debug(`✅ Retrieved ${data.length} sessions from Supabase`);
@@ -203,7 +220,9 @@ async function getSession(sessionId) {
     const formattedSession = {
       ...data,
       startedAt: new Date(data.started_at),
-      endedAt: data.ended_at ? new Date(data.ended_at) : null
+      endedAt: data.ended_at ? new Date(data.ended_at) : null,
+      liveSummary: data.live_summary || undefined,
+      scorecard: data.scorecard || undefined
     };
 
     return { success: true, session: formattedSession };
@@ -226,7 +245,12 @@ async function saveTranscript(transcript) {
         text: transcript.text,
         timestamp: transcript.timestamp instanceof Date ? transcript.timestamp.toISOString() : transcript.timestamp,
         is_interim: transcript.isInterim || false,
-        speaker: transcript.speaker || null
+        speaker: transcript.speaker || null,
+        speaker_id: transcript.speakerId ?? null,
+        start_offset: transcript.startOffset ?? null,
+        end_offset: transcript.endOffset ?? null,
+        words: transcript.words || null,
+        is_gap: transcript.isGap || false
       }])
       .select();
 
@@ -253,21 +277,85 @@ async function getSessionTranscripts(sessionId) {
 
     if (error) throw error;
 
+    // Only the latest transcript version is current (older ones are kept after re-transcription)
+    const latestVersion = data.reduce((max, transcript) => Math.max(max, transcript.version || 1), 1);
+    const currentTranscripts = data.filter(transcript => (transcript.version || 1) === latestVersion);
+
     // Format dates
-    const formattedTranscripts = data.map(transcript => ({
+    const formattedTranscripts = currentTranscripts.map(transcript => ({
       ...transcript,
       timestamp: new Date(transcript.timestamp),
-      isInterim: transcript.is_interim
+      isInterim: transcript.is_interim,
+      speakerId: transcript.speaker_id ?? undefined,
+      startOffset: transcript.start_offset ?? undefined,
+      endOffset: transcript.end_offset ?? undefined,
+      isGap: transcript.is_gap || false,
+      sentiment: transcript.sentiment ?? undefined,
+      engagement: transcript.engagement ?? undefined
     }));
 
-    logger.debug(`✅ Retrieved ${data.length} transcripts for session:`, sessionId);
-    return { success: true, transcripts: formattedTranscripts };
+    logger.debug(`✅ Retrieved ${formattedTranscripts.length} transcripts (version ${latestVersion}) for session:`, sessionId);
+    return { success: true, transcripts: formattedTranscripts, version: latestVersion };
   } catch (error) {
     logger.error('❌ Failed to get transcripts:', error);
     return { success: false, error: error.message, transcripts: [] };
   }
 }
 
+/**
+ * Save a new transcript version for a session (e.g. after re-transcription)
+ * With replace = true the previous versions are deleted
+ */
+async function saveTranscriptVersion(sessionId, transcripts, replace = false) {
+  try {
+    const { data: latest, error: versionError } = await supabase
+      .from('transcripts')
+      .select('version')
+      .eq('session_id', sessionId)
+      .order('version', { ascending: false })
+      .limit(1);
+
+    if (versionError) throw versionError;
+
+    const version = ((latest && latest[0] && latest[0].version) || 0) + 1;
+
+    const rows = transcripts.map((transcript, index) => ({
+      id: `transcript_${Date.now()}_${index}_v${version}`,
+      session_id: sessionId,
+      text: transcript.text,
+      timestamp: transcript.timestamp instanceof Date ? transcript.timestamp.toISOString() : transcript.timestamp,
+      is_interim: false,
+      speaker: transcript.speaker || null,
+      speaker_id: transcript.speakerId ?? null,
+      start_offset: transcript.startOffset ?? null,
+      end_offset: transcript.endOffset ?? null,
+      words: transcript.words || null,
+      version
+    }));
+
+    if (rows.length > 0) {
+      const { error } = await supabase.from('transcripts').insert(rows);
+      if (error) throw error;
+    }
+
+    if (replace) {
+      const { error } = await supabase
+        .from('transcripts')
+        .delete()
+        .eq('session_id', sessionId)
+        .lt('version', version);
+
+      if (error) throw error;
+    }
+
+    logger.debug(`✅ Saved transcript version ${version} (${rows.length} rows) for session:`, sessionId);
+    return { success: true, version, count: rows.length };
+  } catch (error) {
+    logger.error('❌ Failed to save transcript version:', error);
+    return { success: false, error: error.message };
+  }
+}
+
 /**
  * Update transcript text
  */
@@ -289,6 +377,186 @@ async function updateTranscript(transcriptId, text) {
   }
 }
 
+/**
+ * Store sentiment and engagement scores for a batch of transcripts
+ */
+async function updateTranscriptScores(scores) {
+  try {
+    const results = await Promise.all(scores.map(score =>
+      supabase
+        .from('transcripts')
+        .update({ sentiment: score.sentiment, engagement: score.engagement })
+        .eq('id', score.id)
+    ));
+
+    const failed = results.find(result => result.error);
+    if (failed) throw failed.error;
+
+    logger.debug(`✅ Saved sentiment scores for ${scores.length} transcripts`);
+    return { success: true };
+  } catch (error) {
+    logger.error('❌ Failed to save sentiment scores:', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Rename a diarized speaker across every transcript in a session
+ */
+async function renameSpeaker(sessionId, speakerId, name) {
+  try {
+    const { data, error } = await supabase
+      .from('transcripts')
+      .update({ speaker: name })
+      .eq('session_id', sessionId)
+      .eq('speaker_id', speakerId)
+      .select();
+
+    if (error) throw error;
+
+    logger.debug(`✅ Renamed speaker ${speakerId} to "${name}" in session:`, sessionId);
+    return { success: true, data };
+  } catch (error) {
+    logger.error('❌ Failed to rename speaker:', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Save the post-call report for a session, replacing any earlier one
+ */
+async function saveCallReport(report) {
+  try {
+    const { error } = await supabase
+      .from('call_reports')
+      .upsert([{
+        session_id: report.sessionId,
+        title: report.title,
+        summary: report.summary,
+        decisions: report.decisions,
+        objections: report.objections,
+        next_steps: report.nextSteps,
+        risks: report.risks,
+        follow_up_date: report.followUpDate,
+        model_used: report.model,
+        created_at: report.createdAt instanceof Date ? report.createdAt.toISOString() : report.createdAt
+      }], { onConflict: 'session_id' });
+
+    if (error) throw error;
+
+    logger.debug('✅ Call report saved to Supabase:', report.sessionId);
+    return { success: true };
+  } catch (error) {
+    logger.error('❌ Failed to save call report:', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Get the post-call report for a session (null if none was generated)
+ */
+async function getCallReport(sessionId) {
+  try {
+    const { data, error } = await supabase
+      .from('call_reports')
+      .select('*')
+      .eq('session_id', sessionId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const report = data ? {
+      sessionId: data.session_id,
+      title: data.title,
+      summary: data.summary,
+      decisions: data.decisions || [],
+      objections: data.objections || [],
+      nextSteps: data.next_steps || [],
+      risks: data.risks || [],
+      followUpDate: data.follow_up_date,
+      model: data.model_used,
+      createdAt: new Date(data.created_at)
+    } : null;
+
+    return { success: true, report };
+  } catch (error) {
+    logger.error('❌ Failed to get call report:', error);
+    return { success: false, error: error.message, report: null };
+  }
+}
+
+/**
+ * Get the team's rebuttal library
+ */
+async function getRebuttals() {
+  try {
+    const { data, error } = await supabase
+      .from('rebuttals')
+      .select('*')
+      .order('category', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    const rebuttals = (data || []).map(row => ({
+      id: row.id,
+      category: row.category,
+      title: row.title,
+      response: row.response
+    }));
+
+    return { success: true, rebuttals };
+  } catch (error) {
+    logger.error('❌ Failed to get rebuttals:', error);
+    return { success: false, error: error.message, rebuttals: [] };
+  }
+}
+
+/**
+ * Add or update a rebuttal in the team library
+ */
+async function saveRebuttal(rebuttal) {
+  try {
+    const { error } = await supabase
+      .from('rebuttals')
+      .upsert([{
+        id: rebuttal.id,
+        category: rebuttal.category,
+        title: rebuttal.title,
+        response: rebuttal.response,
+        updated_at: new Date().toISOString()
+      }], { onConflict: 'id' });
+
+    if (error) throw error;
+
+    logger.debug('✅ Rebuttal saved to Supabase:', rebuttal.id);
+    return { success: true };
+  } catch (error) {
+    logger.error('❌ Failed to save rebuttal:', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Remove a rebuttal from the team library
+ */
+async function deleteRebuttal(rebuttalId) {
+  try {
+    const { error } = await supabase
+      .from('rebuttals')
+      .delete()
+      .eq('id', rebuttalId);
+
+    if (error) throw error;
+
+    logger.debug('✅ Rebuttal deleted from Supabase:', rebuttalId);
+    return { success: true };
+  } catch (error) {
+    logger.error('❌ Failed to delete rebuttal:', error);
+    return { success: false, error: error.message };
+  }
+}
+
 /**
  * Delete a session and all its conversations
  */
@@ -302,6 +570,13 @@ async function deleteSession(sessionId) {
 
     if (transcriptError) throw transcriptError;
 
+    const { error: reportError } = await supabase
+      .from('call_reports')
+      .delete()
+      .eq('session_id', sessionId);
+
+    if (reportError) throw reportError;
+
     // Delete conversations (foreign key constraint)
     const { error: convError } = await supabase
       .from('ai_conversations')
@@ -342,8 +617,16 @@ module.exports = {
   saveTranscript,
   getSessionTranscripts,
   updateTranscript,
+  updateTranscriptScores,
+  saveTranscriptVersion,
+  renameSpeaker,
   getAllSessions,
   getSession,
+  saveCallReport,
+  getCallReport,
+  getRebuttals,
+  saveRebuttal,
+  deleteRebuttal,
   deleteSession,
   closeDB
 };
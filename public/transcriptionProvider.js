@@ -0,0 +1,103 @@
+const logger = require('./logger');
+
+/**
+ * Transcription provider registry for the Electron main process
+ *
+ * Every provider implements the same interface so the IPC handlers in
+ * electron.js never need to know which vendor is doing the work:
+ *   connect()          -> Promise<boolean>, resolves once audio can be sent
+ *   sendAudio(buffer)  -> forwards raw linear16 PCM (16kHz)
+ *   skipAudio(buffer)  -> advances the timeline for silence that was not streamed,
+ *                         keeping the connection alive if the vendor needs it
+ *   onTranscript(cb)   -> cb({ text, timestamp, isInterim, speaker, speakerId?, audioSource, channelIndex?,
+ *                             startOffset?, endOffset?, words? })
+ *                         speakerId is the diarized speaker index when the vendor supports it;
+ *                         offsets are seconds from the first audio frame of the recording.
+ *                         Gap markers ({ isGap: true }) flag audio lost while disconnected
+ *   onStopped(cb)      -> cb(reason) once reconnecting has failed for good and no more transcripts will come
+ *   close()            -> intentional disconnect, no reconnection attempts
+ *   transcribeFile(buffer, { channels, mimeType })  (optional)
+ *                      -> Promise<utterances>, batch transcription of a whole recording
+ *
+ * Options: { apiKey, url, audioMode, channels, language, model, keywords, replayBufferSeconds }.
+ * Audio sent while a provider is reconnecting is held in an AudioReplayBuffer
+ * (up to replayBufferSeconds) and replayed once the connection is back; whatever is still
+ * buffered when the provider stops or closes is reported as a gap marker.
+ * With channels = 2 the audio is interleaved stereo (channel 0 = microphone/rep,
+ * channel 1 = system/prospect). language 'auto' asks the provider to detect it.
+ */
+
+// Providers are required lazily so an unused vendor never loads
+const PROVIDERS = {
+  deepgram: () => require('./deepgramService'),
+  local: () => require('./localTranscriptionService')
+};
+
+const DEFAULT_PROVIDER = 'deepgram';
+
+/**
+ * Create a transcription provider by name
+ */
+function createTranscriptionProvider(name = DEFAULT_PROVIDER, options = {}) {
+  const loadProvider = PROVIDERS[name];
+
+  if (!loadProvider) {
+    throw new Error(`Unknown transcription provider: ${name}`);
+  }
+
+  const Provider = loadProvider();
+  logger.debug(`🧩 Creating transcription provider: ${name}`);
+  return new Provider(options);
+}
+
+/**
+ * Map the capture mode to the speaker label attached to transcripts
+ */
+function getSpeakerForAudioMode(audioMode) {
+  if (audioMode === 'system') return 'call';
+  if (audioMode === 'both') return 'mixed';
+  return 'user';
+}
+
+/**
+ * Seconds of audio contained in a linear16 buffer (16kHz)
+ */
+function getAudioDurationSeconds(audioData, channels = 1) {
+  return (audioData.byteLength || 0) / (2 * channels * 16000);
+}
+
+/**
+ * Map a multichannel index to the speaker/source it was captured from
+ */
+function getSpeakerForChannel(channelIndex) {
+  return channelIndex === 1
+    ? { speaker: 'call', audioSource: 'system' }
+    : { speaker: 'user', audioSource: 'microphone' };
+}
+
+/**
+ * Build the transcript marker emitted for audio that could not be replayed
+ */
+function createGapMarker({ startOffset, endOffset }, audioSource) {
+  const seconds = Math.max(1, Math.round(endOffset - startOffset));
+
+  return {
+    text: `[Audio gap: ${seconds}s lost while disconnected]`,
+    timestamp: new Date(),
+    isInterim: false,
+    isGap: true,
+    audioSource,
+    startOffset,
+    endOffset
+  };
+}
+
+module.exports = {
+  createTranscriptionProvider,
+  createGapMarker,
+  getSpeakerForAudioMode,
+  getSpeakerForChannel,
+  getAudioDurationSeconds,
+  DEFAULT_PROVIDER,
+  TRANSCRIPTION_PROVIDERS: Object.keys(PROVIDERS)
+};
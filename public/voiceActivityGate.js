@@ -0,0 +1,73 @@
+const { getAudioDurationSeconds } = require('./transcriptionProvider');
+
+/**
+ * Energy-based voice activity gate for linear16 PCM
+ * Frames below the threshold are held briefly as pre-roll (so the start of a
+ * word is not clipped) and then released as silence that need not be streamed.
+ * After speech the gate stays open for `hangoverMs` to keep trailing syllables.
+ * Timing follows the audio itself, so imports streamed faster than real time behave the same.
+ */
+class VoiceActivityGate {
+  constructor({ threshold = 0.01, hangoverMs = 1500, preRollMs = 300, channels = 1 } = {}) {
+    this.threshold = threshold;
+    this.hangoverSeconds = hangoverMs / 1000;
+    this.preRollSeconds = preRollMs / 1000;
+    this.channels = channels;
+    this.audioSeconds = 0;
+    this.lastSpeechAt = null;
+    this.preRoll = [];
+  }
+
+  /**
+   * Classify a frame
+   * Returns the current level (0-1 RMS), whether the gate is open, and the frames
+   * leaving the gate in order, each flagged `send` (stream it) or not (silence)
+   */
+  process(audioData) {
+    const buffer = Buffer.from(audioData);
+    const duration = getAudioDurationSeconds(buffer, this.channels);
+    const level = this.getLevel(buffer);
+
+    this.audioSeconds += duration;
+    if (level >= this.threshold) {
+      this.lastSpeechAt = this.audioSeconds;
+    }
+
+    const isSpeech = this.lastSpeechAt !== null && this.audioSeconds - this.lastSpeechAt <= this.hangoverSeconds;
+    const frames = [];
+
+    if (isSpeech) {
+      this.preRoll.forEach(frame => frames.push({ data: frame.data, send: true }));
+      this.preRoll = [];
+      frames.push({ data: buffer, send: true });
+    } else {
+      this.preRoll.push({ data: buffer, duration });
+
+      let heldSeconds = this.preRoll.reduce((total, frame) => total + frame.duration, 0);
+      while (heldSeconds > this.preRollSeconds && this.preRoll.length > 0) {
+        const released = this.preRoll.shift();
+        heldSeconds -= released.duration;
+        frames.push({ data: released.data, send: false });
+      }
+    }
+
+    return { level, isSpeech, frames };
+  }
+
+  /**
+   * Root-mean-square level of a linear16 buffer, normalized to 0-1
+   */
+  getLevel(buffer) {
+    const sampleCount = Math.floor(buffer.length / 2);
+    if (sampleCount === 0) return 0;
+
+    let sumSquares = 0;
+    for (let i = 0; i < sampleCount; i++) {
+      const sample = buffer.readInt16LE(i * 2) / 32768;
+      sumSquares += sample * sample;
+    }
+    return Math.sqrt(sumSquares / sampleCount);
+  }
+}
+
+module.exports = VoiceActivityGate;
@@ -7,9 +7,7 @@ const path = require('path');
 const publicFiles = [
   'electron.js',
   'deepgramService.js',
-  'audioManager.js',
-  'dualAudioCapture.js',
-  'windowsAudioCapture.js'
+  'dualAudioCapture.js'
 ];
 
 let totalReplacements = 0;
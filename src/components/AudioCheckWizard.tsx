@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { useAppStore } from '../stores/appStore';
+import { audioCheckService, AudioSample } from '../services/audioCheckService';
+import { getAudioProcessing } from '../services/captureManager';
+import logger from '../utils/logger';
+
+type StepId = 'permissions' | 'speakers' | 'microphone' | 'systemAudio' | 'transcription';
+type StepStatus = 'pending' | 'running' | 'passed' | 'failed' | 'skipped';
+
+interface StepResult {
+  status: StepStatus;
+  detail?: string;
+}
+
+const STEPS: Array<{ id: StepId; label: string }> = [
+  { id: 'permissions', label: 'Microphone permission' },
+  { id: 'speakers', label: 'Speakers' },
+  { id: 'microphone', label: 'Microphone' },
+  { id: 'systemAudio', label: 'System audio' },
+  { id: 'transcription', label: 'Transcription' }
+];
+
+const STATUS_ICONS: Record<StepStatus, string> = {
+  pending: '⚪',
+  running: '⏳',
+  passed: '✅',
+  failed: '❌',
+  skipped: '➖'
+};
+
+const TONE_MS = 1500;
+const MIC_RECORD_MS = 4000;
+const SYSTEM_RECORD_MS = 3000;
+// Same RMS threshold the voice activity gate treats as speech
+const MIN_SPEECH_LEVEL = 0.01;
+const MIN_SYSTEM_LEVEL = 0.005;
+
+const initialResults = (): Record<StepId, StepResult> => ({
+  permissions: { status: 'pending' },
+  speakers: { status: 'pending' },
+  microphone: { status: 'pending' },
+  systemAudio: { status: 'pending' },
+  transcription: { status: 'pending' }
+});
+
+interface AudioCheckWizardProps {
+  onClose: () => void;
+}
+
+/**
+ * Pre-call audio check
+ * Walks through permissions, speakers, microphone, system audio and a short
+ * transcription round-trip using the saved device preferences.
+ */
+const AudioCheckWizard: React.FC<AudioCheckWizardProps> = ({ onClose }) => {
+  const settings = useAppStore((state) => state.settings);
+  const [results, setResults] = useState(initialResults);
+  const [isRunning, setIsRunning] = useState(false);
+  const [level, setLevel] = useState(0);
+  const [prompt, setPrompt] = useState<string | null>(null);
+  const [toneAnswer, setToneAnswer] = useState<((heard: boolean) => void) | null>(null);
+
+  const setStep = (id: StepId, result: StepResult) => {
+    setResults((previous) => ({ ...previous, [id]: result }));
+  };
+
+  const askHeardTone = () => new Promise<boolean>((resolve) => {
+    setToneAnswer(() => (heard: boolean) => {
+      setToneAnswer(null);
+      resolve(heard);
+    });
+  });
+
+  const runCheck = async () => {
+    setIsRunning(true);
+    setResults(initialResults());
+    let micSample: AudioSample | null = null;
+
+    try {
+      // 1. Permissions
+      setStep('permissions', { status: 'running' });
+      const permissions = await audioCheckService.ensurePermissions();
+      if (!permissions.microphone) {
+        setStep('permissions', { status: 'failed', detail: 'Microphone access was denied - allow it in your system privacy settings' });
+        return;
+      }
+      setStep('permissions', { status: 'passed' });
+
+      // 2. Speakers
+      setStep('speakers', { status: 'running', detail: 'Playing a test tone...' });
+      await audioCheckService.playTestTone(TONE_MS);
+      const heard = await askHeardTone();
+      setStep('speakers', heard
+        ? { status: 'passed' }
+        : { status: 'failed', detail: 'Check the output device and volume' });
+
+      // 3. Microphone
+      setStep('microphone', { status: 'running' });
+      setPrompt('Say "testing one two three" now');
+      try {
+        micSample = await audioCheckService.recordMicrophone(
+          MIC_RECORD_MS,
+          settings.audioInputDeviceId,
+          getAudioProcessing(settings),
+          setLevel
+        );
+        setStep('microphone', micSample.peakLevel >= MIN_SPEECH_LEVEL
+          ? { status: 'passed', detail: `Peak level ${micSample.peakLevel.toFixed(3)}` }
+          : { status: 'failed', detail: 'Almost no signal - the mic may be muted or the wrong device is selected' });
+      } catch (error) {
+        setStep('microphone', { status: 'failed', detail: error instanceof Error ? error.message : String(error) });
+      } finally {
+        setPrompt(null);
+        setLevel(0);
+      }
+
+      // 4. System audio (captures the test tone played back through the speakers)
+      if (settings.multichannelTranscription) {
+        setStep('systemAudio', { status: 'running' });
+        setPrompt('Share system audio when prompted - a test tone will play');
+        try {
+          const recording = audioCheckService.recordSystemAudio(SYSTEM_RECORD_MS, settings.systemAudioSourceId, setLevel);
+          await audioCheckService.playTestTone(SYSTEM_RECORD_MS);
+          const systemSample = await recording;
+          setStep('systemAudio', systemSample.peakLevel >= MIN_SYSTEM_LEVEL
+            ? { status: 'passed', detail: `Peak level ${systemSample.peakLevel.toFixed(3)}` }
+            : { status: 'failed', detail: 'No system audio heard - pick a source that includes call audio' });
+        } catch (error) {
+          setStep('systemAudio', { status: 'failed', detail: error instanceof Error ? error.message : String(error) });
+        } finally {
+          setPrompt(null);
+          setLevel(0);
+        }
+      } else {
+        setStep('systemAudio', { status: 'skipped', detail: 'Only used with two-channel transcription' });
+      }
+
+      // 5. Transcription round-trip on the microphone sample
+      if (settings.transcriptionProvider !== 'deepgram') {
+        setStep('transcription', { status: 'skipped', detail: 'Round-trip check is available for Deepgram only' });
+      } else if (!settings.deepgramKey) {
+        setStep('transcription', { status: 'failed', detail: 'Add a Deepgram API key in Settings' });
+      } else if (!micSample) {
+        setStep('transcription', { status: 'skipped', detail: 'Needs a microphone recording' });
+      } else {
+        setStep('transcription', { status: 'running' });
+        const result = await audioCheckService.transcribeSample(settings.deepgramKey, micSample);
+        setStep('transcription', {
+          status: result.success ? 'passed' : 'failed',
+          detail: result.transcript ? `Heard: "${result.transcript}"` : result.message
+        });
+      }
+    } catch (error) {
+      logger.error('❌ Audio check failed:', error);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div
+      onClick={isRunning ? undefined : onClose}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0, 0, 0, 0.6)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 2000
+      }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          width: '420px',
+          background: '#2a2a2a',
+          border: '1px solid #444',
+          borderRadius: '10px',
+          padding: '20px',
+          color: '#e0e0e0'
+        }}
+      >
+        <h3 style={{ margin: '0 0 16px', fontSize: '16px', color: '#fff' }}>🎧 Audio check</h3>
+
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '10px', marginBottom: '16px' }}>
+          {STEPS.map((step) => (
+            <div key={step.id} style={{ fontSize: '13px' }}>
+              <span style={{ marginRight: '8px' }}>{STATUS_ICONS[results[step.id].status]}</span>
+              {step.label}
+              {results[step.id].detail && (
+                <span style={{ display: 'block', marginLeft: '26px', fontSize: '11px', color: '#888' }}>
+                  {results[step.id].detail}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {prompt && (
+          <div style={{ marginBottom: '16px' }}>
+            <p style={{ fontSize: '12px', color: '#ffc107', margin: '0 0 8px' }}>{prompt}</p>
+            <div style={{ height: '6px', background: '#333', borderRadius: '3px', overflow: 'hidden' }}>
+              <div style={{
+                width: `${Math.min(100, Math.sqrt(level / 0.15) * 100)}%`,
+                height: '100%',
+                background: level >= MIN_SPEECH_LEVEL ? '#43b581' : '#72767d',
+                transition: 'width 0.1s'
+              }} />
+            </div>
+          </div>
+        )}
+
+        {toneAnswer && (
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '16px', fontSize: '12px' }}>
+            <span style={{ flex: 1 }}>Did you hear a tone?</span>
+            <button className="btn" onClick={() => toneAnswer(true)}>Yes</button>
+            <button className="btn" onClick={() => toneAnswer(false)}>No</button>
+          </div>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px' }}>
+          <button className="btn" onClick={onClose} disabled={isRunning}>Close</button>
+          <button className="btn" onClick={runCheck} disabled={isRunning}>
+            {isRunning ? 'Checking...' : 'Start check'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AudioCheckWizard;
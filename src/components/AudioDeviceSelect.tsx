@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from 'react';
+import { audioCaptureService } from '../services/audioCapture';
+import { nativeAudioCaptureService } from '../services/nativeAudioCapture';
+import { AudioSourceInfo } from '../types';
+
+interface AudioDeviceSelectProps {
+  type: AudioSourceInfo['type'];
+  value: string;
+  onChange: (id: string) => void;
+  style?: React.CSSProperties;
+}
+
+/**
+ * Microphone or system audio source picker
+ * The list refreshes when devices are plugged in or removed; a saved device
+ * that is currently missing stays selectable so the preference isn't lost.
+ */
+const AudioDeviceSelect: React.FC<AudioDeviceSelectProps> = ({ type, value, onChange, style }) => {
+  const [sources, setSources] = useState<AudioSourceInfo[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSources = async () => {
+      // Microphones come straight from the browser; desktop sources need the main process
+      const found: AudioSourceInfo[] = type === 'microphone'
+        ? (await audioCaptureService.getAudioDevices()).map(device => ({
+          id: device.deviceId,
+          name: device.label || `Microphone ${device.deviceId.slice(0, 8)}`,
+          type: 'microphone' as const
+        }))
+        : (await nativeAudioCaptureService.getAudioSources()).filter(source => source.type === 'system');
+
+      if (!cancelled) {
+        // 'default' is represented by the empty value below
+        setSources(found.filter(source => source.id !== 'default'));
+      }
+    };
+
+    loadSources();
+    navigator.mediaDevices.addEventListener('devicechange', loadSources);
+
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices.removeEventListener('devicechange', loadSources);
+    };
+  }, [type]);
+
+  const isMissing = value !== '' && !sources.some(source => source.id === value);
+
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value)} style={style}>
+      <option value="">
+        {type === 'microphone' ? 'System default microphone' : 'Choose when recording starts'}
+      </option>
+      {sources.map((source) => (
+        <option key={source.id} value={source.id}>{source.name}</option>
+      ))}
+      {isMissing && (
+        <option value={value}>Saved device (not connected)</option>
+      )}
+    </select>
+  );
+};
+
+export default AudioDeviceSelect;
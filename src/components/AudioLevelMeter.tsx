@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+
+const BAR_COUNT = 5;
+// RMS level that fills the meter; normal speech peaks around 0.05-0.2
+const FULL_SCALE_LEVEL = 0.15;
+
+/**
+ * Live input level from the main process voice activity gate
+ * Bars are green while audio is streamed and grey while silence is skipped
+ */
+const AudioLevelMeter: React.FC = () => {
+  const [level, setLevel] = useState(0);
+  const [isSpeech, setIsSpeech] = useState(false);
+
+  useEffect(() => {
+    if (!window.electronAPI?.onAudioLevel) return;
+
+    window.electronAPI.onAudioLevel((data) => {
+      setLevel(data.level);
+      setIsSpeech(data.isSpeech);
+    });
+
+    return () => {
+      window.electronAPI?.removeAllListeners('audio-level');
+    };
+  }, []);
+
+  // Square root scaling so quiet speech still moves the meter
+  const activeBars = Math.round(Math.min(1, Math.sqrt(level / FULL_SCALE_LEVEL)) * BAR_COUNT);
+
+  return (
+    <span
+      title={isSpeech ? 'Voice detected – streaming audio' : 'Silence – audio not streamed'}
+      style={{
+        display: 'inline-flex',
+        alignItems: 'flex-end',
+        gap: '2px',
+        height: '14px',
+        marginRight: '12px'
+      }}
+    >
+      {Array.from({ length: BAR_COUNT }, (_, index) => (
+        <span
+          key={index}
+          style={{
+            width: '3px',
+            height: `${((index + 1) / BAR_COUNT) * 100}%`,
+            borderRadius: '1px',
+            background: index < activeBars
+              ? (isSpeech ? '#43b581' : '#72767d')
+              : 'rgba(255, 255, 255, 0.1)',
+            transition: 'background 0.1s'
+          }}
+        />
+      ))}
+    </span>
+  );
+};
+
+export default AudioLevelMeter;
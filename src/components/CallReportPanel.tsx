@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { CallReport, Transcript } from '../types';
+import { callReportService } from '../services/callReportService';
+import logger from '../utils/logger';
+
+interface CallReportPanelProps {
+  sessionId: string;
+  startedAt: Date;
+  transcripts: Transcript[];
+}
+
+const formatReportDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * Post-call report for a session: summary, decisions, objections, next steps,
+ * risks and follow-up date. Sessions recorded before reports existed can
+ * generate one from their saved transcript.
+ */
+const CallReportPanel: React.FC<CallReportPanelProps> = ({ sessionId, startedAt, transcripts }) => {
+  const [report, setReport] = useState<CallReport | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [status, setStatus] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadReport = async () => {
+      if (!window.electronAPI || !(window.electronAPI as any).getCallReport) return;
+
+      const result = await (window.electronAPI as any).getCallReport(sessionId);
+      if (cancelled) return;
+      if (result.success) {
+        setReport(result.report);
+      } else {
+        logger.warn('⚠️ Failed to load call report:', result.error);
+      }
+      setLoaded(true);
+    };
+
+    loadReport();
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    setStatus('');
+    try {
+      const generated = await callReportService.generateReport(sessionId, transcripts, startedAt);
+      const result = await (window.electronAPI as any).saveCallReport(generated);
+      if (!result.success) {
+        logger.warn('⚠️ Call report generated but not saved:', result.error);
+      }
+      setReport(generated);
+    } catch (error) {
+      logger.error('❌ Failed to generate call report:', error);
+      setStatus(`❌ ${error instanceof Error ? error.message : 'Failed to generate report'}`);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  if (!loaded) {
+    return null;
+  }
+
+  const canGenerate = transcripts.length > 0 && callReportService.isReady();
+
+  return (
+    <div className="call-report">
+      <div className="recording-player-header">
+        <span className="context-icon">📑</span>
+        <span>Call Report</span>
+        {report && <span className="call-report-model">{report.model}</span>}
+        {canGenerate && (
+          <div className="retranscribe-controls">
+            <button className="retranscribe-button" onClick={handleGenerate} disabled={generating}>
+              {generating ? '🔄 Generating...' : report ? '🔁 Regenerate' : '✨ Generate report'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {status && <span className="retranscribe-status">{status}</span>}
+
+      {!report && !status && (
+        <p className="call-report-empty">
+          {canGenerate ? 'No report for this call yet' : 'No report for this call'}
+        </p>
+      )}
+
+      {report && (
+        <>
+          <p className="call-report-summary">{report.summary}</p>
+
+          {report.followUpDate && (
+            <div className="call-report-follow-up">📅 Follow up {formatReportDate(report.followUpDate)}</div>
+          )}
+
+          {report.nextSteps.length > 0 && (
+            <div className="call-report-section">
+              <h4>Next steps</h4>
+              <ul>
+                {report.nextSteps.map((step, index) => (
+                  <li key={index}>
+                    {step.action}
+                    <span className="call-report-meta">
+                      {step.owner}{step.dueDate ? ` · by ${formatReportDate(step.dueDate)}` : ''}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.decisions.length > 0 && (
+            <div className="call-report-section">
+              <h4>Decisions</h4>
+              <ul>
+                {report.decisions.map((decision, index) => <li key={index}>{decision}</li>)}
+              </ul>
+            </div>
+          )}
+
+          {report.objections.length > 0 && (
+            <div className="call-report-section">
+              <h4>Objections</h4>
+              <ul>
+                {report.objections.map((objection, index) => (
+                  <li key={index}>
+                    {objection.resolved ? '✅' : '⚠️'} {objection.objection}
+                    {objection.response && <span className="call-report-meta">{objection.response}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.risks.length > 0 && (
+            <div className="call-report-section">
+              <h4>Risks</h4>
+              <ul>
+                {report.risks.map((risk, index) => <li key={index}>{risk}</li>)}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CallReportPanel;
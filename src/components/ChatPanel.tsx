@@ -2,9 +2,19 @@ import logger from '../utils/logger';
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { useAppStore } from '../stores/appStore';
 import { aiService } from '../services/aiService';
+import { LLM_PROVIDERS } from '../services/llmRouter';
+import ObjectionCard from './ObjectionCard';
+import { LLMProviderId, LLMStatusState } from '../types';
 import ChatInput from './ChatInput';
 import MessageContent from './MessageContent';
 
+const LLM_STATUS_STYLES: Record<LLMStatusState, { icon: string; color: string }> = {
+  ok: { icon: '●', color: '#43b581' },
+  retrying: { icon: '⏳', color: '#ffc107' },
+  fallback: { icon: '↪', color: '#ffc107' },
+  failed: { icon: '●', color: '#dc3545' }
+};
+
 const ChatPanel: React.FC = () => {
   // Refs for scroll 
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -19,11 +29,13 @@ const ChatPanel: React.FC = () => {
   const selectedContext = useAppStore((state) => state.selectedContext);
   const setSelectedContext = useAppStore((state) => state.setSelectedContext);
   const clearSelectedContext = useAppStore((state) => state.clearSelectedContext);
+  const chatStatus = useAppStore((state) => state.llmStatus.chat);
+  const objectionAlerts = useAppStore((state) => state.objectionAlerts);
+  const dismissObjection = useAppStore((state) => state.dismissObjection);
   
   const [isLoading, setIsLoading] = useState(false);
   const [aiStatus, setAiStatus] = useState('');
   const [userHasScrolled, setUserHasScrolled] = useState(false);
-  const [selectedModel, setSelectedModel] = useState('llama-3.3-70b-versatile'); // Default to free Groq model
   const [wordLimit, setWordLimit] = useState(100); // Default 100 words
   
   // Estimate tokens based on context (rough: 1 token ≈ 4 characters)
@@ -60,17 +72,25 @@ const ChatPanel: React.FC = () => {
   const handleSendMessage = useCallback(async (message: string) => {
     setIsLoading(true);
     try {
-      // Update AI service with selected model
-      const apiKey = settings.openaiKey || '';
-      logger.debug(`🔑 Using API key for chat: ${apiKey.substring(0, 10)}... (length: ${apiKey.length})`);
-      aiService.initialize(apiKey, selectedModel);
       await sendChatMessage(message);
     } catch (error) {
       logger.error('Chat error:', error);
     } finally {
       setIsLoading(false);
     }
-  }, [sendChatMessage, settings.openaiKey, selectedModel]);
+  }, [sendChatMessage]);
+
+  // The chat model is the router's chat task selection, stored as provider:model
+  const chatModel = settings.llmModels.chat;
+  const handleModelChange = useCallback((value: string) => {
+    const separator = value.indexOf(':');
+    updateSettings({
+      llmModels: {
+        ...settings.llmModels,
+        chat: { provider: value.slice(0, separator) as LLMProviderId, model: value.slice(separator + 1) }
+      }
+    });
+  }, [settings.llmModels, updateSettings]);
   
   // Memoized send transcript message handler
   const handleSendTranscriptMessage = useCallback(async (text: string) => {
@@ -288,7 +308,16 @@ const ChatPanel: React.FC = () => {
 
   return (
     <div className="panel" style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
-      
+
+      {/* Objection cards stay pinned above the conversation */}
+      {objectionAlerts.length > 0 && (
+        <div style={{ padding: '12px 12px 0', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          {objectionAlerts.map((alert) => (
+            <ObjectionCard key={alert.id} alert={alert} onDismiss={dismissObjection} />
+          ))}
+        </div>
+      )}
+
       {/* Chat messages */}
       <div 
         ref={scrollContainerRef}
@@ -461,8 +490,8 @@ const ChatPanel: React.FC = () => {
           }}>
             <span>Model:</span>
             <select
-              value={selectedModel}
-              onChange={(e) => setSelectedModel(e.target.value)}
+              value={`${chatModel.provider}:${chatModel.model}`}
+              onChange={(e) => handleModelChange(e.target.value)}
               style={{
                 padding: '4px 8px',
                 background: '#2a2a2a',
@@ -476,17 +505,28 @@ const ChatPanel: React.FC = () => {
               onFocus={(e) => e.target.style.borderColor = '#555'}
               onBlur={(e) => e.target.style.borderColor = '#444'}
             >
-              <optgroup label="OpenAI">
-                <option value="gpt-5-nano">GPT-5 Nano</option>
-                <option value="gpt-5">GPT-5 Flagship</option>
-              </optgroup>
-              <optgroup label="Groq (Free)">
-                <option value="llama-3.3-70b-versatile">Llama 3.3 70B (Best)</option>
-                <option value="llama-3.2-90b-vision-preview">Llama 3.2 90B Vision</option>
-                <option value="mixtral-8x7b-32768">Mixtral 8x7B (Fast)</option>
-                <option value="gemma2-9b-it">Gemma2 9B (Fastest)</option>
-              </optgroup>
+              {LLM_PROVIDERS.map((provider) => {
+                // Keep a custom model typed in Settings selectable
+                const models = provider.id === chatModel.provider && !provider.models.includes(chatModel.model)
+                  ? [...provider.models, chatModel.model]
+                  : provider.models;
+                return (
+                  <optgroup key={provider.id} label={provider.label}>
+                    {models.map((model) => (
+                      <option key={model} value={`${provider.id}:${model}`}>{model}</option>
+                    ))}
+                  </optgroup>
+                );
+              })}
             </select>
+            {chatStatus && (
+              <span
+                title={chatStatus.message || `Answered by ${chatStatus.provider}/${chatStatus.model}`}
+                style={{ color: LLM_STATUS_STYLES[chatStatus.state].color, whiteSpace: 'nowrap' }}
+              >
+                {LLM_STATUS_STYLES[chatStatus.state].icon} {chatStatus.state === 'failed' ? 'unavailable' : chatStatus.provider}
+              </span>
+            )}
           </div>
         </div>
 
@@ -0,0 +1,53 @@
+import React from 'react';
+import { useAppStore } from '../stores/appStore';
+import { formatMetricSeconds } from '../services/conversationMetrics';
+
+// Reps talking more than this share of the call are usually pitching, not discovering
+const REP_TALK_SHARE_WARNING = 0.65;
+
+const chipStyle: React.CSSProperties = {
+  fontSize: '11px',
+  color: '#e0e0e0',
+  background: 'rgba(255, 255, 255, 0.06)',
+  padding: '3px 6px',
+  borderRadius: '4px',
+  whiteSpace: 'nowrap'
+};
+
+/**
+ * Live talk ratio, monologue, pace, questions, interruptions and filler rate for the Header
+ */
+const ConversationMetricsBar: React.FC = () => {
+  const metrics = useAppStore((state) => state.conversationMetrics);
+
+  if (!metrics || metrics.speakers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginRight: '8px' }}>
+      {metrics.repTalkShare !== null && (
+        <span
+          title="Rep / prospect share of talk time"
+          style={{
+            ...chipStyle,
+            color: metrics.repTalkShare > REP_TALK_SHARE_WARNING ? '#ffc107' : '#e0e0e0'
+          }}
+        >
+          🗣️ {Math.round(metrics.repTalkShare * 100)}/{100 - Math.round(metrics.repTalkShare * 100)}
+        </span>
+      )}
+      {metrics.longestMonologue && (
+        <span title={`Longest monologue (${metrics.longestMonologue.speaker})`} style={chipStyle}>
+          ⏱️ {formatMetricSeconds(metrics.longestMonologue.seconds)}
+        </span>
+      )}
+      <span title="Words per minute" style={chipStyle}>🏃 {metrics.wordsPerMinute} wpm</span>
+      <span title="Questions asked" style={chipStyle}>❓ {metrics.questions}</span>
+      <span title="Interruptions" style={chipStyle}>✋ {metrics.interruptions}</span>
+      <span title="Filler words per 100 words" style={chipStyle}>💬 {metrics.fillerRate.toFixed(1)}%</span>
+    </div>
+  );
+};
+
+export default ConversationMetricsBar;
@@ -0,0 +1,96 @@
+import React, { useMemo } from 'react';
+import { Transcript } from '../types';
+import { computeConversationMetrics, formatMetricSeconds } from '../services/conversationMetrics';
+
+interface ConversationMetricsReportProps {
+  transcripts: Transcript[];
+}
+
+/**
+ * Talk-time and pace breakdown of a saved session, for coaching
+ */
+const ConversationMetricsReport: React.FC<ConversationMetricsReportProps> = ({ transcripts }) => {
+  const metrics = useMemo(() => computeConversationMetrics(transcripts), [transcripts]);
+
+  if (metrics.speakers.length === 0) {
+    return null;
+  }
+
+  const totalSeconds = metrics.speakers.reduce((sum, s) => sum + s.talkSeconds, 0);
+
+  return (
+    <div className="conversation-metrics">
+      <div className="recording-player-header">
+        <span className="context-icon">📊</span>
+        <span>Conversation Metrics</span>
+      </div>
+
+      <div className="conversation-metrics-summary">
+        {metrics.repTalkShare !== null && (
+          <div className="conversation-metric">
+            <span className="conversation-metric-value">
+              {Math.round(metrics.repTalkShare * 100)}/{100 - Math.round(metrics.repTalkShare * 100)}
+            </span>
+            <span className="conversation-metric-label">Rep / prospect talk</span>
+          </div>
+        )}
+        {metrics.longestMonologue && (
+          <div className="conversation-metric">
+            <span className="conversation-metric-value">{formatMetricSeconds(metrics.longestMonologue.seconds)}</span>
+            <span className="conversation-metric-label">Longest monologue · {metrics.longestMonologue.speaker}</span>
+          </div>
+        )}
+        <div className="conversation-metric">
+          <span className="conversation-metric-value">{metrics.wordsPerMinute}</span>
+          <span className="conversation-metric-label">Words per minute</span>
+        </div>
+        <div className="conversation-metric">
+          <span className="conversation-metric-value">{metrics.questions}</span>
+          <span className="conversation-metric-label">Questions</span>
+        </div>
+        <div className="conversation-metric">
+          <span className="conversation-metric-value">{metrics.interruptions}</span>
+          <span className="conversation-metric-label">Interruptions</span>
+        </div>
+        <div className="conversation-metric">
+          <span className="conversation-metric-value">{metrics.fillerRate.toFixed(1)}%</span>
+          <span className="conversation-metric-label">Filler words</span>
+        </div>
+      </div>
+
+      <table className="conversation-metrics-table">
+        <thead>
+          <tr>
+            <th>Speaker</th>
+            <th>Talk time</th>
+            <th>WPM</th>
+            <th>Questions</th>
+            <th>Interruptions</th>
+            <th>Fillers</th>
+            <th>Longest monologue</th>
+          </tr>
+        </thead>
+        <tbody>
+          {metrics.speakers.map((speaker) => (
+            <tr key={speaker.speaker}>
+              <td>{speaker.speaker}</td>
+              <td>
+                {formatMetricSeconds(speaker.talkSeconds)}
+                {totalSeconds > 0 && (
+                  <span className="conversation-metrics-share"> ({Math.round((speaker.talkSeconds / totalSeconds) * 100)}%)</span>
+                )}
+              </td>
+              <td>{speaker.wordsPerMinute}</td>
+              <td>{speaker.questions}</td>
+              <td>{speaker.interruptions}</td>
+              <td>{speaker.words > 0 ? ((speaker.fillerWords / speaker.words) * 100).toFixed(1) : '0.0'}%</td>
+              <td>{formatMetricSeconds(speaker.longestMonologueSeconds)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ConversationMetricsReport;
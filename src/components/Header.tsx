@@ -1,14 +1,19 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAppStore } from '../stores/appStore';
+import AudioLevelMeter from './AudioLevelMeter';
+import AudioDeviceSelect from './AudioDeviceSelect';
+import AudioCheckWizard from './AudioCheckWizard';
+import ConversationMetricsBar from './ConversationMetricsBar';
 import logger from '../utils/logger';
 
 const Header: React.FC = () => {
   const navigate = useNavigate();
-  const { recording, startRecording, stopRecording, setShowSettings, showTodos, setShowTodos, loadFakeTranscripts, viewingHistoricalSession, profile, signOut } = useAppStore();
+  const { recording, captureStatus, settings, updateSettings, startRecording, stopRecording, setShowSettings, showTodos, setShowTodos, loadFakeTranscripts, viewingHistoricalSession, profile, signOut } = useAppStore();
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showMenu, setShowMenu] = useState(false);
+  const [showAudioCheck, setShowAudioCheck] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
 
   const handleSignOut = async () => {
@@ -330,6 +335,45 @@ const Header: React.FC = () => {
           </span>
         )}
 
+        {recording.isRecording && (
+          <AudioDeviceSelect
+            type="microphone"
+            value={settings.audioInputDeviceId}
+            onChange={(id) => updateSettings({ audioInputDeviceId: id })}
+            style={{
+              maxWidth: '160px',
+              padding: '4px 8px',
+              background: 'transparent',
+              border: '1px solid rgba(255, 255, 255, 0.2)',
+              borderRadius: '6px',
+              color: '#e0e0e0',
+              fontSize: '12px',
+              marginRight: '8px'
+            }}
+          />
+        )}
+
+        {recording.isRecording && <AudioLevelMeter />}
+
+        {recording.isRecording && <ConversationMetricsBar />}
+
+        {recording.isRecording && captureStatus.state === 'degraded' && (
+          <span
+            title={captureStatus.reason}
+            style={{
+              color: '#ffc107',
+              fontSize: '12px',
+              background: 'rgba(255, 193, 7, 0.1)',
+              padding: '4px 8px',
+              borderRadius: '4px',
+              border: '1px solid rgba(255, 193, 7, 0.3)',
+              marginRight: '12px'
+            }}
+          >
+            ⚠️ Degraded audio
+          </span>
+        )}
+
         {recording.isRecording && (
           <span style={{
             color: '#dc3545',
@@ -341,6 +385,32 @@ const Header: React.FC = () => {
           </span>
         )}
 
+        {!recording.isRecording && (
+          <button
+            onClick={() => setShowAudioCheck(true)}
+            style={{
+              padding: '6px 12px',
+              background: 'transparent',
+              border: '1px solid rgba(67, 181, 129, 0.5)',
+              borderRadius: '6px',
+              color: '#43b581',
+              cursor: 'pointer',
+              fontSize: '12px',
+              fontWeight: '500',
+              transition: 'all 0.2s',
+              marginRight: '8px',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '4px'
+            }}
+            onMouseEnter={(e) => e.currentTarget.style.background = 'rgba(67, 181, 129, 0.1)'}
+            onMouseLeave={(e) => e.currentTarget.style.background = 'transparent'}
+            title="Test permissions, devices and transcription before a call"
+          >
+            🎧 Check audio
+          </button>
+        )}
+
         <button
           onClick={() => navigate('/session-history')}
           style={{
@@ -408,6 +478,8 @@ const Header: React.FC = () => {
           )}
         </button>
       </div>
+
+      {showAudioCheck && <AudioCheckWizard onClose={() => setShowAudioCheck(false)} />}
     </div>
   );
 };
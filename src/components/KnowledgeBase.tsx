@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import { KnowledgeDocument, KnowledgeDocumentKind } from '../types';
+import { KNOWLEDGE_KIND_LABELS, embeddingModelId, knowledgeBase } from '../services/knowledgeBase';
+import { llmRouter } from '../services/llmRouter';
+import logger from '../utils/logger';
+
+const inputStyle: React.CSSProperties = {
+  padding: '8px 10px',
+  background: '#333',
+  border: '1px solid #555',
+  borderRadius: '6px',
+  color: '#fff',
+  fontSize: '13px',
+  outline: 'none'
+};
+
+/** Use the document's first heading as its title, else the file name */
+const getTitle = (text: string, fileName: string) => {
+  const firstLine = text.split('\n').map(line => line.trim()).find(line => line.length > 0) || '';
+  const heading = firstLine.replace(/^#+\s*/, '');
+  return heading && heading.length <= 120 ? heading : fileName.replace(/\.(md|txt)$/i, '');
+};
+
+/**
+ * Knowledge base manager: import battle cards, case studies, pricing and portfolio documents
+ */
+const KnowledgeBase: React.FC = () => {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [kind, setKind] = useState<KnowledgeDocumentKind>('case-study');
+  const [isImporting, setIsImporting] = useState(false);
+  const [status, setStatus] = useState('');
+
+  const loadDocuments = async () => {
+    try {
+      setDocuments(await knowledgeBase.listDocuments());
+    } catch (error) {
+      logger.warn('⚠️ Failed to load knowledge base:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadDocuments();
+  }, []);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setIsImporting(true);
+    setStatus('');
+    const failed: string[] = [];
+    for (const file of files) {
+      setStatus(`Importing ${file.name}...`);
+      try {
+        const text = await file.text();
+        await knowledgeBase.importDocument({ title: getTitle(text, file.name), text, kind, source: file.name });
+      } catch (error) {
+        logger.error('❌ Failed to import knowledge document:', error);
+        failed.push(`${file.name}: ${error instanceof Error ? error.message : 'import failed'}`);
+      }
+    }
+    setIsImporting(false);
+    setStatus(failed.length > 0 ? `❌ ${failed.join('; ')}` : '');
+    loadDocuments();
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await knowledgeBase.deleteDocument(id);
+      setDocuments(documents.filter(d => d.id !== id));
+    } catch (error) {
+      setStatus(`❌ ${error instanceof Error ? error.message : 'Failed to delete document'}`);
+    }
+  };
+
+  const currentModel = embeddingModelId(llmRouter.getEmbeddingModel());
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+      <p style={{ fontSize: '11px', color: '#666', margin: 0 }}>
+        Markdown or text files, stored and searched on this machine. When the prospect brings up
+        something one of them covers, it shows in the overlay. The samples in upwork-posts/ are a good start.
+      </p>
+
+      {documents.length > 0 && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+          {documents.map((document) => (
+            <div key={document.id} style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              padding: '8px 12px',
+              background: 'rgba(45, 45, 45, 0.6)',
+              border: '1px solid #333',
+              borderRadius: '6px',
+              fontSize: '12px'
+            }}>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ color: '#fff', fontWeight: '500', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {document.title}
+                </div>
+                <div style={{ color: '#888' }}>
+                  {KNOWLEDGE_KIND_LABELS[document.kind]} · {document.chunkCount} chunks
+                  {document.source && ` · ${document.source}`}
+                </div>
+                {document.embeddingModel !== currentModel && (
+                  <div style={{ color: '#ffc107' }}>
+                    Embedded with {document.embeddingModel}; re-import it to search with {currentModel}
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={() => handleDelete(document.id)}
+                title="Remove document"
+                style={{
+                  padding: '4px 8px',
+                  background: 'transparent',
+                  border: '1px solid #555',
+                  borderRadius: '4px',
+                  color: '#ccc',
+                  fontSize: '12px',
+                  cursor: 'pointer'
+                }}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as KnowledgeDocumentKind)}
+          style={inputStyle}
+        >
+          {(Object.keys(KNOWLEDGE_KIND_LABELS) as KnowledgeDocumentKind[]).map((k) => (
+            <option key={k} value={k}>{KNOWLEDGE_KIND_LABELS[k]}</option>
+          ))}
+        </select>
+        <label style={{
+          padding: '6px 12px',
+          background: '#444',
+          borderRadius: '4px',
+          color: '#fff',
+          fontSize: '12px',
+          cursor: isImporting ? 'default' : 'pointer',
+          opacity: isImporting ? 0.6 : 1
+        }}>
+          + Import files
+          <input
+            type="file"
+            accept=".md,.txt"
+            multiple
+            disabled={isImporting}
+            onChange={handleImport}
+            style={{ display: 'none' }}
+          />
+        </label>
+      </div>
+      {status && (
+        <span style={{ fontSize: '12px', color: status.startsWith('❌') ? '#f87171' : '#888' }}>{status}</span>
+      )}
+    </div>
+  );
+};
+
+export default KnowledgeBase;
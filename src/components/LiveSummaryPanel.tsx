@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { LiveCallSummary } from '../types';
+
+interface LiveSummaryPanelProps {
+  summary: LiveCallSummary | null;
+  defaultExpanded?: boolean;
+  maxHeight?: string;
+}
+
+const LIST_SECTIONS: Array<{ key: 'keyFacts' | 'pains' | 'stakeholders'; label: string }> = [
+  { key: 'keyFacts', label: 'Key facts' },
+  { key: 'pains', label: 'Pains' },
+  { key: 'stakeholders', label: 'Stakeholders' }
+];
+
+const sectionLabelStyle: React.CSSProperties = {
+  fontSize: '10px',
+  fontWeight: '600',
+  color: '#94a3b8',
+  textTransform: 'uppercase',
+  letterSpacing: '0.5px',
+  marginBottom: '2px'
+};
+
+/**
+ * Collapsible running summary of the current call
+ */
+const LiveSummaryPanel: React.FC<LiveSummaryPanelProps> = ({ summary, defaultExpanded = false, maxHeight = '220px' }) => {
+  const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+
+  if (!summary) {
+    return null;
+  }
+
+  return (
+    <div style={{
+      background: 'rgba(0, 0, 0, 0.2)',
+      border: '1px solid rgba(255, 255, 255, 0.1)',
+      borderRadius: '8px',
+      fontSize: '12px',
+      color: '#e0e0e0'
+    }}>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        style={{
+          width: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          padding: '8px 12px',
+          background: 'transparent',
+          border: 'none',
+          color: '#fff',
+          fontSize: '12px',
+          fontWeight: '600',
+          cursor: 'pointer',
+          textAlign: 'left'
+        }}
+      >
+        <span>{isExpanded ? '▾' : '▸'}</span>
+        <span style={{ flex: 1 }}>📋 Call summary</span>
+        <span style={{ fontSize: '10px', color: '#888', fontWeight: '400' }}>
+          updated {new Date(summary.updatedAt).toLocaleTimeString()}
+        </span>
+      </button>
+
+      {isExpanded && (
+        <div style={{
+          padding: '0 12px 10px',
+          maxHeight,
+          overflowY: 'auto',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '8px'
+        }}>
+          {(summary.budget || summary.timeline) && (
+            <div style={{ display: 'flex', gap: '12px' }}>
+              {summary.budget && (
+                <div style={{ flex: 1 }}>
+                  <div style={sectionLabelStyle}>Budget</div>
+                  <div>{summary.budget}</div>
+                </div>
+              )}
+              {summary.timeline && (
+                <div style={{ flex: 1 }}>
+                  <div style={sectionLabelStyle}>Timeline</div>
+                  <div>{summary.timeline}</div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {LIST_SECTIONS.filter(({ key }) => summary[key].length > 0).map(({ key, label }) => (
+            <div key={key}>
+              <div style={sectionLabelStyle}>{label}</div>
+              <ul style={{ margin: 0, paddingLeft: '16px' }}>
+                {summary[key].map((item, index) => (
+                  <li key={index} style={{ marginBottom: '2px' }}>{item}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LiveSummaryPanel;
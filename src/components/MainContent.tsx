@@ -4,6 +4,8 @@ import TranscriptPanelOptimized from './TranscriptPanelOptimized';
 import TodoPanel from './TodoPanel';
 import ChatPanel from './ChatPanel';
 import SettingsPanel from './SettingsPanel';
+import LiveSummaryPanel from './LiveSummaryPanel';
+import ScorecardPanel from './ScorecardPanel';
 
 const MainContent: React.FC = () => {
   const showSettings = useAppStore((state) => state.showSettings);
@@ -13,6 +15,8 @@ const MainContent: React.FC = () => {
   const transcripts = useAppStore((state) => state.transcripts);
   const todos = useAppStore((state) => state.todos);
   const chatHistory = useAppStore((state) => state.chatHistory);
+  const liveSummary = useAppStore((state) => state.liveSummary);
+  const scorecard = useAppStore((state) => state.scorecard);
 
   if (showSettings) {
     return (
@@ -57,6 +61,11 @@ const MainContent: React.FC = () => {
                 }}>● LIVE</span>
               )}
             </div>
+            {liveSummary && (
+              <div style={{ padding: '8px 12px 0' }}>
+                <LiveSummaryPanel summary={liveSummary} />
+              </div>
+            )}
             <div className="modern-panel-body">
               <TranscriptPanelOptimized />
             </div>
@@ -158,6 +167,7 @@ const MainContent: React.FC = () => {
             overflowY: 'auto',
             padding: '12px'
           }}>
+            <ScorecardPanel scorecard={scorecard} />
             <TodoPanel />
           </div>
         </div>
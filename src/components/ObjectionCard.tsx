@@ -0,0 +1,72 @@
+import React from 'react';
+import { ObjectionAlert } from '../types';
+import { OBJECTION_LABELS } from '../services/objectionDetector';
+
+interface ObjectionCardProps {
+  alert: ObjectionAlert;
+  onDismiss: (id: string) => void;
+  compact?: boolean;
+}
+
+/**
+ * Rebuttal card raised when the prospect voices an objection
+ */
+const ObjectionCard: React.FC<ObjectionCardProps> = ({ alert, onDismiss, compact = false }) => {
+  return (
+    <div style={{
+      background: 'rgba(245, 158, 11, 0.12)',
+      border: '1px solid rgba(245, 158, 11, 0.5)',
+      borderRadius: '8px',
+      padding: compact ? '8px 10px' : '10px 12px',
+      fontSize: '12px',
+      color: '#e0e0e0',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '6px'
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <span style={{ fontWeight: '600', color: '#fbbf24', flex: 1 }}>
+          🛡️ {OBJECTION_LABELS[alert.category]} objection
+        </span>
+        <span style={{ fontSize: '10px', color: '#888' }}>
+          {new Date(alert.detectedAt).toLocaleTimeString()}
+        </span>
+        <button
+          onClick={() => onDismiss(alert.id)}
+          title="Dismiss"
+          style={{
+            background: 'transparent',
+            border: 'none',
+            color: '#888',
+            cursor: 'pointer',
+            fontSize: '12px',
+            padding: 0
+          }}
+        >
+          ✕
+        </button>
+      </div>
+
+      <div style={{ fontStyle: 'italic', color: '#cbd5e1' }}>
+        "{alert.summary || alert.quote}"
+      </div>
+
+      {alert.rebuttals.length === 0 ? (
+        <div style={{ color: '#888' }}>No rebuttal saved for this objection yet</div>
+      ) : (
+        (compact ? alert.rebuttals.slice(0, 1) : alert.rebuttals).map((rebuttal) => (
+          <div key={rebuttal.id} style={{
+            background: 'rgba(0, 0, 0, 0.2)',
+            borderRadius: '6px',
+            padding: '6px 8px'
+          }}>
+            <div style={{ fontWeight: '600', color: '#fff', marginBottom: '2px' }}>{rebuttal.title}</div>
+            <div style={{ lineHeight: '1.4' }}>{rebuttal.response}</div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default ObjectionCard;
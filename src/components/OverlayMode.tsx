@@ -1,5 +1,8 @@
 import React, { useEffect, useState } from 'react';
 import { useAppStore } from '../stores/appStore';
+import LiveSummaryPanel from './LiveSummaryPanel';
+import ObjectionCard from './ObjectionCard';
+import PlaybookCard from './PlaybookCard';
 import '../styles/overlay.css';
 
 const OverlayMode: React.FC = () => {
@@ -8,6 +11,11 @@ const OverlayMode: React.FC = () => {
   const chatHistory = useAppStore((state) => state.chatHistory);
   const suggestions = useAppStore((state) => state.suggestions);
   const recording = useAppStore((state) => state.recording);
+  const liveSummary = useAppStore((state) => state.liveSummary);
+  const objectionAlerts = useAppStore((state) => state.objectionAlerts);
+  const dismissObjection = useAppStore((state) => state.dismissObjection);
+  const knowledgeMatches = useAppStore((state) => state.knowledgeMatches);
+  const dismissKnowledgeMatch = useAppStore((state) => state.dismissKnowledgeMatch);
   const [isDragging, setIsDragging] = useState(false);
   const [activeTab, setActiveTab] = useState<'transcript' | 'chat' | 'todos'>('transcript');
 
@@ -22,7 +30,8 @@ const OverlayMode: React.FC = () => {
             addTranscript, 
             addTodo, 
             addChatMessage,
-            setRecording 
+            setRecording,
+            setLiveSummary
           } = useAppStore.getState();
           
           // Sync transcripts
@@ -33,6 +42,7 @@ const OverlayMode: React.FC = () => {
           state.chatHistory?.forEach((m: any) => addChatMessage(m));
           // Sync recording state
           if (state.recording) setRecording(state.recording);
+          if (state.liveSummary) setLiveSummary(state.liveSummary);
         }
       }
     };
@@ -49,13 +59,19 @@ const OverlayMode: React.FC = () => {
       const { 
         addTranscript, 
         addTodo, 
-        addChatMessage 
+        addChatMessage,
+        setLiveSummary,
+        setObjectionAlerts,
+        setKnowledgeMatches
       } = useAppStore.getState();
       
       // Update with new data
       state.transcripts?.forEach((t: any) => addTranscript(t));
       state.todos?.forEach((t: any) => addTodo(t));
       state.chatHistory?.forEach((m: any) => addChatMessage(m));
+      if (state.liveSummary !== undefined) setLiveSummary(state.liveSummary);
+      if (state.objectionAlerts !== undefined) setObjectionAlerts(state.objectionAlerts);
+      if (state.knowledgeMatches !== undefined) setKnowledgeMatches(state.knowledgeMatches);
     };
 
     if (window.electronAPI) {
@@ -143,9 +159,26 @@ const OverlayMode: React.FC = () => {
 
       {/* Content Area */}
       <div className="overlay-content">
+        {/* Latest objection shows on every tab */}
+        {objectionAlerts.length > 0 && (
+          <div style={{ marginBottom: '8px' }}>
+            <ObjectionCard alert={objectionAlerts[0]} onDismiss={dismissObjection} compact />
+          </div>
+        )}
+
         {/* Live Transcript Tab */}
         {activeTab === 'transcript' && (
           <div className="overlay-transcript-panel">
+            {liveSummary && (
+              <div style={{ marginBottom: '8px' }}>
+                <LiveSummaryPanel summary={liveSummary} maxHeight="160px" />
+              </div>
+            )}
+            {knowledgeMatches.length > 0 && (
+              <div style={{ marginBottom: '8px' }}>
+                <PlaybookCard match={knowledgeMatches[0]} onDismiss={dismissKnowledgeMatch} />
+              </div>
+            )}
             <div className="transcript-list">
               {recentTranscripts.length === 0 ? (
                 <div className="empty-state">
@@ -0,0 +1,68 @@
+import React from 'react';
+import { KnowledgeMatch } from '../types';
+import { KNOWLEDGE_KIND_LABELS } from '../services/knowledgeBase';
+
+interface PlaybookCardProps {
+  match: KnowledgeMatch;
+  onDismiss: (documentId: string) => void;
+}
+
+/**
+ * Knowledge base content that matches what the prospect just said
+ */
+const PlaybookCard: React.FC<PlaybookCardProps> = ({ match, onDismiss }) => {
+  return (
+    <div style={{
+      background: 'rgba(59, 130, 246, 0.12)',
+      border: '1px solid rgba(59, 130, 246, 0.5)',
+      borderRadius: '8px',
+      padding: '8px 10px',
+      fontSize: '12px',
+      color: '#e0e0e0',
+      display: 'flex',
+      flexDirection: 'column',
+      gap: '6px'
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        <span style={{ fontWeight: '600', color: '#93c5fd', flex: 1 }}>
+          📚 From our playbook
+        </span>
+        <span style={{ fontSize: '10px', color: '#888' }}>
+          {KNOWLEDGE_KIND_LABELS[match.kind]}
+        </span>
+        <button
+          onClick={() => onDismiss(match.documentId)}
+          title="Dismiss"
+          style={{
+            background: 'transparent',
+            border: 'none',
+            color: '#888',
+            cursor: 'pointer',
+            fontSize: '12px',
+            padding: 0
+          }}
+        >
+          ✕
+        </button>
+      </div>
+
+      <div style={{ fontWeight: '600', color: '#fff' }}>{match.title}</div>
+      <div style={{
+        lineHeight: '1.4',
+        maxHeight: '90px',
+        overflowY: 'auto',
+        whiteSpace: 'pre-wrap',
+        background: 'rgba(0, 0, 0, 0.2)',
+        borderRadius: '6px',
+        padding: '6px 8px'
+      }}>
+        {match.text}
+      </div>
+      <div style={{ fontSize: '10px', color: '#888', fontStyle: 'italic' }}>
+        Matched "{match.quote.length > 80 ? `${match.quote.substring(0, 80)}...` : match.quote}"
+      </div>
+    </div>
+  );
+};
+
+export default PlaybookCard;
@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { ObjectionCategory, Rebuttal } from '../types';
+import { DEFAULT_REBUTTALS, OBJECTION_LABELS, objectionDetector } from '../services/objectionDetector';
+import logger from '../utils/logger';
+
+const inputStyle: React.CSSProperties = {
+  padding: '8px 10px',
+  background: '#333',
+  border: '1px solid #555',
+  borderRadius: '6px',
+  color: '#fff',
+  fontSize: '13px',
+  outline: 'none'
+};
+
+/**
+ * Team rebuttal library editor; changes are saved to the database right away
+ */
+const RebuttalLibrary: React.FC = () => {
+  const [teamRebuttals, setTeamRebuttals] = useState<Rebuttal[]>([]);
+  const [category, setCategory] = useState<ObjectionCategory>('price');
+  const [title, setTitle] = useState('');
+  const [response, setResponse] = useState('');
+  const [status, setStatus] = useState('');
+
+  useEffect(() => {
+    const loadRebuttals = async () => {
+      if (!window.electronAPI || !(window.electronAPI as any).getRebuttals) return;
+
+      const result = await (window.electronAPI as any).getRebuttals();
+      if (result.success) {
+        setTeamRebuttals(result.rebuttals);
+      } else {
+        logger.warn('⚠️ Failed to load rebuttal library:', result.error);
+      }
+    };
+
+    loadRebuttals();
+  }, []);
+
+  const applyRebuttals = (rebuttals: Rebuttal[]) => {
+    setTeamRebuttals(rebuttals);
+    objectionDetector.setRebuttals(rebuttals);
+  };
+
+  const handleAdd = async () => {
+    if (!title.trim() || !response.trim()) return;
+
+    const rebuttal: Rebuttal = {
+      id: `rebuttal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      category,
+      title: title.trim(),
+      response: response.trim()
+    };
+
+    // The first team rebuttal starts the library from a copy of the built-in ones
+    const toSave = teamRebuttals.length === 0 ? [...DEFAULT_REBUTTALS, rebuttal] : [rebuttal];
+    for (const item of toSave) {
+      const result = await (window.electronAPI as any).saveRebuttal(item);
+      if (!result.success) {
+        setStatus(`❌ ${result.error || 'Failed to save rebuttal'}`);
+        return;
+      }
+    }
+
+    applyRebuttals([...teamRebuttals.length === 0 ? DEFAULT_REBUTTALS : teamRebuttals, rebuttal]);
+    setTitle('');
+    setResponse('');
+    setStatus('');
+  };
+
+  const handleDelete = async (id: string) => {
+    const result = await (window.electronAPI as any).deleteRebuttal(id);
+    if (!result.success) {
+      setStatus(`❌ ${result.error || 'Failed to delete rebuttal'}`);
+      return;
+    }
+    applyRebuttals(teamRebuttals.filter(r => r.id !== id));
+  };
+
+  const usingDefaults = teamRebuttals.length === 0;
+  const rebuttals = usingDefaults ? DEFAULT_REBUTTALS : teamRebuttals;
+  const categories = Object.keys(OBJECTION_LABELS) as ObjectionCategory[];
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+      {usingDefaults && (
+        <p style={{ fontSize: '11px', color: '#666', margin: 0 }}>
+          Using the built-in rebuttals. Adding one saves a team library starting from these.
+        </p>
+      )}
+
+      {categories.filter(c => rebuttals.some(r => r.category === c)).map((c) => (
+        <div key={c}>
+          <div style={{ fontSize: '12px', fontWeight: '500', color: '#ccc', marginBottom: '6px' }}>
+            {OBJECTION_LABELS[c]}
+          </div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            {rebuttals.filter(r => r.category === c).map((rebuttal) => (
+              <div key={rebuttal.id} style={{
+                display: 'flex',
+                gap: '8px',
+                padding: '8px 12px',
+                background: 'rgba(45, 45, 45, 0.6)',
+                border: '1px solid #333',
+                borderRadius: '6px',
+                fontSize: '12px'
+              }}>
+                <div style={{ flex: 1 }}>
+                  <div style={{ color: '#fff', fontWeight: '500', marginBottom: '2px' }}>{rebuttal.title}</div>
+                  <div style={{ color: '#aaa' }}>{rebuttal.response}</div>
+                </div>
+                {!usingDefaults && (
+                  <button
+                    onClick={() => handleDelete(rebuttal.id)}
+                    title="Remove rebuttal"
+                    style={{
+                      alignSelf: 'flex-start',
+                      padding: '4px 8px',
+                      background: 'transparent',
+                      border: '1px solid #555',
+                      borderRadius: '4px',
+                      color: '#ccc',
+                      fontSize: '12px',
+                      cursor: 'pointer'
+                    }}
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as ObjectionCategory)}
+            style={inputStyle}
+          >
+            {categories.map((c) => (
+              <option key={c} value={c}>{OBJECTION_LABELS[c]}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Short title"
+            style={{ ...inputStyle, flex: 1 }}
+          />
+        </div>
+        <textarea
+          value={response}
+          onChange={(e) => setResponse(e.target.value)}
+          placeholder="What the rep can say..."
+          rows={2}
+          style={{ ...inputStyle, resize: 'vertical', fontFamily: 'inherit' }}
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!title.trim() || !response.trim()}
+          style={{
+            alignSelf: 'flex-start',
+            padding: '6px 12px',
+            background: '#444',
+            border: 'none',
+            borderRadius: '4px',
+            color: '#fff',
+            fontSize: '12px',
+            cursor: 'pointer'
+          }}
+        >
+          + Add rebuttal
+        </button>
+        {status && <span style={{ fontSize: '12px', color: '#f87171' }}>{status}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default RebuttalLibrary;
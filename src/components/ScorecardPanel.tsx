@@ -0,0 +1,68 @@
+import React from 'react';
+import { QualificationFieldStatus, QualificationScorecard } from '../types';
+import { QUALIFICATION_FRAMEWORKS } from '../services/scorecardService';
+
+interface ScorecardPanelProps {
+  scorecard: QualificationScorecard | null;
+}
+
+const STATUS_STYLES: Record<QualificationFieldStatus, { icon: string; color: string }> = {
+  complete: { icon: '✅', color: '#4ade80' },
+  partial: { icon: '◐', color: '#fbbf24' },
+  missing: { icon: '○', color: '#666' }
+};
+
+/**
+ * Qualification checklist for the current call; missing fields show the question still to ask
+ */
+const ScorecardPanel: React.FC<ScorecardPanelProps> = ({ scorecard }) => {
+  if (!scorecard) {
+    return null;
+  }
+
+  const framework = QUALIFICATION_FRAMEWORKS[scorecard.framework];
+  const completeCount = scorecard.fields.filter(f => f.status === 'complete').length;
+
+  return (
+    <div style={{
+      background: 'rgba(0, 0, 0, 0.2)',
+      border: '1px solid rgba(255, 255, 255, 0.1)',
+      borderRadius: '8px',
+      padding: '10px 12px',
+      fontSize: '12px',
+      color: '#e0e0e0',
+      marginBottom: '12px'
+    }}>
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: '8px' }}>
+        <span style={{ flex: 1, fontWeight: '600', color: '#fff' }}>🎯 {framework.label} qualification</span>
+        <span style={{ fontSize: '11px', color: '#888' }}>{completeCount}/{scorecard.fields.length}</span>
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+        {framework.fields.map((definition) => {
+          const field = scorecard.fields.find(f => f.key === definition.key);
+          const status = field?.status || 'missing';
+          return (
+            <div key={definition.key} style={{ display: 'flex', gap: '8px' }}>
+              <span style={{ color: STATUS_STYLES[status].color, width: '16px', textAlign: 'center' }}>
+                {STATUS_STYLES[status].icon}
+              </span>
+              <div style={{ flex: 1 }}>
+                <div style={{ fontWeight: '500', color: status === 'missing' ? '#aaa' : '#fff' }}>
+                  {definition.label}
+                </div>
+                {field?.value ? (
+                  <div style={{ color: '#ccc' }}>{field.value}</div>
+                ) : (
+                  <div style={{ color: '#888', fontStyle: 'italic' }}>Ask: {definition.question}</div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ScorecardPanel;
@@ -0,0 +1,142 @@
+import React, { useMemo, useState } from 'react';
+import { Transcript } from '../types';
+
+interface SentimentTimelineProps {
+  transcripts: Transcript[];
+  onSelectTranscript?: (transcript: Transcript) => void;
+}
+
+const CHART_WIDTH = 800;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 12;
+
+// A dip is a negative line that falls well below the lines just before it
+const DIP_THRESHOLD = -0.3;
+const DIP_DROP = 0.4;
+const DIP_WINDOW = 3;
+
+const formatOffset = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Sentiment and engagement over the call, with dips marked and linked to the line that caused them
+ */
+const SentimentTimeline: React.FC<SentimentTimelineProps> = ({ transcripts, onSelectTranscript }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const scored = useMemo(
+    () => transcripts.filter(t => t.sentiment !== undefined && !t.isGap),
+    [transcripts]
+  );
+
+  // Plot against audio time when every scored line has it, otherwise by line order
+  const points = useMemo(() => {
+    const timed = scored.length > 0 && scored.every(t => t.startOffset !== undefined);
+    const positions = scored.map((t, index) => timed ? t.startOffset! : index);
+    const maxPosition = Math.max(1, ...positions);
+    const plotWidth = CHART_WIDTH - CHART_PADDING * 2;
+    const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+
+    return scored.map((transcript, index) => {
+      const previous = scored.slice(Math.max(0, index - DIP_WINDOW), index);
+      const previousAverage = previous.length > 0
+        ? previous.reduce((sum, t) => sum + t.sentiment!, 0) / previous.length
+        : 0;
+
+      return {
+        transcript,
+        x: CHART_PADDING + (positions[index] / maxPosition) * plotWidth,
+        sentimentY: CHART_PADDING + ((1 - transcript.sentiment!) / 2) * plotHeight,
+        engagementY: transcript.engagement !== undefined
+          ? CHART_PADDING + (1 - transcript.engagement) * plotHeight
+          : undefined,
+        isDip: transcript.sentiment! <= DIP_THRESHOLD && previousAverage - transcript.sentiment! >= DIP_DROP
+      };
+    });
+  }, [scored]);
+
+  if (points.length < 2) {
+    return null;
+  }
+
+  const sentimentPath = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x},${p.sentimentY}`).join(' ');
+  const engagementPath = points
+    .filter(p => p.engagementY !== undefined)
+    .map((p, i) => `${i === 0 ? 'M' : 'L'}${p.x},${p.engagementY}`)
+    .join(' ');
+  const dips = points.filter(p => p.isDip);
+  const selected = points.find(p => p.transcript.id === selectedId)?.transcript;
+
+  const handleSelect = (transcript: Transcript) => {
+    setSelectedId(transcript.id);
+    onSelectTranscript?.(transcript);
+  };
+
+  return (
+    <div className="sentiment-timeline">
+      <div className="recording-player-header">
+        <span className="context-icon">📈</span>
+        <span>Sentiment & Engagement</span>
+        <span className="sentiment-legend">
+          <span className="sentiment-legend-sentiment">━ sentiment</span>
+          <span className="sentiment-legend-engagement">┅ engagement</span>
+        </span>
+      </div>
+
+      <svg className="sentiment-chart" viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}>
+        <line
+          x1={CHART_PADDING}
+          x2={CHART_WIDTH - CHART_PADDING}
+          y1={CHART_HEIGHT / 2}
+          y2={CHART_HEIGHT / 2}
+          className="sentiment-chart-zero"
+        />
+        {engagementPath && <path d={engagementPath} className="sentiment-chart-engagement" />}
+        <path d={sentimentPath} className="sentiment-chart-sentiment" />
+        {points.map((p) => (
+          <circle
+            key={p.transcript.id}
+            cx={p.x}
+            cy={p.sentimentY}
+            r={p.isDip ? 6 : 3}
+            className={`sentiment-chart-point ${p.isDip ? 'dip' : ''} ${p.transcript.id === selectedId ? 'selected' : ''}`}
+            onClick={() => handleSelect(p.transcript)}
+          >
+            <title>{p.transcript.text}</title>
+          </circle>
+        ))}
+      </svg>
+
+      {selected && (
+        <div className="sentiment-selected">
+          {selected.speaker && <span className="playback-speaker">{selected.speaker}</span>}
+          <span>{selected.text}</span>
+        </div>
+      )}
+
+      {dips.length > 0 && (
+        <div className="call-report-section">
+          <h4>Where it dipped</h4>
+          {dips.map(({ transcript }) => (
+            <div
+              key={transcript.id}
+              className={`playback-line ${transcript.id === selectedId ? 'active' : ''}`}
+              onClick={() => handleSelect(transcript)}
+            >
+              {transcript.startOffset !== undefined && (
+                <span className="playback-time">{formatOffset(transcript.startOffset)}</span>
+              )}
+              {transcript.speaker && <span className="playback-speaker">{transcript.speaker}</span>}
+              <span className="playback-text">{transcript.text}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SentimentTimeline;
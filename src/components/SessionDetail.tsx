@@ -1,7 +1,11 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
-import { RecordingSession, AIConversation } from '../types';
+import { RecordingSession, AIConversation, Transcript } from '../types';
 import logger from '../utils/logger';
+import SessionRecordingPlayer from './SessionRecordingPlayer';
+import CallReportPanel from './CallReportPanel';
+import ConversationMetricsReport from './ConversationMetricsReport';
+import SentimentTimeline from './SentimentTimeline';
 import './SessionDetail.css';
 
 const SessionDetail: React.FC = () => {
@@ -9,6 +13,8 @@ const SessionDetail: React.FC = () => {
   const { sessionId } = useParams<{ sessionId: string }>();
   const [session, setSession] = useState<RecordingSession | null>(null);
   const [conversations, setConversations] = useState<AIConversation[]>([]);
+  const [transcripts, setTranscripts] = useState<Transcript[]>([]);
+  const [focusedTranscriptId, setFocusedTranscriptId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -43,6 +49,26 @@ const SessionDetail: React.FC = () => {
       }
       setConversations(conversationsResult.conversations || []);
 
+      // Load transcripts (used to sync playback with the recording)
+      const transcriptsResult = await (window.electronAPI as any).getSessionTranscripts(sessionId);
+      if (transcriptsResult.success) {
+        setTranscripts(transcriptsResult.transcripts?.map((t: any) => ({
+          id: t.id,
+          text: t.text,
+          timestamp: new Date(t.timestamp),
+          isInterim: t.isInterim || false,
+          speaker: t.speaker || undefined,
+          speakerId: t.speakerId ?? undefined,
+          startOffset: t.startOffset ?? undefined,
+          endOffset: t.endOffset ?? undefined,
+          words: t.words || undefined,
+          sentiment: t.sentiment ?? undefined,
+          engagement: t.engagement ?? undefined
+        })) || []);
+      } else {
+        logger.warn('⚠️ Failed to load transcripts:', transcriptsResult.error);
+      }
+
       logger.debug('✅ Loaded session and conversations:', {
         session: sessionResult.session,
         conversationCount: conversationsResult.conversations?.length || 0
@@ -123,6 +149,38 @@ const SessionDetail: React.FC = () => {
           </div>
         )}
 
+        {/* Post-call Report */}
+        {!loading && !error && session && (
+          <CallReportPanel
+            sessionId={session.id}
+            startedAt={session.startedAt}
+            transcripts={transcripts}
+          />
+        )}
+
+        {/* Talk-time and pace analytics */}
+        {!loading && !error && session && (
+          <ConversationMetricsReport transcripts={transcripts} />
+        )}
+
+        {/* Sentiment timeline; picking a dip cues the recording to that line */}
+        {!loading && !error && session && (
+          <SentimentTimeline
+            transcripts={transcripts}
+            onSelectTranscript={(transcript) => setFocusedTranscriptId(transcript.id)}
+          />
+        )}
+
+        {/* Recording Playback */}
+        {!loading && !error && sessionId && (
+          <SessionRecordingPlayer
+            sessionId={sessionId}
+            transcripts={transcripts}
+            focusTranscriptId={focusedTranscriptId}
+            onRetranscribed={loadSessionData}
+          />
+        )}
+
         {/* Conversations List */}
         {!loading && !error && conversations.length === 0 && (
           <div className="empty-state">
@@ -1,6 +1,8 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { RecordingSession } from '../types';
+import { useAppStore } from '../stores/appStore';
+import { SUPPORTED_IMPORT_TYPES } from '../services/audioImportService';
 import logger from '../utils/logger';
 import './SessionHistory.css';
 
@@ -13,6 +15,8 @@ const SessionHistory: React.FC = () => {
   const [editingField, setEditingField] = useState<{ sessionId: string; field: 'title' | 'description' } | null>(null);
   const [editText, setEditText] = useState('');
   const [hasLoaded, setHasLoaded] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { audioImport, importAudioFile, cancelAudioImport, recording } = useAppStore();
 
   useEffect(() => {
     if (!hasLoaded) {
@@ -149,6 +153,28 @@ const SessionHistory: React.FC = () => {
 
   const sessionGroups = groupSessionsByDate();
 
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+
+    try {
+      const sessionId = await importAudioFile(file);
+      logger.debug('✅ Imported audio into session:', sessionId);
+      await loadSessions();
+    } catch (err) {
+      logger.error('❌ Failed to import audio:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import audio');
+      setTimeout(() => setError(null), 5000);
+    }
+  };
+
+  const importStatusLabels = {
+    decoding: 'Decoding audio...',
+    transcribing: 'Transcribing',
+    summarizing: 'Generating title and summary...'
+  };
+
   const handleDeleteSession = async (sessionId: string, e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent navigating to session when clicking delete
 
@@ -194,11 +220,48 @@ const SessionHistory: React.FC = () => {
             <p className="subtitle">View all your past recording sessions and conversations</p>
           </div>
 
-          <button className="refresh-button" onClick={loadSessions} disabled={loading}>
-            🔄 Refresh
-          </button>
+          <div className="header-actions">
+            <button
+              className="refresh-button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!!audioImport || recording.isRecording}
+              title="Transcribe a WAV, MP3 or M4A recording into a new session"
+            >
+              📥 Import audio
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={SUPPORTED_IMPORT_TYPES}
+              onChange={handleImportFile}
+              style={{ display: 'none' }}
+            />
+            <button className="refresh-button" onClick={loadSessions} disabled={loading}>
+              🔄 Refresh
+            </button>
+          </div>
         </div>
 
+        {audioImport && (
+          <div className="import-progress">
+            <div className="import-progress-info">
+              <span>📂 {audioImport.fileName}</span>
+              <span>
+                {importStatusLabels[audioImport.status]}
+                {audioImport.status === 'transcribing' && ` ${Math.round(audioImport.progress * 100)}%`}
+              </span>
+            </div>
+            <div className="import-progress-bar">
+              <div className="import-progress-fill" style={{ width: `${audioImport.progress * 100}%` }} />
+            </div>
+            {audioImport.status === 'transcribing' && (
+              <button className="import-cancel-button" onClick={cancelAudioImport}>
+                Stop import
+              </button>
+            )}
+          </div>
+        )}
+
         {loading && (
           <div className="loading-state">
             <div className="spinner"></div>
@@ -0,0 +1,183 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Transcript } from '../types';
+import logger from '../utils/logger';
+
+interface SessionRecordingPlayerProps {
+  sessionId: string;
+  transcripts: Transcript[];
+  focusTranscriptId?: string | null; // Cue the recording to this line, e.g. from the sentiment timeline
+  onRetranscribed?: () => void;
+}
+
+const formatOffset = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Plays a session's locally recorded audio and highlights the transcript
+ * line currently being played. Clicking a line seeks to it.
+ * Also offers re-transcription of the recording in batch mode.
+ */
+const SessionRecordingPlayer: React.FC<SessionRecordingPlayerProps> = ({ sessionId, transcripts, focusTranscriptId, onRetranscribed }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const activeLineRef = useRef<HTMLDivElement>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [retranscribing, setRetranscribing] = useState(false);
+  const [keepPreviousVersion, setKeepPreviousVersion] = useState(true);
+  const [retranscribeStatus, setRetranscribeStatus] = useState('');
+
+  // Load the WAV from the main process and expose it as a blob URL
+  useEffect(() => {
+    let url: string | null = null;
+    let cancelled = false;
+
+    const loadAudio = async () => {
+      if (!window.electronAPI || !(window.electronAPI as any).getSessionAudio) return;
+
+      try {
+        const result = await (window.electronAPI as any).getSessionAudio(sessionId);
+        if (cancelled || !result.success || !result.audio) return;
+
+        url = URL.createObjectURL(new Blob([result.audio], { type: 'audio/wav' }));
+        setAudioUrl(url);
+        logger.debug('🔈 Loaded session audio for playback:', sessionId);
+      } catch (error) {
+        logger.error('❌ Failed to load session audio:', error);
+      }
+    };
+
+    loadAudio();
+
+    return () => {
+      cancelled = true;
+      if (url) {
+        URL.revokeObjectURL(url);
+      }
+    };
+  }, [sessionId]);
+
+  // Only lines with audio offsets can be synchronized
+  const timedTranscripts = useMemo(
+    () => transcripts.filter(t => t.startOffset !== undefined),
+    [transcripts]
+  );
+
+  const activeId = useMemo(() => {
+    const active = timedTranscripts.find(t =>
+      currentTime >= t.startOffset! && currentTime < (t.endOffset ?? t.startOffset! + 1)
+    );
+    return active?.id;
+  }, [timedTranscripts, currentTime]);
+
+  // Keep the playing line in view
+  useEffect(() => {
+    activeLineRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeId]);
+
+  // Cue up a line picked elsewhere on the page without starting playback
+  useEffect(() => {
+    const focused = timedTranscripts.find(t => t.id === focusTranscriptId);
+    if (focused && audioRef.current) {
+      audioRef.current.currentTime = focused.startOffset!;
+      setCurrentTime(focused.startOffset!);
+    }
+  }, [focusTranscriptId, timedTranscripts]);
+
+  const seekTo = (seconds: number) => {
+    if (audioRef.current) {
+      audioRef.current.currentTime = seconds;
+      audioRef.current.play().catch((error) => logger.error('❌ Playback failed:', error));
+    }
+  };
+
+  const handleRetranscribe = async () => {
+    if (!window.electronAPI || !(window.electronAPI as any).retranscribeSession) return;
+
+    setRetranscribing(true);
+    setRetranscribeStatus('🔄 Re-transcribing recording...');
+
+    try {
+      const result = await (window.electronAPI as any).retranscribeSession(
+        sessionId,
+        keepPreviousVersion ? 'version' : 'replace'
+      );
+
+      if (result.success) {
+        setRetranscribeStatus(`✅ ${result.count} lines transcribed (version ${result.version})`);
+        onRetranscribed?.();
+      } else {
+        setRetranscribeStatus(`❌ ${result.error}`);
+      }
+    } catch (error: any) {
+      logger.error('❌ Re-transcription failed:', error);
+      setRetranscribeStatus(`❌ ${error.message}`);
+    } finally {
+      setRetranscribing(false);
+    }
+  };
+
+  if (!audioUrl) {
+    return null;
+  }
+
+  return (
+    <div className="recording-player">
+      <div className="recording-player-header">
+        <span className="context-icon">🎧</span>
+        <span>Call Recording</span>
+
+        <div className="retranscribe-controls">
+          <label className="retranscribe-option">
+            <input
+              type="checkbox"
+              checked={keepPreviousVersion}
+              onChange={(e) => setKeepPreviousVersion(e.target.checked)}
+              disabled={retranscribing}
+            />
+            Keep previous version
+          </label>
+          <button
+            className="retranscribe-button"
+            onClick={handleRetranscribe}
+            disabled={retranscribing}
+            title="Re-run the recording with diarization and smart formatting"
+          >
+            {retranscribing ? '🔄 Working...' : '🔁 Re-transcribe'}
+          </button>
+        </div>
+      </div>
+
+      {retranscribeStatus && <div className="retranscribe-status">{retranscribeStatus}</div>}
+
+      <audio
+        ref={audioRef}
+        src={audioUrl}
+        controls
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        className="recording-audio"
+      />
+
+      {timedTranscripts.length > 0 && (
+        <div className="playback-transcript">
+          {timedTranscripts.map((transcript) => (
+            <div
+              key={transcript.id}
+              ref={transcript.id === activeId ? activeLineRef : undefined}
+              className={`playback-line ${transcript.id === activeId ? 'active' : ''}`}
+              onClick={() => seekTo(transcript.startOffset!)}
+            >
+              <span className="playback-time">{formatOffset(transcript.startOffset!)}</span>
+              {transcript.speaker && <span className="playback-speaker">{transcript.speaker}</span>}
+              <span className="playback-text">{transcript.text}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionRecordingPlayer;
@@ -1,5 +1,41 @@
 import React, { useState, useEffect } from 'react';
 import { useAppStore } from '../stores/appStore';
+import AudioDeviceSelect from './AudioDeviceSelect';
+import RebuttalLibrary from './RebuttalLibrary';
+import KnowledgeBase from './KnowledgeBase';
+import { EMBEDDING_PROVIDERS, LLM_PROVIDERS } from '../services/llmRouter';
+import { QUALIFICATION_FRAMEWORKS } from '../services/scorecardService';
+import { LLMProviderId, LLMTask, QualificationFrameworkId } from '../types';
+
+const TRANSCRIPTION_LANGUAGES = [
+  { value: 'auto', label: 'Auto-detect (multilingual)' },
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'en-AU', label: 'English (Australia)' },
+  { value: 'en-IN', label: 'English (India)' },
+  { value: 'es', label: 'Spanish' },
+  { value: 'fr', label: 'French' },
+  { value: 'de', label: 'German' },
+  { value: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { value: 'nl', label: 'Dutch' },
+  { value: 'it', label: 'Italian' },
+  { value: 'hi', label: 'Hindi' },
+  { value: 'ja', label: 'Japanese' }
+];
+
+const TRANSCRIPTION_MODELS = [
+  { value: 'nova-2', label: 'Nova-2 (general)' },
+  { value: 'nova-2-meeting', label: 'Nova-2 Meeting' },
+  { value: 'nova-2-phonecall', label: 'Nova-2 Phone Call' },
+  { value: 'nova-3', label: 'Nova-3' }
+];
+
+const LLM_TASKS: Array<{ task: LLMTask; label: string }> = [
+  { task: 'chat', label: 'Chat' },
+  { task: 'todos', label: 'Todos' },
+  { task: 'insights', label: 'Insights' },
+  { task: 'summaries', label: 'Summaries' }
+];
 
 const SettingsPanel: React.FC = () => {
   // Zustand performance: subscribe only to settings
@@ -34,12 +70,22 @@ const SettingsPanel: React.FC = () => {
     };
   }, [setShowSettings]);
 
-  const handleSettingChange = (key: keyof typeof settings, value: string | boolean) => {
+  const handleSettingChange = (key: keyof typeof settings, value: (typeof settings)[keyof typeof settings]) => {
     const newSettings = { ...localSettings, [key]: value };
     setLocalSettings(newSettings);
     setHasChanges(JSON.stringify(newSettings) !== JSON.stringify(settings));
   };
 
+  const handleModelChange = (task: LLMTask, provider: LLMProviderId, model: string) => {
+    handleSettingChange('llmModels', { ...localSettings.llmModels, [task]: { provider, model } });
+  };
+
+  const handleFallbackChange = (index: number, provider: LLMProviderId, model: string) => {
+    handleSettingChange('llmFallbacks', localSettings.llmFallbacks.map((fallback, i) => i === index ? { provider, model } : fallback));
+  };
+
+  const getDefaultModel = (provider: LLMProviderId) => LLM_PROVIDERS.find(p => p.id === provider)?.models[0] || '';
+
 
   const handleSave = async () => {
     // Just call updateSettings which handles everything
@@ -318,9 +364,659 @@ const SettingsPanel: React.FC = () => {
                   )}
                 </div>
                 <p style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>
-                  Required for AI chat and analysis features
+                  Used by tasks assigned to an OpenAI model below
+                </p>
+              </div>
+            </div>
+          </section>
+
+          {/* AI Models */}
+          <section>
+            <h4 style={{
+              fontSize: '14px',
+              fontWeight: '600',
+              marginBottom: '16px',
+              color: '#fff',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px'
+            }}>
+              🧠 AI Models
+            </h4>
+
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+              {([
+                { key: 'groqKey', label: 'Groq API Key', type: 'password', placeholder: 'gsk_...' },
+                { key: 'anthropicKey', label: 'Anthropic API Key', type: 'password', placeholder: 'sk-ant-...' },
+                { key: 'localLLMUrl', label: 'Local Model URL (optional)', type: 'text', placeholder: 'http://localhost:11434/v1' }
+              ] as const).map(({ key, label, type, placeholder }) => (
+                <div key={key}>
+                  <label style={{
+                    display: 'block',
+                    fontSize: '12px',
+                    fontWeight: '500',
+                    marginBottom: '6px',
+                    color: '#ccc'
+                  }}>
+                    {label}
+                  </label>
+                  <input
+                    type={type}
+                    value={localSettings[key]}
+                    onChange={(e) => handleSettingChange(key, e.target.value)}
+                    placeholder={placeholder}
+                    style={{
+                      width: '100%',
+                      padding: '10px 14px',
+                      background: '#333',
+                      border: '1px solid #555',
+                      borderRadius: '6px',
+                      color: '#fff',
+                      fontSize: '13px',
+                      outline: 'none'
+                    }}
+                  />
+                </div>
+              ))}
+              <p style={{ fontSize: '11px', color: '#666', marginTop: '-8px' }}>
+                The local URL points at any OpenAI-compatible server (Ollama, LM Studio, llama.cpp)
+              </p>
+
+              {LLM_TASKS.map(({ task, label }) => {
+                const selection = localSettings.llmModels[task];
+                const provider = LLM_PROVIDERS.find(p => p.id === selection.provider);
+                return (
+                  <div key={task}>
+                    <label style={{
+                      display: 'block',
+                      fontSize: '12px',
+                      fontWeight: '500',
+                      marginBottom: '6px',
+                      color: '#ccc'
+                    }}>
+                      {label}
+                    </label>
+                    <div style={{ display: 'flex', gap: '8px' }}>
+                      <select
+                        value={selection.provider}
+                        onChange={(e) => {
+                          const nextProvider = e.target.value as LLMProviderId;
+                          handleModelChange(task, nextProvider, getDefaultModel(nextProvider));
+                        }}
+                        style={{
+                          flex: 1,
+                          padding: '8px 10px',
+                          background: '#333',
+                          border: '1px solid #555',
+                          borderRadius: '6px',
+                          color: '#fff',
+                          fontSize: '13px',
+                          outline: 'none'
+                        }}
+                      >
+                        {LLM_PROVIDERS.map((p) => (
+                          <option key={p.id} value={p.id}>{p.label}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        list={`llm-models-${task}`}
+                        value={selection.model}
+                        onChange={(e) => handleModelChange(task, selection.provider, e.target.value)}
+                        style={{
+                          flex: 1,
+                          padding: '8px 10px',
+                          background: '#333',
+                          border: '1px solid #555',
+                          borderRadius: '6px',
+                          color: '#fff',
+                          fontSize: '13px',
+                          outline: 'none'
+                        }}
+                      />
+                      <datalist id={`llm-models-${task}`}>
+                        {provider?.models.map((model) => (
+                          <option key={model} value={model} />
+                        ))}
+                      </datalist>
+                    </div>
+                  </div>
+                );
+              })}
+
+              <div>
+                <label style={{
+                  display: 'block',
+                  fontSize: '12px',
+                  fontWeight: '500',
+                  marginBottom: '6px',
+                  color: '#ccc'
+                }}>
+                  Fallback Chain
+                </label>
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                  {localSettings.llmFallbacks.map((fallback, index) => (
+                    <div key={index} style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                      <span style={{ fontSize: '12px', color: '#888', width: '16px' }}>{index + 1}.</span>
+                      <select
+                        value={fallback.provider}
+                        onChange={(e) => {
+                          const nextProvider = e.target.value as LLMProviderId;
+                          handleFallbackChange(index, nextProvider, getDefaultModel(nextProvider));
+                        }}
+                        style={{
+                          flex: 1,
+                          padding: '8px 10px',
+                          background: '#333',
+                          border: '1px solid #555',
+                          borderRadius: '6px',
+                          color: '#fff',
+                          fontSize: '13px',
+                          outline: 'none'
+                        }}
+                      >
+                        {LLM_PROVIDERS.map((p) => (
+                          <option key={p.id} value={p.id}>{p.label}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        list={`llm-fallback-models-${index}`}
+                        value={fallback.model}
+                        onChange={(e) => handleFallbackChange(index, fallback.provider, e.target.value)}
+                        style={{
+                          flex: 1,
+                          padding: '8px 10px',
+                          background: '#333',
+                          border: '1px solid #555',
+                          borderRadius: '6px',
+                          color: '#fff',
+                          fontSize: '13px',
+                          outline: 'none'
+                        }}
+                      />
+                      <datalist id={`llm-fallback-models-${index}`}>
+                        {LLM_PROVIDERS.find(p => p.id === fallback.provider)?.models.map((model) => (
+                          <option key={model} value={model} />
+                        ))}
+                      </datalist>
+                      <button
+                        onClick={() => handleSettingChange('llmFallbacks', localSettings.llmFallbacks.filter((_, i) => i !== index))}
+                        title="Remove fallback"
+                        style={{
+                          padding: '6px 10px',
+                          background: 'transparent',
+                          border: '1px solid #555',
+                          borderRadius: '4px',
+                          color: '#ccc',
+                          fontSize: '12px',
+                          cursor: 'pointer'
+                        }}
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => handleSettingChange('llmFallbacks', [
+                      ...localSettings.llmFallbacks,
+                      { provider: 'local', model: getDefaultModel('local') }
+                    ])}
+                    style={{
+                      alignSelf: 'flex-start',
+                      padding: '6px 12px',
+                      background: '#444',
+                      border: 'none',
+                      borderRadius: '4px',
+                      color: '#fff',
+                      fontSize: '12px',
+                      cursor: 'pointer'
+                    }}
+                  >
+                    + Add fallback
+                  </button>
+                </div>
+                <p style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>
+                  Tried in order when a task's model is rate-limited or down; providers without a key are skipped
+                </p>
+              </div>
+
+              <div>
+                <label style={{
+                  display: 'block',
+                  fontSize: '12px',
+                  fontWeight: '500',
+                  marginBottom: '6px',
+                  color: '#ccc'
+                }}>
+                  Embeddings (knowledge base)
+                </label>
+                <div style={{ display: 'flex', gap: '8px' }}>
+                  <select
+                    value={localSettings.embeddingModel.provider}
+                    onChange={(e) => {
+                      const nextProvider = e.target.value as LLMProviderId;
+                      handleSettingChange('embeddingModel', {
+                        provider: nextProvider,
+                        model: EMBEDDING_PROVIDERS.find(p => p.id === nextProvider)?.models[0] || ''
+                      });
+                    }}
+                    style={{
+                      flex: 1,
+                      padding: '8px 10px',
+                      background: '#333',
+                      border: '1px solid #555',
+                      borderRadius: '6px',
+                      color: '#fff',
+                      fontSize: '13px',
+                      outline: 'none'
+                    }}
+                  >
+                    {EMBEDDING_PROVIDERS.map((p) => (
+                      <option key={p.id} value={p.id}>{p.label}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    list="embedding-models"
+                    value={localSettings.embeddingModel.model}
+                    onChange={(e) => handleSettingChange('embeddingModel', { ...localSettings.embeddingModel, model: e.target.value })}
+                    style={{
+                      flex: 1,
+                      padding: '8px 10px',
+                      background: '#333',
+                      border: '1px solid #555',
+                      borderRadius: '6px',
+                      color: '#fff',
+                      fontSize: '13px',
+                      outline: 'none'
+                    }}
+                  />
+                  <datalist id="embedding-models">
+                    {EMBEDDING_PROVIDERS.find(p => p.id === localSettings.embeddingModel.provider)?.models.map((model) => (
+                      <option key={model} value={model} />
+                    ))}
+                  </datalist>
+                </div>
+                <p style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>
+                  Documents are searched with the model they were imported with; re-import them after changing it
+                </p>
+              </div>
+            </div>
+          </section>
+
+          {/* Transcription Provider */}
+          <section>
+            <h4 style={{
+              fontSize: '14px',
+              fontWeight: '600',
+              marginBottom: '16px',
+              color: '#fff',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px'
+            }}>
+              🎙️ Transcription
+            </h4>
+
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+              <div>
+                <label style={{
+                  display: 'block',
+                  fontSize: '12px',
+                  fontWeight: '500',
+                  marginBottom: '6px',
+                  color: '#ccc'
+                }}>
+                  Provider
+                </label>
+                <select
+                  value={localSettings.transcriptionProvider}
+                  onChange={(e) => handleSettingChange('transcriptionProvider', e.target.value)}
+                  style={{
+                    width: '100%',
+                    padding: '10px 14px',
+                    background: '#333',
+                    border: '1px solid #555',
+                    borderRadius: '6px',
+                    color: '#fff',
+                    fontSize: '13px',
+                    outline: 'none'
+                  }}
+                >
+                  <option value="deepgram">Deepgram (cloud)</option>
+                  <option value="local">Local server (Whisper-compatible)</option>
+                </select>
+                <p style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>
+                  Takes effect the next time recording starts
+                </p>
+              </div>
+
+              {localSettings.transcriptionProvider === 'local' && (
+                <div>
+                  <label style={{
+                    display: 'block',
+                    fontSize: '12px',
+                    fontWeight: '500',
+                    marginBottom: '6px',
+                    color: '#ccc'
+                  }}>
+                    Local Server URL
+                  </label>
+                  <input
+                    type="text"
+                    value={localSettings.localTranscriptionUrl}
+                    onChange={(e) => handleSettingChange('localTranscriptionUrl', e.target.value)}
+                    placeholder="ws://localhost:9090"
+                    style={{
+                      width: '100%',
+                      padding: '10px 14px',
+                      background: '#333',
+                      border: '1px solid #555',
+                      borderRadius: '6px',
+                      color: '#fff',
+                      fontSize: '13px',
+                      outline: 'none'
+                    }}
+                  />
+                  <p style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>
+                    WebSocket endpoint receiving 16kHz linear16 audio; no API key required
+                  </p>
+                </div>
+              )}
+
+              <div style={{ display: 'flex', gap: '12px' }}>
+                <div style={{ flex: 1 }}>
+                  <label style={{
+                    display: 'block',
+                    fontSize: '12px',
+                    fontWeight: '500',
+                    marginBottom: '6px',
+                    color: '#ccc'
+                  }}>
+                    Language
+                  </label>
+                  <select
+                    value={localSettings.transcriptionLanguage}
+                    onChange={(e) => handleSettingChange('transcriptionLanguage', e.target.value)}
+                    style={{
+                      width: '100%',
+                      padding: '10px 14px',
+                      background: '#333',
+                      border: '1px solid #555',
+                      borderRadius: '6px',
+                      color: '#fff',
+                      fontSize: '13px',
+                      outline: 'none'
+                    }}
+                  >
+                    {TRANSCRIPTION_LANGUAGES.map((language) => (
+                      <option key={language.value} value={language.value}>{language.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {localSettings.transcriptionProvider === 'deepgram' && (
+                  <div style={{ flex: 1 }}>
+                    <label style={{
+                      display: 'block',
+                      fontSize: '12px',
+                      fontWeight: '500',
+                      marginBottom: '6px',
+                      color: '#ccc'
+                    }}>
+                      Model
+                    </label>
+                    <select
+                      value={localSettings.transcriptionModel}
+                      onChange={(e) => handleSettingChange('transcriptionModel', e.target.value)}
+                      style={{
+                        width: '100%',
+                        padding: '10px 14px',
+                        background: '#333',
+                        border: '1px solid #555',
+                        borderRadius: '6px',
+                        color: '#fff',
+                        fontSize: '13px',
+                        outline: 'none'
+                      }}
+                    >
+                      {TRANSCRIPTION_MODELS.map((model) => (
+                        <option key={model.value} value={model.value}>{model.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label style={{
+                  display: 'block',
+                  fontSize: '12px',
+                  fontWeight: '500',
+                  marginBottom: '6px',
+                  color: '#ccc'
+                }}>
+                  Custom Vocabulary
+                </label>
+                <textarea
+                  value={localSettings.customVocabulary.join('\n')}
+                  onChange={(e) => handleSettingChange('customVocabulary', e.target.value.split('\n'))}
+                  placeholder={'Pinecone:2\nRAG\nAcme Insurance'}
+                  rows={4}
+                  style={{
+                    width: '100%',
+                    padding: '10px 14px',
+                    background: '#333',
+                    border: '1px solid #555',
+                    borderRadius: '6px',
+                    color: '#fff',
+                    fontSize: '13px',
+                    outline: 'none',
+                    resize: 'vertical',
+                    fontFamily: 'inherit'
+                  }}
+                />
+                <p style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>
+                  One term per line (product, client and tech names). Add :1-5 to boost a term on Nova-2 models.
                 </p>
               </div>
+
+              <label style={{
+                display: 'flex',
+                alignItems: 'flex-start',
+                gap: '8px',
+                fontSize: '12px',
+                color: '#ccc',
+                cursor: 'pointer'
+              }}>
+                <input
+                  type="checkbox"
+                  checked={localSettings.multichannelTranscription}
+                  onChange={(e) => handleSettingChange('multichannelTranscription', e.target.checked)}
+                />
+                <span>
+                  Two-channel transcription (mic vs. system audio)
+                  <span style={{ display: 'block', fontSize: '11px', color: '#666', marginTop: '2px' }}>
+                    Tags every line as rep or prospect. You'll be asked to share system audio when recording starts.
+                  </span>
+                </span>
+              </label>
+
+              <label style={{
+                display: 'flex',
+                alignItems: 'flex-start',
+                gap: '8px',
+                fontSize: '12px',
+                color: '#ccc',
+                cursor: 'pointer'
+              }}>
+                <input
+                  type="checkbox"
+                  checked={localSettings.recordSessionAudio}
+                  onChange={(e) => handleSettingChange('recordSessionAudio', e.target.checked)}
+                />
+                <span>
+                  Record session audio on this computer
+                  <span style={{ display: 'block', fontSize: '11px', color: '#666', marginTop: '2px' }}>
+                    Saves a WAV copy of each call for playback in session history. Make sure the other party has consented.
+                  </span>
+                </span>
+              </label>
+
+              <label style={{
+                display: 'flex',
+                alignItems: 'flex-start',
+                gap: '8px',
+                fontSize: '12px',
+                color: '#ccc',
+                cursor: 'pointer'
+              }}>
+                <input
+                  type="checkbox"
+                  checked={localSettings.silenceGating}
+                  onChange={(e) => handleSettingChange('silenceGating', e.target.checked)}
+                />
+                <span>
+                  Skip silence
+                  <span style={{ display: 'block', fontSize: '11px', color: '#666', marginTop: '2px' }}>
+                    Only streams audio while someone is speaking, cutting transcription cost during hold music or mute.
+                  </span>
+                </span>
+              </label>
+            </div>
+          </section>
+
+          {/* Audio Devices */}
+          <section>
+            <h4 style={{
+              fontSize: '14px',
+              fontWeight: '600',
+              marginBottom: '16px',
+              color: '#fff',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px'
+            }}>
+              🎧 Audio Devices & Processing
+            </h4>
+
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+              <div>
+                <label style={{
+                  display: 'block',
+                  fontSize: '12px',
+                  fontWeight: '500',
+                  marginBottom: '6px',
+                  color: '#ccc'
+                }}>
+                  Microphone
+                </label>
+                <AudioDeviceSelect
+                  type="microphone"
+                  value={localSettings.audioInputDeviceId}
+                  onChange={(id) => handleSettingChange('audioInputDeviceId', id)}
+                  style={{
+                    width: '100%',
+                    padding: '10px 14px',
+                    background: '#333',
+                    border: '1px solid #555',
+                    borderRadius: '6px',
+                    color: '#fff',
+                    fontSize: '13px',
+                    outline: 'none'
+                  }}
+                />
+                <p style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>
+                  Switches live during a call. If this device is unplugged, recording continues on the system default.
+                </p>
+              </div>
+
+              <div>
+                <label style={{
+                  display: 'block',
+                  fontSize: '12px',
+                  fontWeight: '500',
+                  marginBottom: '6px',
+                  color: '#ccc'
+                }}>
+                  System audio source
+                </label>
+                <AudioDeviceSelect
+                  type="system"
+                  value={localSettings.systemAudioSourceId}
+                  onChange={(id) => handleSettingChange('systemAudioSourceId', id)}
+                  style={{
+                    width: '100%',
+                    padding: '10px 14px',
+                    background: '#333',
+                    border: '1px solid #555',
+                    borderRadius: '6px',
+                    color: '#fff',
+                    fontSize: '13px',
+                    outline: 'none'
+                  }}
+                />
+                <p style={{ fontSize: '11px', color: '#666', marginTop: '4px' }}>
+                  Used for two-channel transcription on Windows/Linux; takes effect the next time recording starts
+                </p>
+              </div>
+
+              {([
+                { key: 'microphoneGain', label: 'Microphone gain' },
+                { key: 'systemAudioGain', label: 'System audio gain' }
+              ] as const).map(({ key, label }) => (
+                <div key={key}>
+                  <label style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    fontSize: '12px',
+                    fontWeight: '500',
+                    marginBottom: '6px',
+                    color: '#ccc'
+                  }}>
+                    <span>{label}</span>
+                    <span style={{ color: '#888' }}>{Math.round(localSettings[key] * 100)}%</span>
+                  </label>
+                  <input
+                    type="range"
+                    min={0}
+                    max={2}
+                    step={0.05}
+                    value={localSettings[key]}
+                    onChange={(e) => handleSettingChange(key, parseFloat(e.target.value))}
+                    style={{ width: '100%' }}
+                  />
+                </div>
+              ))}
+
+              {([
+                { key: 'echoCancellation', label: 'Echo cancellation', hint: 'Keeps speakerphone audio from being transcribed a second time through the mic.' },
+                { key: 'noiseSuppression', label: 'Noise suppression', hint: 'Filters steady background noise such as fans or typing.' },
+                { key: 'autoGainControl', label: 'Automatic gain control', hint: 'Evens out the mic level; turn off if you set the gain manually.' },
+                { key: 'duckSystemAudio', label: 'Lower system audio while you speak', hint: 'Ducks the prospect side whenever your mic picks up speech.' }
+              ] as const).map(({ key, label, hint }) => (
+                <label key={key} style={{
+                  display: 'flex',
+                  alignItems: 'flex-start',
+                  gap: '8px',
+                  fontSize: '12px',
+                  color: '#ccc',
+                  cursor: 'pointer'
+                }}>
+                  <input
+                    type="checkbox"
+                    checked={localSettings[key]}
+                    onChange={(e) => handleSettingChange(key, e.target.checked)}
+                  />
+                  <span>
+                    {label}
+                    <span style={{ display: 'block', fontSize: '11px', color: '#666', marginTop: '2px' }}>
+                      {hint}
+                    </span>
+                  </span>
+                </label>
+              ))}
             </div>
           </section>
 
@@ -357,6 +1053,24 @@ const SettingsPanel: React.FC = () => {
                   label: 'Auto AI Suggestions',
                   description: 'Generate contextual suggestions during conversations',
                   icon: '💡'
+                },
+                {
+                  key: 'objectionDetection' as const,
+                  label: 'Objection Detection',
+                  description: 'Show a rebuttal card when the prospect raises an objection (with one audio channel, Speaker 1 counts as you unless you rename another speaker "Rep")',
+                  icon: '🛡️'
+                },
+                {
+                  key: 'sentimentTracking' as const,
+                  label: 'Sentiment Tracking',
+                  description: 'Score sentiment and engagement of each line for the session timeline',
+                  icon: '📈'
+                },
+                {
+                  key: 'playbookSuggestions' as const,
+                  label: 'Playbook Suggestions',
+                  description: 'Show matching knowledge base content when the prospect brings up a topic',
+                  icon: '📚'
                 }
               ].map((setting) => (
                 <div
@@ -426,9 +1140,133 @@ const SettingsPanel: React.FC = () => {
                   </label>
                 </div>
               ))}
+
+              <div style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                padding: '12px 16px',
+                background: 'rgba(45, 45, 45, 0.6)',
+                border: '1px solid #333',
+                borderRadius: '8px'
+              }}>
+                <div style={{ flex: 1 }}>
+                  <div style={{
+                    fontSize: '13px',
+                    fontWeight: '500',
+                    color: '#fff',
+                    marginBottom: '4px',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px'
+                  }}>
+                    📋 Live Call Summary
+                  </div>
+                  <div style={{ fontSize: '11px', color: '#888' }}>
+                    Keeps a running summary of facts, pains, budget, timeline and stakeholders
+                  </div>
+                </div>
+                <select
+                  value={localSettings.liveSummaryInterval}
+                  onChange={(e) => handleSettingChange('liveSummaryInterval', parseInt(e.target.value, 10))}
+                  style={{
+                    marginLeft: '16px',
+                    padding: '6px 8px',
+                    background: '#333',
+                    border: '1px solid #555',
+                    borderRadius: '6px',
+                    color: '#fff',
+                    fontSize: '12px',
+                    outline: 'none'
+                  }}
+                >
+                  <option value={0}>Off</option>
+                  {[5, 8, 12, 20].map((interval) => (
+                    <option key={interval} value={interval}>Every {interval} lines</option>
+                  ))}
+                </select>
+              </div>
+
+              <div style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                padding: '12px 16px',
+                background: 'rgba(45, 45, 45, 0.6)',
+                border: '1px solid #333',
+                borderRadius: '8px'
+              }}>
+                <div style={{ flex: 1 }}>
+                  <div style={{
+                    fontSize: '13px',
+                    fontWeight: '500',
+                    color: '#fff',
+                    marginBottom: '4px',
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '8px'
+                  }}>
+                    🎯 Qualification Framework
+                  </div>
+                  <div style={{ fontSize: '11px', color: '#888' }}>
+                    Fills in a scorecard from the call and lists the questions not yet asked
+                  </div>
+                </div>
+                <select
+                  value={localSettings.qualificationFramework}
+                  onChange={(e) => handleSettingChange('qualificationFramework', e.target.value as QualificationFrameworkId | 'none')}
+                  style={{
+                    marginLeft: '16px',
+                    padding: '6px 8px',
+                    background: '#333',
+                    border: '1px solid #555',
+                    borderRadius: '6px',
+                    color: '#fff',
+                    fontSize: '12px',
+                    outline: 'none'
+                  }}
+                >
+                  <option value="none">Off</option>
+                  {(Object.keys(QUALIFICATION_FRAMEWORKS) as QualificationFrameworkId[]).map((framework) => (
+                    <option key={framework} value={framework}>{QUALIFICATION_FRAMEWORKS[framework].label}</option>
+                  ))}
+                </select>
+              </div>
             </div>
           </section>
 
+          {/* Rebuttal Library */}
+          <section>
+            <h4 style={{
+              fontSize: '14px',
+              fontWeight: '600',
+              marginBottom: '16px',
+              color: '#fff',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px'
+            }}>
+              🛡️ Rebuttal Library
+            </h4>
+            <RebuttalLibrary />
+          </section>
+
+          {/* Knowledge Base */}
+          <section>
+            <h4 style={{
+              fontSize: '14px',
+              fontWeight: '600',
+              marginBottom: '16px',
+              color: '#fff',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px'
+            }}>
+              📚 Knowledge Base
+            </h4>
+            <KnowledgeBase />
+          </section>
+
         </div>
       </div>
     </div>
@@ -4,6 +4,12 @@ import { useAppStore } from '../stores/appStore';
 import { resourceManager } from '../services/resourceManager';
 import TranscriptItem from './TranscriptItem';
 
+// Labels for lines tagged by capture channel rather than diarization
+const CHANNEL_SPEAKER_LABELS: Record<string, string> = {
+  user: 'Rep',
+  call: 'Prospect'
+};
+
 const TranscriptPanelOptimized: React.FC = () => {
   // Component ID for resource tracking
   const componentId = useRef(`transcript-panel-${Date.now()}`).current;
@@ -12,6 +18,7 @@ const TranscriptPanelOptimized: React.FC = () => {
   const transcripts = useAppStore((state) => state.transcripts);
   const recording = useAppStore((state) => state.recording);
   const setSelectedContextFromTranscript = useAppStore((state) => state.setSelectedContextFromTranscript);
+  const renameSpeaker = useAppStore((state) => state.renameSpeaker);
   
   // Ref for scrollable container
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -25,6 +32,10 @@ const TranscriptPanelOptimized: React.FC = () => {
   
   // Track selected text for Cmd+D shortcut
   const [highlightedText, setHighlightedText] = useState<string>('');
+
+  // Inline speaker rename state
+  const [editingSpeakerId, setEditingSpeakerId] = useState<number | null>(null);
+  const [speakerDraft, setSpeakerDraft] = useState('');
   
   // Cleanup on unmount
   useEffect(() => {
@@ -114,6 +125,20 @@ const TranscriptPanelOptimized: React.FC = () => {
     });
   }, []);
   
+  // Start renaming a diarized speaker
+  const startSpeakerRename = useCallback((speakerId: number, currentLabel: string) => {
+    setEditingSpeakerId(speakerId);
+    setSpeakerDraft(currentLabel);
+  }, []);
+
+  // Commit the rename to every line from this speaker
+  const commitSpeakerRename = useCallback(() => {
+    if (editingSpeakerId !== null) {
+      renameSpeaker(editingSpeakerId, speakerDraft);
+    }
+    setEditingSpeakerId(null);
+  }, [editingSpeakerId, speakerDraft, renameSpeaker]);
+
   // Clear all selections
   const clearSelection = useCallback(() => {
     setSelectedIds(new Set());
@@ -256,6 +281,16 @@ const TranscriptPanelOptimized: React.FC = () => {
               (index > 0 && 
                 new Date(transcript.timestamp).getTime() - 
                 new Date(filteredTranscripts[index - 1].timestamp).getTime() > 300000);
+
+            // Show the speaker label whenever the diarized speaker (or capture channel) changes
+            const channelLabel = transcript.speakerId === undefined && transcript.speaker
+              ? CHANNEL_SPEAKER_LABELS[transcript.speaker]
+              : undefined;
+            const showSpeaker = (transcript.speakerId !== undefined || !!channelLabel) && (
+              showTimestamp ||
+              filteredTranscripts[index - 1].speakerId !== transcript.speakerId ||
+              filteredTranscripts[index - 1].speaker !== transcript.speaker
+            );
             
             return (
               <React.Fragment key={transcript.id}>
@@ -291,11 +326,65 @@ const TranscriptPanelOptimized: React.FC = () => {
                     }}></div>
                   </div>
                 )}
-                <TranscriptItem
-                  transcript={transcript}
-                  isSelected={isSelected(transcript.id)}
-                  onSelect={handleSelect}
-                />
+                {showSpeaker && (
+                  <div style={{ padding: '8px 16px 0', fontSize: '13px', fontWeight: '600' }}>
+                    {editingSpeakerId === transcript.speakerId ? (
+                      <input
+                        autoFocus
+                        value={speakerDraft}
+                        onChange={(e) => setSpeakerDraft(e.target.value)}
+                        onBlur={commitSpeakerRename}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitSpeakerRename();
+                          if (e.key === 'Escape') setEditingSpeakerId(null);
+                        }}
+                        placeholder="e.g. Sarah – prospect"
+                        style={{
+                          padding: '2px 6px',
+                          background: 'rgba(255, 255, 255, 0.06)',
+                          border: '1px solid #007acc',
+                          borderRadius: '4px',
+                          color: '#dcddde',
+                          fontSize: '13px',
+                          outline: 'none'
+                        }}
+                      />
+                    ) : channelLabel ? (
+                      <span style={{ color: transcript.speaker === 'user' ? '#43b581' : '#faa61a' }}>
+                        {channelLabel}
+                      </span>
+                    ) : (
+                      <span
+                        onClick={() => startSpeakerRename(transcript.speakerId!, transcript.speaker || '')}
+                        title='Click to rename speaker (Speaker 1 counts as you unless another speaker is renamed "Rep"; everyone else counts as the prospect)'
+                        style={{ color: '#7289da', cursor: 'pointer' }}
+                      >
+                        {transcript.speaker}
+                      </span>
+                    )}
+                  </div>
+                )}
+                {transcript.isGap ? (
+                  <div style={{
+                    margin: '8px 16px',
+                    padding: '6px 12px',
+                    background: 'rgba(240, 71, 71, 0.1)',
+                    border: '1px dashed rgba(240, 71, 71, 0.4)',
+                    borderRadius: '6px',
+                    color: '#f04747',
+                    fontSize: '12px',
+                    textAlign: 'center',
+                    userSelect: 'none'
+                  }}>
+                    ⚠️ {transcript.text}
+                  </div>
+                ) : (
+                  <TranscriptItem
+                    transcript={transcript}
+                    isSelected={isSelected(transcript.id)}
+                    onSelect={handleSelect}
+                  />
+                )}
               </React.Fragment>
             );
           })
@@ -35,14 +35,14 @@ interface ElectronAPI {
   updateSettings: (settings: any) => Promise<any>;
   
   // API Testing
-  testDeepgram: (apiKey: string) => Promise<{ success: boolean; message: string }>;
+  testDeepgram: (apiKey: string, audioData?: ArrayBuffer) => Promise<{ success: boolean; message: string; transcript?: string }>;
   testOpenAI: (apiKey: string) => Promise<{ success: boolean; message: string }>;
   
   // Deepgram
   startDeepgram: (apiKey: string) => Promise<{ success: boolean; error?: string }>;
   stopDeepgram: () => Promise<{ success: boolean }>;
   sendAudioData: (audioData: ArrayBuffer) => Promise<{ success: boolean }>;
-  deepgramStart: (apiKey: string) => Promise<{ success: boolean; error?: string }>;
+  deepgramStart: (apiKey: string, options?: { channels?: number }) => Promise<{ success: boolean; error?: string }>;
   deepgramStop: () => Promise<{ success: boolean }>;
   deepgramSendAudio: (audioData: ArrayBuffer) => Promise<{ success: boolean }>;
   
@@ -52,6 +52,8 @@ interface ElectronAPI {
   
   // Event Listeners
   onTranscript: (callback: (transcript: any) => void) => void;
+  onTranscriptionStopped: (callback: (data: { reason: string }) => void) => void;
+  onAudioLevel: (callback: (data: { level: number; isSpeech: boolean }) => void) => void;
   removeTranscriptListener: (callback: (transcript: any) => void) => void;
   onRecordingStateChanged: (callback: (isRecording: boolean) => void) => void;
   onMenuNewRecording: (callback: () => void) => void;
@@ -1,26 +1,34 @@
 /**
- * Advanced AI Service - OpenAI integration with intelligent analysis
+ * Advanced AI Service - sales assistant prompts and intelligent analysis
  * Enhanced with response type detection, topic analysis, and contextual suggestions
+ * Model calls go through the LLM router, which picks the provider per task.
  */
 
 import { resourceManager } from './resourceManager';
+import { llmRouter } from './llmRouter';
+import { contextBuilder } from './contextBuilder';
+import { KnowledgeMatch, LLMProviderId, Transcript, TranscriptContext } from '../types';
 import logger from '../utils/logger';
 
 interface ChatRequest {
   message: string;
-  context?: string;
+  context?: TranscriptContext;
+  transcripts?: Transcript[]; // Full call transcript; packed or summarized to fit the model
   conversationHistory?: Array<{ role: 'user' | 'assistant'; content: string }>;
 }
 
 interface ChatResponse {
   content: string;
   timestamp: Date;
+  provider: LLMProviderId; // Provider that answered, which may be a fallback
+  model: string;
 }
 
 interface InsightRequest {
   text: string;
   source: string;
   context?: string[];
+  knowledge?: KnowledgeMatch[]; // Playbook excerpts matched to what the prospect said
   metadata?: any;
 }
 
@@ -59,14 +67,9 @@ interface TodoSuggestion {
 }
 
 export class AIService {
-  private apiKey = '';
-  private baseUrl = 'https://api.openai.com/v1';
-  private model = 'gpt-5-nano';
-  private isInitialized = false;
-  private provider: 'openai' | 'groq' = 'openai';
-  
   // Request management
-  private readonly REQUEST_TIMEOUT = 30000; // 30 seconds
+  private readonly REQUEST_TIMEOUT = 60000; // Overall cap; the router fails over a model that stalls well before this
+  private readonly CHAT_OUTPUT_TOKENS = 1024; // Reserved in the context window for the answer
   private currentRequests = new Map<string, AbortController>();
   
   // Advanced rate limiting
@@ -78,7 +81,6 @@ export class AIService {
   
   // Context management
   private conversationContext: any[] = [];
-  private maxContextLength = 4000;
   
   // Configuration options
   private options = {
@@ -94,35 +96,11 @@ export class AIService {
   }
 
   /**
-   * Initialize with API key (OpenAI or Groq)
-   */
-  initialize(apiKey: string, model = 'gpt-5-nano'): void {
-    this.apiKey = apiKey;
-    this.model = model;
-    
-    // Detect provider based on model
-    if (model.includes('llama') || model.includes('mixtral') || model.includes('gemma')) {
-      this.provider = 'groq';
-      this.baseUrl = 'https://api.groq.com/openai/v1';
-    } else {
-      this.provider = 'openai';
-      this.baseUrl = 'https://api.openai.com/v1';
-    }
-    
-    this.isInitialized = true;
-    
-    logger.debug(`🔑 ${this.provider.toUpperCase()} API configured with model: ${this.model}`);
-    logger.debug(`🔑 API Key: ${apiKey.substring(0, 10)}... (length: ${apiKey.length})`);
-    logger.debug(`🔑 Base URL: ${this.baseUrl}`);
-    logger.debug(`🔑 Service initialized: ${this.isInitialized}`);
-  }
-
-  /**
-   * Check if service is ready
+   * Check if the chat model has a configured provider
    */
   isReady(): boolean {
-    const ready = this.isInitialized && this.apiKey.length > 0;
-    logger.debug(`🤖 AI Service ready check: ${ready} (initialized: ${this.isInitialized}, keyLength: ${this.apiKey.length})`);
+    const ready = llmRouter.isConfigured('chat');
+    logger.debug(`🤖 AI Service ready check: ${ready}`);
     return ready;
   }
 
@@ -287,170 +265,46 @@ export class AIService {
     }, this.REQUEST_TIMEOUT);
 
     try {
-      logger.debug('💬 Sending chat message to OpenAI...');
-      logger.debug(`📊 Using model: ${this.model}, API Key length: ${this.apiKey.length}`);
-
-      const messages = [
-        {
-          role: 'system' as const,
-          content: `Technical software engineer. 
-                   Be concise. no fluff. Solution-oriented. Helpful. ${request.context ? ` 
-                   Context: ${request.context}` : ''}`
-        },
-        // Add conversation history
-        ...(request.conversationHistory || []),
-        {
-          role: 'user' as const,
-          content: request.message
-        }
-      ];
+      const messages = contextBuilder.build({
+        systemPrompt: this.buildChatSystemPrompt(request.context),
+        message: request.message,
+        transcripts: request.transcripts || [],
+        history: request.conversationHistory || [],
+        model: llmRouter.getModel('chat'),
+        maxOutputTokens: this.CHAT_OUTPUT_TOKENS
+      });
 
-      // Configure request body based on provider
-      const requestBody: any = {
-        model: this.model,
+      let fullContent = '';
+      const response = await llmRouter.complete('chat', {
         messages,
-        stream: true
-      };
-      
-      // Configure parameters based on provider and model
-      if (this.provider === 'groq') {
-        // Groq uses standard OpenAI format
-        requestBody.temperature = 0.7;
-        requestBody.top_p = 1;
-        requestBody.stream = true; // Groq supports streaming
-      } else if (this.model.includes('gpt-5')) {
-        // GPT-5 - no token limit, temperature must be omitted (uses default of 1)
-      } else {
-        // Standard OpenAI models
-        requestBody.temperature = 0.7;
-      }
-      
-      logger.debug('📤 Request body:', JSON.stringify(requestBody, null, 2));
-      
-      let response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json'
+        temperature: 0.7,
+        signal: controller.signal,
+        onChunk: (chunk) => {
+          fullContent += chunk;
+          // Emit partial content for real-time display
+          onPartialContent?.(fullContent);
         },
-        body: JSON.stringify(requestBody),
-        signal: controller.signal // Add abort signal
-      });
-
-      // If streaming fails due to verification, retry without streaming
-      if (!response.ok && requestBody.stream) {
-        const errorBody = await response.text();
-        if (errorBody.includes('verified to stream')) {
-          logger.debug('🔄 Organization not verified for streaming, retrying without stream...');
-          requestBody.stream = false;
-          
-          response = await fetch(`${this.baseUrl}/chat/completions`, {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${this.apiKey}`,
-              'Content-Type': 'application/json'
-            },
-            body: JSON.stringify(requestBody),
-            signal: controller.signal
-          });
-        } else {
-          // Other errors, handle normally
-          logger.error(`OpenAI API error response: ${errorBody}`);
-          try {
-            const errorData = JSON.parse(errorBody);
-            const errorMessage = errorData.error?.message || errorData.message || response.statusText;
-            throw new Error(`OpenAI API error: ${errorMessage}`);
-          } catch {
-            throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
-          }
-        }
-      }
-
-      if (!response.ok) {
-        const errorBody = await response.text();
-        logger.error(`OpenAI API error response: ${errorBody}`);
-        
-        // Parse error if possible
-        try {
-          const errorData = JSON.parse(errorBody);
-          const errorMessage = errorData.error?.message || errorData.message || response.statusText;
-          throw new Error(`OpenAI API error: ${errorMessage}`);
-        } catch {
-          throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
+        onRestart: () => {
+          fullContent = '';
+          onPartialContent?.(fullContent);
         }
-      }
+      });
 
-      // Handle response based on whether streaming is enabled
-      if (requestBody.stream) {
-        // Handle streaming response
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-        let fullContent = '';
-        
-        if (!reader) {
-          throw new Error('Response body is not readable');
-        }
+      logger.debug(`✅ Chat response complete (${response.provider}/${response.model})`);
 
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          
-          const chunk = decoder.decode(value, { stream: true });
-          const lines = chunk.split('\n').filter(line => line.trim() !== '');
-          
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              const data = line.slice(6);
-              if (data === '[DONE]') continue;
-              
-              try {
-                const parsed = JSON.parse(data);
-                const content = parsed.choices?.[0]?.delta?.content;
-                if (content) {
-                  fullContent += content;
-                  // Emit partial content for real-time display
-                  if (onPartialContent) {
-                    onPartialContent(fullContent);
-                  }
-                }
-              } catch (e) {
-                logger.debug('Failed to parse streaming chunk:', data);
-              }
-            }
-          }
-        }
-
-        logger.debug('✅ Streaming response complete');
-        logger.debug('💬 Full content:', fullContent);
-        
-        return {
-          content: fullContent || 'No response generated',
-          timestamp: new Date()
-        };
-      } else {
-        // Handle non-streaming response
-        const text = await response.text();
-        const data = JSON.parse(text);
-        
-        logger.debug('📥 Full API response:', JSON.stringify(data, null, 2));
-        
-        const content = data.choices?.[0]?.message?.content || 'No response generated';
-        
-        logger.debug('✅ OpenAI response received');
-        logger.debug('💬 Content extracted:', content);
-        
-        return {
-          content,
-          timestamp: new Date()
-        };
-      }
+      return {
+        content: response.content || 'No response generated',
+        timestamp: new Date(),
+        provider: response.provider,
+        model: response.model
+      };
     } catch (error: any) {
       if (error.name === 'AbortError') {
         logger.error('⏱️ Request timed out');
         throw new Error('Request timeout - please try again');
       }
       
-      logger.error('❌ OpenAI chat failed:', error);
+      logger.error('❌ AI chat failed:', error);
       logger.error('Error details:', {
         message: error.message,
         name: error.name,
@@ -459,7 +313,7 @@ export class AIService {
       
       // Provide more helpful error messages
       if (error.message?.includes('401')) {
-        throw new Error('Invalid API key. Please check your OpenAI API key in settings.');
+        throw new Error('Invalid API key. Please check the chat provider key in settings.');
       } else if (error.message?.includes('429')) {
         throw new Error('Rate limit exceeded. Please wait a moment and try again.');
       } else if (error.message?.includes('model')) {
@@ -474,6 +328,45 @@ export class AIService {
     }
   }
 
+  /**
+   * Sales assistant system prompt, focused on the selected transcript segment if any
+   */
+  private buildChatSystemPrompt(context?: TranscriptContext): string {
+    let systemPrompt = `You are a helpful AI assistant for sales calls. You help sales professionals analyze conversations, extract insights, and provide actionable recommendations.
+
+Your responses should be:
+- Clear and concise (prefer bullet points)
+- Action-oriented with practical advice
+- Based on the conversation context provided
+- Professional but conversational in tone`;
+
+    // Add selected transcript context (HIGHEST PRIORITY)
+    if (context?.text) {
+      systemPrompt += `\n\n🎯 CURRENT FOCUS SEGMENT`;
+
+      if (context.startTime !== undefined && context.endTime !== undefined) {
+        const startMin = Math.floor(context.startTime / 60);
+        const startSec = Math.floor(context.startTime % 60);
+        const endMin = Math.floor(context.endTime / 60);
+        const endSec = Math.floor(context.endTime % 60);
+
+        systemPrompt += ` (${startMin}:${startSec.toString().padStart(2, '0')} - ${endMin}:${endSec.toString().padStart(2, '0')})`;
+      }
+
+      systemPrompt += `:`;
+
+      if (context.speaker) {
+        systemPrompt += `\nSpeaker: ${context.speaker}`;
+      }
+
+      systemPrompt += `\n"${context.text}"`;
+
+      systemPrompt += `\n\nThe user's question is specifically about this segment. Focus your response on this context.`;
+    }
+
+    return systemPrompt;
+  }
+
   /**
    * Parse large JSON responses progressively to avoid blocking
    */
@@ -507,7 +400,7 @@ export class AIService {
   async generateInsights(request: InsightRequest): Promise<AIInsight[]> {
     logger.debug('🚨 AI SERVICE GENERATE INSIGHTS CALLED 🚨');
     
-    if (!this.isReady()) {
+    if (!llmRouter.isConfigured('insights')) {
       throw new Error('AI service not initialized');
     }
 
@@ -534,7 +427,7 @@ export class AIService {
     } catch (error) {
       logger.error('Failed to generate insights:', error);
       // Fallback to contextual suggestions
-      return this.generateContextualSuggestions(request.text, this.detectTopics(request.text));
+      return this.generateContextualSuggestions(request.text, this.detectTopics(request.text), request.knowledge);
     }
   }
 
@@ -547,7 +440,7 @@ export class AIService {
     topics: DetectedTopic[]
   ): Promise<AIInsight[]> {
     
-    if (!this.isReady()) {
+    if (!llmRouter.isConfigured('insights')) {
       logger.warn('⚠️ AI service not ready, using fallback insights');
       return this.generateFallbackInsights(request);
     }
@@ -559,6 +452,7 @@ export class AIService {
 
 Conversation: "${request.text}"
 ${request.context ? `Previous context: ${request.context.slice(-2).join(' ')}` : ''}
+${request.knowledge?.length ? `Our own playbook material related to this (prefer it over generic advice and name it):\n${request.knowledge.map(k => `- ${k.title}: ${k.text}`).join('\n')}` : ''}
 
 FOCUS ON:
 - Business requirements, project details, technical specifications
@@ -589,31 +483,13 @@ Respond with ONLY a JSON array:
 
 If no business-relevant insights found, respond with: []`;
 
-      logger.debug('🌐 Making OpenAI API request for insights...');
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: this.model,
-          messages: [{ role: 'user', content: prompt }],
-          max_tokens: 800,
-          temperature: 0.3,
-          stream: false
-        })
+      logger.debug('🌐 Requesting insights...');
+      const response = await llmRouter.complete('insights', {
+        messages: [{ role: 'user', content: prompt }],
+        maxTokens: 800,
+        temperature: 0.3
       });
-
-      logger.debug('🌐 OpenAI response status:', response.status);
-      if (!response.ok) {
-        const errorText = await response.text();
-        logger.error('❌ OpenAI API error response:', errorText);
-        throw new Error(`OpenAI API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const content = data.choices?.[0]?.message?.content?.trim() || '[]';
+      const content = response.content.trim() || '[]';
 
       try {
         // Parse JSON response
@@ -634,8 +510,20 @@ If no business-relevant insights found, respond with: []`;
 
   /**
    * Generate contextual suggestions based on detected topics (fallback system)
+   * Matching playbook content comes first; the canned topic tips only cover calls without any.
    */
-  private generateContextualSuggestions(transcript: string, topics: DetectedTopic[]): AIInsight[] {
+  private generateContextualSuggestions(transcript: string, topics: DetectedTopic[], knowledge: KnowledgeMatch[] = []): AIInsight[] {
+    if (knowledge.length > 0) {
+      return knowledge.slice(0, 2).map(match => ({
+        title: match.title,
+        content: match.text,
+        category: 'solution' as const,
+        confidence: match.score,
+        relevance: match.score,
+        type: 'template' as const
+      }));
+    }
+
     const suggestions: AIInsight[] = [];
     const lowerTranscript = transcript.toLowerCase();
     
@@ -731,11 +619,11 @@ If no business-relevant insights found, respond with: []`;
     logger.debug('🚨 AI SERVICE DETECT TODOS CALLED 🚨');
     logger.debug('📋 detectTodos called with text length:', text.length);
     logger.debug('📋 AI service status:', {
-      isReady: this.isReady(),
-      apiKey: this.apiKey ? this.apiKey.substring(0, 10) + '...' : 'NO KEY'
+      isReady: llmRouter.isConfigured('todos'),
+      model: llmRouter.getModel('todos')
     });
     
-    if (!this.isReady()) {
+    if (!llmRouter.isConfigured('todos')) {
       logger.warn('⚠️ AI service not ready, using fallback todo detection');
       return this.detectFallbackTodos(text);
     }
@@ -763,31 +651,13 @@ Respond with ONLY a JSON array (no markdown):
 
 If no todos found, respond with: []`;
 
-      logger.debug('🌐 Making OpenAI API request for todos...');
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: this.model,
-          messages: [{ role: 'user', content: prompt }],
-          max_tokens: 600,
-          temperature: 0.2,
-          stream: false
-        })
+      logger.debug('🌐 Requesting todos...');
+      const response = await llmRouter.complete('todos', {
+        messages: [{ role: 'user', content: prompt }],
+        maxTokens: 600,
+        temperature: 0.2
       });
-
-      logger.debug('🌐 OpenAI response status:', response.status);
-      if (!response.ok) {
-        const errorText = await response.text();
-        logger.error('❌ OpenAI API error response:', errorText);
-        throw new Error(`OpenAI API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-      const content = data.choices?.[0]?.message?.content?.trim() || '[]';
+      const content = response.content.trim() || '[]';
 
       try {
         const todos: TodoSuggestion[] = JSON.parse(content);
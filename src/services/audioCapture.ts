@@ -1,4 +1,5 @@
 import logger from '../utils/logger';
+import { PcmCapture, TARGET_SAMPLE_RATE } from './audioWorkletCapture';
 
 /**
  * Audio Capture Service - WebAudio API implementation
@@ -8,10 +9,9 @@ import logger from '../utils/logger';
 export class AudioCaptureService {
   private mediaStream: MediaStream | null = null;
   private audioContext: AudioContext | null = null;
-  private audioProcessor: ScriptProcessorNode | null = null;
+  private pcmCapture: PcmCapture | null = null;
   private isCapturing = false;
-  private readonly bufferSize = 4096;
-  private readonly sampleRate = 16000;
+  private readonly sampleRate = TARGET_SAMPLE_RATE;
   
   // Event callbacks
   private onAudioDataCallback?: (audioData: ArrayBuffer) => void;
@@ -44,48 +44,31 @@ export class AudioCaptureService {
         }
       });
 
-      // Create audio context with the desired sample rate
-      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
-        sampleRate: this.sampleRate
-      });
+      // Native rate context; the worklet resamples to 16kHz
+      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
 
       // Create media stream source
       const source = this.audioContext.createMediaStreamSource(this.mediaStream);
 
-      // Create script processor for real-time audio processing
-      this.audioProcessor = this.audioContext.createScriptProcessor(
-        this.bufferSize, 
-        1, // 1 input channel
-        1  // 1 output channel
-      );
-
-      // Process audio data in real-time
-      this.audioProcessor.onaudioprocess = (audioProcessingEvent) => {
+      // Linear16 chunks arrive from the audio thread
+      this.pcmCapture = new PcmCapture((audioData) => {
         if (!this.isCapturing) return;
 
-        const inputBuffer = audioProcessingEvent.inputBuffer;
-        const inputData = inputBuffer.getChannelData(0);
-        
-        // Convert Float32Array to Int16Array for Deepgram
-        const int16Buffer = this.convertFloat32ToInt16(inputData);
-        
-        // Send audio data via callback
         if (this.onAudioDataCallback) {
-          this.onAudioDataCallback(int16Buffer.buffer as ArrayBuffer);
+          this.onAudioDataCallback(audioData);
         }
-      };
-
-      // Connect the audio nodes
-      source.connect(this.audioProcessor);
-      this.audioProcessor.connect(this.audioContext.destination);
+      });
 
       this.isCapturing = true;
+      await this.pcmCapture.connect(this.audioContext, source);
+
       logger.debug('✅ Audio capture started successfully');
-      logger.debug(`📊 Audio config: ${this.sampleRate}Hz, ${this.bufferSize} buffer, 1 channel`);
+      logger.debug(`📊 Audio config: ${this.sampleRate}Hz, 1 channel`);
       
       return true;
     } catch (error) {
       logger.error('❌ Failed to start audio capture:', error);
+      this.isCapturing = false;
       this.cleanup();
       
       if (this.onErrorCallback) {
@@ -164,11 +147,10 @@ export class AudioCaptureService {
    * Clean up resources
    */
   private cleanup(): void {
-    // Disconnect and clear audio processor
-    if (this.audioProcessor) {
-      this.audioProcessor.disconnect();
-      this.audioProcessor.onaudioprocess = null;
-      this.audioProcessor = null;
+    // Disconnect the capture worklet
+    if (this.pcmCapture) {
+      this.pcmCapture.disconnect();
+      this.pcmCapture = null;
     }
 
     // Close audio context
@@ -186,23 +168,6 @@ export class AudioCaptureService {
       this.mediaStream = null;
     }
   }
-
-  /**
-   * Convert Float32Array to Int16Array for Deepgram
-   */
-  private convertFloat32ToInt16(float32Array: Float32Array): Int16Array {
-    const int16Array = new Int16Array(float32Array.length);
-    
-    for (let i = 0; i < float32Array.length; i++) {
-      // Clamp values to [-1, 1] range
-      const sample = Math.max(-1, Math.min(1, float32Array[i]));
-      
-      // Convert to 16-bit signed integer
-      int16Array[i] = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
-    }
-    
-    return int16Array;
-  }
 }
 
 // Export singleton instance
@@ -0,0 +1,147 @@
+import logger from '../utils/logger';
+import { PcmCapture, TARGET_SAMPLE_RATE } from './audioWorkletCapture';
+import { nativeAudioCaptureService } from './nativeAudioCapture';
+import { AudioProcessingSettings } from '../types';
+
+/**
+ * Audio Check Service - pre-call diagnostics
+ * Each step of the audio check wizard runs in isolation from the live capture
+ * pipeline, so permission or device problems surface before the call starts.
+ */
+
+export interface AudioSample {
+  pcm: ArrayBuffer; // 16kHz mono linear16
+  peakLevel: number; // Highest RMS level seen across chunks
+}
+
+const TEST_TONE_HZ = 440;
+const TEST_TONE_GAIN = 0.2;
+
+export class AudioCheckService {
+  /**
+   * Check microphone permission, prompting for it if it has not been granted
+   */
+  async ensurePermissions(): Promise<{ microphone: boolean; systemAudio: boolean }> {
+    const permissions = await nativeAudioCaptureService.checkPermissions();
+    if (permissions.microphone) {
+      return permissions;
+    }
+
+    logger.debug('🔐 Microphone permission missing - requesting...');
+    return nativeAudioCaptureService.requestPermissions();
+  }
+
+  /**
+   * Play a sine tone through the default output device
+   */
+  async playTestTone(durationMs: number): Promise<void> {
+    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+
+    oscillator.frequency.value = TEST_TONE_HZ;
+    gain.gain.value = TEST_TONE_GAIN;
+    oscillator.connect(gain);
+    gain.connect(audioContext.destination);
+
+    oscillator.start();
+    await new Promise(resolve => setTimeout(resolve, durationMs));
+    oscillator.stop();
+    await audioContext.close();
+  }
+
+  /**
+   * Record from a microphone (the saved preference, or the system default)
+   * Uses the same echo/noise constraints as a live call
+   */
+  async recordMicrophone(
+    durationMs: number,
+    deviceId: string,
+    processing: AudioProcessingSettings,
+    onLevel: (level: number) => void
+  ): Promise<AudioSample> {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        deviceId: deviceId ? { exact: deviceId } : undefined,
+        channelCount: 1,
+        echoCancellation: processing.echoCancellation,
+        noiseSuppression: processing.noiseSuppression,
+        autoGainControl: processing.autoGainControl
+      }
+    });
+
+    return this.recordStream(stream, durationMs, onLevel);
+  }
+
+  /**
+   * Record system audio from a desktop source, or via the screen share prompt
+   */
+  async recordSystemAudio(durationMs: number, sourceId: string, onLevel: (level: number) => void): Promise<AudioSample> {
+    const stream: MediaStream = sourceId
+      ? await (navigator.mediaDevices as any).getUserMedia({
+        audio: { mandatory: { chromeMediaSource: 'desktop', chromeMediaSourceId: sourceId } },
+        video: false
+      })
+      : await navigator.mediaDevices.getDisplayMedia({ audio: true, video: false });
+
+    if (stream.getAudioTracks().length === 0) {
+      stream.getTracks().forEach(track => track.stop());
+      throw new Error('No system audio track - make sure "Share system audio" is checked');
+    }
+
+    return this.recordStream(stream, durationMs, onLevel);
+  }
+
+  /**
+   * Send a recorded sample through the transcription provider and return the text
+   */
+  async transcribeSample(apiKey: string, sample: AudioSample): Promise<{ success: boolean; message: string; transcript?: string }> {
+    if (!window.electronAPI) {
+      return { success: false, message: 'Transcription check is only available in the desktop app' };
+    }
+
+    return window.electronAPI.testDeepgram(apiKey, sample.pcm);
+  }
+
+  /**
+   * Capture a stream through the same worklet as live calls, then release it
+   */
+  private async recordStream(stream: MediaStream, durationMs: number, onLevel: (level: number) => void): Promise<AudioSample> {
+    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const chunks: Int16Array[] = [];
+    let peakLevel = 0;
+
+    const pcmCapture = new PcmCapture((audioData, level) => {
+      chunks.push(new Int16Array(audioData));
+      peakLevel = Math.max(peakLevel, level);
+      onLevel(level);
+    }, { chunkMs: 100 });
+
+    try {
+      if (audioContext.state === 'suspended') {
+        await audioContext.resume();
+      }
+
+      await pcmCapture.connect(audioContext, audioContext.createMediaStreamSource(stream));
+      await new Promise(resolve => setTimeout(resolve, durationMs));
+    } finally {
+      pcmCapture.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+      await audioContext.close();
+    }
+
+    const totalSamples = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const pcm = new Int16Array(totalSamples);
+    let offset = 0;
+    chunks.forEach((chunk) => {
+      pcm.set(chunk, offset);
+      offset += chunk.length;
+    });
+
+    logger.debug(`🧪 Recorded ${(totalSamples / TARGET_SAMPLE_RATE).toFixed(1)}s for audio check, peak level ${peakLevel.toFixed(4)}`);
+    return { pcm: pcm.buffer, peakLevel };
+  }
+}
+
+// Export singleton instance
+export const audioCheckService = new AudioCheckService();
@@ -0,0 +1,156 @@
+import logger from '../utils/logger';
+import { AudioProcessingSettings } from '../types';
+
+/**
+ * AudioWorklet capture core shared by every capture service
+ * Runs on the audio rendering thread: downmixes (or keeps channels separate),
+ * resamples from the context rate to 16kHz and converts to linear16, then posts
+ * fixed-size chunks back to the main thread. Replaces the per-service
+ * ScriptProcessorNode chains, which ran on the UI thread.
+ */
+
+export const TARGET_SAMPLE_RATE = 16000;
+
+export const DEFAULT_AUDIO_PROCESSING: AudioProcessingSettings = {
+  microphoneGain: 1,
+  systemAudioGain: 1,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  duckSystemAudio: false
+};
+
+const PROCESSOR_NAME = 'pcm-capture-processor';
+
+// Box-filter decimator: each output sample averages the input samples in its
+// window, which suppresses aliasing for 48k/44.1k -> 16k without a FIR table.
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { channelCount, targetSampleRate, chunkFrames } = options.processorOptions;
+    this.channelCount = channelCount;
+    this.ratio = Math.max(1, sampleRate / targetSampleRate);
+    this.chunkFrames = chunkFrames;
+    this.sums = new Float32Array(channelCount);
+    this.count = 0;
+    this.position = 0;
+    this.resetChunk();
+  }
+
+  resetChunk() {
+    this.output = new Int16Array(this.chunkFrames * this.channelCount);
+    this.outputFrames = 0;
+    this.sumSquares = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+
+    const frameCount = input[0].length;
+    for (let i = 0; i < frameCount; i++) {
+      for (let c = 0; c < this.channelCount; c++) {
+        this.sums[c] += (input[c] || input[0])[i];
+      }
+      this.count++;
+      this.position++;
+
+      if (this.position >= this.ratio) {
+        this.position -= this.ratio;
+        this.emitFrame();
+      }
+    }
+    return true;
+  }
+
+  emitFrame() {
+    for (let c = 0; c < this.channelCount; c++) {
+      const sample = Math.max(-1, Math.min(1, this.sums[c] / this.count));
+      this.output[this.outputFrames * this.channelCount + c] = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
+      this.sumSquares += sample * sample;
+      this.sums[c] = 0;
+    }
+    this.count = 0;
+    this.outputFrames++;
+
+    if (this.outputFrames === this.chunkFrames) {
+      const level = Math.sqrt(this.sumSquares / this.output.length);
+      this.port.postMessage({ data: this.output.buffer, level }, [this.output.buffer]);
+      this.resetChunk();
+    }
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+export interface PcmCaptureOptions {
+  channelCount?: 1 | 2; // 2 keeps input channels separate, interleaved in each chunk
+  chunkMs?: number;
+}
+
+// addModule only needs to run once per AudioContext
+const registeredContexts = new WeakSet<BaseAudioContext>();
+let processorUrl: string | null = null;
+
+async function registerProcessor(audioContext: BaseAudioContext): Promise<void> {
+  if (registeredContexts.has(audioContext)) return;
+
+  if (!processorUrl) {
+    processorUrl = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  }
+
+  await audioContext.audioWorklet.addModule(processorUrl);
+  registeredContexts.add(audioContext);
+}
+
+export class PcmCapture {
+  private node: AudioWorkletNode | null = null;
+  private readonly channelCount: 1 | 2;
+  private readonly chunkMs: number;
+
+  constructor(
+    private onChunk: (audioData: ArrayBuffer, level: number) => void,
+    options: PcmCaptureOptions = {}
+  ) {
+    this.channelCount = options.channelCount || 1;
+    this.chunkMs = options.chunkMs || 256; // Same cadence as the old 4096-sample buffers
+  }
+
+  /**
+   * Attach the worklet to a source node and start emitting chunks
+   */
+  async connect(audioContext: AudioContext, source: AudioNode): Promise<void> {
+    await registerProcessor(audioContext);
+
+    this.node = new AudioWorkletNode(audioContext, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: this.channelCount,
+      channelCountMode: 'explicit',
+      // Mono lets the browser downmix; stereo keeps mic/system channels apart
+      channelInterpretation: this.channelCount === 1 ? 'speakers' : 'discrete',
+      processorOptions: {
+        channelCount: this.channelCount,
+        targetSampleRate: TARGET_SAMPLE_RATE,
+        chunkFrames: Math.round((TARGET_SAMPLE_RATE * this.chunkMs) / 1000)
+      }
+    });
+
+    this.node.port.onmessage = (event: MessageEvent<{ data: ArrayBuffer; level: number }>) => {
+      this.onChunk(event.data.data, event.data.level);
+    };
+
+    source.connect(this.node);
+    logger.debug(`🎛️ AudioWorklet capture connected: ${audioContext.sampleRate}Hz -> ${TARGET_SAMPLE_RATE}Hz, ${this.channelCount} channel(s)`);
+  }
+
+  disconnect(): void {
+    if (this.node) {
+      this.node.port.onmessage = null;
+      this.node.disconnect();
+      this.node = null;
+    }
+  }
+}
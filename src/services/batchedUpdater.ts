@@ -0,0 +1,78 @@
+import logger from '../utils/logger';
+
+/**
+ * Batched Updater - buffers final transcript lines and hands them over in batches
+ * Used by the live summary and the scorecard, which both send the model their current
+ * state plus the new lines. A failed batch is kept for the next attempt (newest lines
+ * first when over the cap), and repeated failures back off so an outage doesn't turn
+ * every new line into another request.
+ */
+
+// Lines kept waiting at most; older ones are dropped once a provider has been down a while
+const MAX_PENDING_LINES = 40;
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 120000;
+
+/**
+ * Runs one update with a batch of lines; throw to have the lines kept for a retry
+ * isCurrent turns false once the updater is reset, so stale results can be dropped.
+ */
+export type BatchUpdate = (lines: string[], isCurrent: () => boolean) => Promise<void>;
+
+export class BatchedUpdater {
+  private pendingLines: string[] = [];
+  private isUpdating = false;
+  private failures = 0;
+  private retryAt = 0;
+  // Bumped on reset so an update in flight for the previous session is discarded
+  private generation = 0;
+
+  constructor(private readonly label: string, private readonly runUpdate: BatchUpdate) {}
+
+  reset(): void {
+    this.pendingLines = [];
+    this.failures = 0;
+    this.retryAt = 0;
+    this.generation++;
+  }
+
+  /**
+   * Buffer a line and start an update once `batchSize` lines are waiting
+   */
+  add(line: string, batchSize: number): void {
+    this.pendingLines.push(line);
+    if (this.pendingLines.length > MAX_PENDING_LINES) {
+      this.pendingLines = this.pendingLines.slice(-MAX_PENDING_LINES);
+    }
+
+    if (this.pendingLines.length >= batchSize && !this.isUpdating && Date.now() >= this.retryAt) {
+      this.flush();
+    }
+  }
+
+  private async flush(): Promise<void> {
+    const generation = this.generation;
+    const isCurrent = () => generation === this.generation;
+    const lines = this.pendingLines.splice(0);
+    this.isUpdating = true;
+
+    try {
+      await this.runUpdate(lines, isCurrent);
+      if (isCurrent()) {
+        this.failures = 0;
+      }
+    } catch (error) {
+      logger.error(`❌ Failed to update ${this.label}:`, error);
+      if (isCurrent()) {
+        this.failures++;
+        const delay = Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, this.failures - 1), MAX_RETRY_DELAY_MS);
+        this.retryAt = Date.now() + delay;
+        logger.debug(`⏳ Retrying ${this.label} after ${delay}ms`);
+        // Keep the lines for the next attempt so nothing said on the call is skipped
+        this.pendingLines = [...lines, ...this.pendingLines].slice(-MAX_PENDING_LINES);
+      }
+    } finally {
+      this.isUpdating = false;
+    }
+  }
+}
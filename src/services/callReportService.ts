@@ -0,0 +1,272 @@
+import logger from '../utils/logger';
+import { llmRouter, LLMMessage } from './llmRouter';
+import { estimateTokens, formatTranscriptLines, getContextWindow } from './contextBuilder';
+import { JsonSchema, extractJson, validateJsonSchema } from '../utils/jsonSchema';
+import { CallReport, Transcript } from '../types';
+
+/**
+ * Call Report Service - structured post-call report
+ * Long transcripts are map-reduced: each chunk is condensed into notes with the
+ * report's shape, then the notes are merged into the final report - in groups, level
+ * by level, while they are too long for the model. Every model reply is validated
+ * against the schema and sent back once for repair if invalid.
+ */
+
+type ReportFields = Omit<CallReport, 'sessionId' | 'model' | 'createdAt'>;
+
+/** Notes covering parts `first` to `last` of the call */
+interface PartNotes {
+  first: number;
+  last: number;
+  notes: ReportFields;
+}
+
+// Transcript per map request; leaves room for the prompt and the notes in small windows
+const MAP_CHUNK_TOKENS = 3000;
+const REPORT_MAX_TOKENS = 1500;
+const MAX_ATTEMPTS = 2;
+
+const DATE_PATTERN = '^\\d{4}-\\d{2}-\\d{2}$';
+
+const stringList: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const NOTES_PROPERTIES: Record<string, JsonSchema> = {
+  summary: { type: 'string', description: 'What the call covered and where it landed, 2-4 sentences' },
+  decisions: { ...stringList, description: 'Things both sides agreed on' },
+  objections: {
+    type: 'array',
+    items: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['objection', 'response', 'resolved'],
+      properties: {
+        objection: { type: 'string' },
+        response: { type: 'string', description: 'How the rep answered, empty if unanswered' },
+        resolved: { type: 'boolean' }
+      }
+    }
+  },
+  nextSteps: {
+    type: 'array',
+    items: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['action', 'owner', 'dueDate'],
+      properties: {
+        action: { type: 'string' },
+        owner: { type: 'string', description: 'rep, prospect or a name' },
+        dueDate: { type: ['string', 'null'], pattern: DATE_PATTERN }
+      }
+    }
+  },
+  risks: { ...stringList, description: 'Threats to the deal: competitors, budget, timing, missing stakeholders' },
+  followUpDate: { type: ['string', 'null'], pattern: DATE_PATTERN, description: 'Agreed follow-up date, YYYY-MM-DD' }
+};
+
+const CHUNK_NOTES_SCHEMA: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: Object.keys(NOTES_PROPERTIES),
+  properties: NOTES_PROPERTIES
+};
+
+export const CALL_REPORT_SCHEMA: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['title', ...Object.keys(NOTES_PROPERTIES)],
+  properties: {
+    title: { type: 'string', description: '10-15 words on what the call was about' },
+    ...NOTES_PROPERTIES
+  }
+};
+
+// Instructions and schema around the notes in a reduce request
+const REDUCE_PROMPT_TOKENS = estimateTokens(JSON.stringify(CALL_REPORT_SCHEMA)) + 200;
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatPartNotes = (part: PartNotes) =>
+  `Notes for ${part.first === part.last ? `part ${part.first}` : `parts ${part.first}-${part.last}`}:\n${JSON.stringify(part.notes)}`;
+
+/**
+ * Split transcript lines into chunks of roughly `maxTokens`
+ */
+function chunkLines(lines: string[], maxTokens: number): string[][] {
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  lines.forEach((line) => {
+    const lineTokens = estimateTokens(line) + 1;
+    if (current.length > 0 && currentTokens + lineTokens > maxTokens) {
+      chunks.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(line);
+    currentTokens += lineTokens;
+  });
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+export class CallReportService {
+  isReady(): boolean {
+    return llmRouter.isConfigured('summaries');
+  }
+
+  /**
+   * Generate the report from the full transcript of a session
+   */
+  async generateReport(sessionId: string, transcripts: Transcript[], callDate: Date): Promise<CallReport> {
+    const lines = formatTranscriptLines(transcripts);
+    if (lines.length === 0) {
+      throw new Error('No transcript to report on');
+    }
+
+    const chunks = chunkLines(lines, MAP_CHUNK_TOKENS);
+    const dateContext = `The call took place on ${toDateString(callDate)}; resolve relative dates like "next Tuesday" against it.`;
+    logger.debug(`📑 Generating call report from ${lines.length} lines in ${chunks.length} chunk(s)`);
+
+    let source: string;
+    if (chunks.length === 1) {
+      source = `Transcript:\n${chunks[0].join('\n')}`;
+    } else {
+      // Map: condense each part of the call on its own
+      let parts: PartNotes[] = [];
+      for (let i = 0; i < chunks.length; i++) {
+        const { data: chunkNotes } = await this.completeJson<ReportFields>([
+          {
+            role: 'system',
+            content: `You take notes on part ${i + 1} of ${chunks.length} of a sales call transcript. ${dateContext}
+Reply with JSON only, matching this JSON Schema:
+${JSON.stringify(CHUNK_NOTES_SCHEMA)}`
+          },
+          { role: 'user', content: chunks[i].join('\n') }
+        ], CHUNK_NOTES_SCHEMA);
+        parts.push({ first: i + 1, last: i + 1, notes: chunkNotes });
+      }
+
+      // Merge neighbouring notes until they all fit in one reduce request
+      const budget = this.getNotesBudget();
+      while (parts.length > 1 && estimateTokens(parts.map(formatPartNotes).join('\n\n')) > budget) {
+        parts = await this.mergeNotes(parts, chunks.length, budget, dateContext);
+      }
+      source = parts.map(formatPartNotes).join('\n\n');
+    }
+
+    // Reduce: one report for the whole call
+    const { data: report, model } = await this.completeJson<ReportFields>([
+      {
+        role: 'system',
+        content: `You write the post-call report for a sales call. ${dateContext}
+Merge duplicates, keep only what was actually said, and leave lists empty rather than guessing.
+Reply with JSON only, matching this JSON Schema:
+${JSON.stringify(CALL_REPORT_SCHEMA)}`
+      },
+      { role: 'user', content: source }
+    ], CALL_REPORT_SCHEMA);
+
+    return {
+      ...report,
+      sessionId,
+      model,
+      createdAt: new Date()
+    };
+  }
+
+  /**
+   * Room for notes in a reduce request on the summaries model
+   */
+  private getNotesBudget(): number {
+    return getContextWindow(llmRouter.getModel('summaries')) - REPORT_MAX_TOKENS - REDUCE_PROMPT_TOKENS;
+  }
+
+  /**
+   * One reduce level: merge consecutive notes in groups that fit the budget
+   * Groups take at least two notes so every level shrinks the list.
+   */
+  private async mergeNotes(parts: PartNotes[], totalParts: number, budget: number, dateContext: string): Promise<PartNotes[]> {
+    const groups: PartNotes[][] = [];
+    let group: PartNotes[] = [];
+    let groupTokens = 0;
+    parts.forEach((part) => {
+      const partTokens = estimateTokens(formatPartNotes(part)) + 1;
+      if (group.length >= 2 && groupTokens + partTokens > budget) {
+        groups.push(group);
+        group = [];
+        groupTokens = 0;
+      }
+      group.push(part);
+      groupTokens += partTokens;
+    });
+    groups.push(group);
+    logger.debug(`📑 Merging ${parts.length} sets of notes into ${groups.length}`);
+
+    const merged: PartNotes[] = [];
+    for (const g of groups) {
+      const first = g[0].first;
+      const last = g[g.length - 1].last;
+      if (g.length === 1) {
+        merged.push(g[0]);
+        continue;
+      }
+
+      const { data: notes } = await this.completeJson<ReportFields>([
+        {
+          role: 'system',
+          content: `You merge notes on parts ${first}-${last} of ${totalParts} of a sales call into one set of notes. ${dateContext}
+Merge duplicates and keep only what the notes say.
+Reply with JSON only, matching this JSON Schema:
+${JSON.stringify(CHUNK_NOTES_SCHEMA)}`
+        },
+        { role: 'user', content: g.map(formatPartNotes).join('\n\n') }
+      ], CHUNK_NOTES_SCHEMA);
+      merged.push({ first, last, notes });
+    }
+    return merged;
+  }
+
+  /**
+   * Ask for JSON, validate it, and send validation errors back once for a corrected reply
+   */
+  private async completeJson<T>(messages: LLMMessage[], schema: JsonSchema): Promise<{ data: T; model: string }> {
+    const conversation = [...messages];
+    let lastErrors: string[] = [];
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const response = await llmRouter.complete('summaries', {
+        messages: conversation,
+        maxTokens: REPORT_MAX_TOKENS,
+        temperature: 0.2,
+        responseFormat: 'json'
+      });
+
+      let data: unknown;
+      try {
+        data = extractJson(response.content);
+        lastErrors = validateJsonSchema(data, schema);
+      } catch (error) {
+        lastErrors = [error instanceof Error ? error.message : String(error)];
+      }
+
+      if (lastErrors.length === 0) {
+        return { data: data as T, model: `${response.provider}/${response.model}` };
+      }
+
+      logger.warn(`⚠️ Report JSON invalid (attempt ${attempt}):`, lastErrors);
+      conversation.push(
+        { role: 'assistant', content: response.content },
+        { role: 'user', content: `That JSON failed validation:\n${lastErrors.join('\n')}\nReply with the corrected JSON only.` }
+      );
+    }
+
+    throw new Error(`Call report did not match the schema: ${lastErrors.join('; ')}`);
+  }
+}
+
+// Export singleton instance
+export const callReportService = new CallReportService();
@@ -0,0 +1,397 @@
+import logger from '../utils/logger';
+import { AppSettings, AudioProcessingSettings, CaptureMode, CaptureState, CaptureStatus } from '../types';
+import { nativeAudioCaptureService } from './nativeAudioCapture';
+import { dualAudioCaptureService } from './dualAudioCapture';
+import { systemAudioCapture } from './systemAudioCapture';
+import { audioImportService } from './audioImportService';
+import { DEFAULT_AUDIO_PROCESSING } from './audioWorkletCapture';
+
+/**
+ * Capture Manager - single entry point for every audio source
+ * Wraps the microphone, system audio, dual and file import paths behind one
+ * start/stop API and an explicit state machine, so a fallback (e.g. system
+ * audio not shared) shows up as 'degraded' instead of happening silently.
+ */
+
+export interface CaptureStartOptions {
+  mode: CaptureMode;
+  multichannel?: boolean; // 'both' only: mic and system audio as separate channels
+  file?: File; // 'file' only
+  speed?: number; // 'file' only: multiple of real time
+  onProgress?: (progress: number) => void; // 'file' only
+  microphoneDeviceId?: string; // 'mic'/'both': '' or omitted follows the system default
+  systemSourceId?: string; // 'system'/'both': preferred desktop capturer source
+  processing?: AudioProcessingSettings; // 'mic'/'both'
+}
+
+/**
+ * Audio processing subset of the app settings
+ */
+export function getAudioProcessing(settings: AppSettings): AudioProcessingSettings {
+  return {
+    microphoneGain: settings.microphoneGain,
+    systemAudioGain: settings.systemAudioGain,
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+    duckSystemAudio: settings.duckSystemAudio
+  };
+}
+
+const MICROPHONE_LOST_REASON = 'Microphone disconnected - plug in or select another input';
+
+const TRANSITIONS: Record<CaptureState, CaptureState[]> = {
+  // 'stopped' when a start fails before any source opens, e.g. a file that can't be decoded
+  'idle': ['requesting-permission', 'capturing', 'stopped'],
+  'requesting-permission': ['capturing', 'degraded', 'stopped'],
+  'capturing': ['degraded', 'stopped'],
+  'degraded': ['capturing', 'stopped'],
+  'stopped': ['idle', 'requesting-permission', 'capturing']
+};
+
+export class CaptureManager {
+  private status: CaptureStatus = { state: 'idle', mode: null };
+  private fileCancelled = false;
+  private filePlayback: Promise<boolean> | null = null;
+  private microphoneDeviceId = '';
+  private processing: AudioProcessingSettings = DEFAULT_AUDIO_PROCESSING;
+  private switchingMicrophone = false;
+
+  // Event callbacks
+  private onAudioDataCallback?: (audioData: ArrayBuffer) => void;
+  private onStateChangeCallback?: (status: CaptureStatus) => void;
+
+  constructor() {
+    // Every source feeds the same callback, whichever mode is active
+    const forward = (audioData: ArrayBuffer) => this.onAudioDataCallback?.(audioData);
+    nativeAudioCaptureService.setOnAudioData(forward);
+    dualAudioCaptureService.setOnAudioData(forward);
+    systemAudioCapture.setOnAudioData(forward);
+
+    dualAudioCaptureService.setOnSystemAudioLost((reason) => this.reportDegraded(reason));
+
+    this.handleDeviceChange = this.handleDeviceChange.bind(this);
+
+    logger.debug('🎛️ CaptureManager initialized');
+  }
+
+  /**
+   * Set callback for captured linear16 audio
+   */
+  setOnAudioData(callback: (audioData: ArrayBuffer) => void): void {
+    this.onAudioDataCallback = callback;
+  }
+
+  /**
+   * Set callback for state machine changes
+   */
+  setOnStateChange(callback: (status: CaptureStatus) => void): void {
+    this.onStateChangeCallback = callback;
+  }
+
+  getStatus(): CaptureStatus {
+    return this.status;
+  }
+
+  isActive(): boolean {
+    return this.status.state === 'capturing' || this.status.state === 'degraded';
+  }
+
+  /**
+   * Start capturing in the requested mode
+   * Resolves once audio is flowing; throws (leaving the manager 'stopped') if nothing could be captured
+   */
+  async start(options: CaptureStartOptions): Promise<CaptureStatus> {
+    if (this.isActive()) {
+      throw new Error(`Audio capture already running in ${this.status.mode} mode`);
+    }
+
+    this.status = { state: this.status.state, mode: options.mode };
+    this.microphoneDeviceId = options.microphoneDeviceId || '';
+    this.processing = options.processing || DEFAULT_AUDIO_PROCESSING;
+
+    try {
+      switch (options.mode) {
+        case 'mic':
+          await this.startMicrophone();
+          break;
+        case 'system':
+          await this.startSystemAudio(options.systemSourceId);
+          break;
+        case 'both':
+          await this.startBoth(options.multichannel || false, options.systemSourceId);
+          break;
+        case 'file':
+          await this.startFile(options);
+          break;
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.transition('stopped', reason);
+      throw error;
+    }
+
+    if (this.usesMicrophone()) {
+      this.watchMicrophone();
+    }
+
+    return this.status;
+  }
+
+  /**
+   * Stop whichever source is active
+   */
+  async stop(): Promise<void> {
+    if (!this.isActive() && this.status.state !== 'requesting-permission') return;
+
+    const { mode } = this.status;
+    logger.debug(`🛑 Stopping ${mode} capture...`);
+    this.unwatchMicrophone();
+
+    switch (mode) {
+      case 'mic':
+        await nativeAudioCaptureService.stopCapture();
+        break;
+      case 'system':
+        systemAudioCapture.stopCapture();
+        break;
+      case 'both':
+        await dualAudioCaptureService.stopCapture();
+        break;
+      case 'file':
+        this.fileCancelled = true;
+        await this.filePlayback;
+        break;
+    }
+
+    this.transition('stopped');
+  }
+
+  /**
+   * Resolves when a file finishes streaming (true) or is stopped early (false)
+   */
+  async waitUntilFinished(): Promise<boolean> {
+    return this.filePlayback ? this.filePlayback : false;
+  }
+
+  /**
+   * Flag that capture continues with reduced input (e.g. a source was lost)
+   */
+  reportDegraded(reason: string): void {
+    if (this.status.state === 'capturing' || this.status.state === 'degraded') {
+      logger.warn(`⚠️ Audio capture degraded: ${reason}`);
+      this.transition('degraded', reason);
+    }
+  }
+
+  /**
+   * Flag that full capture has been restored
+   */
+  reportRecovered(): void {
+    if (this.status.state === 'degraded') {
+      logger.debug('✅ Audio capture recovered');
+      this.transition('capturing');
+    }
+  }
+
+  /**
+   * Change the preferred microphone, switching the live input if capturing
+   * The session and transcription stream keep running across the swap
+   */
+  async setMicrophone(deviceId: string): Promise<void> {
+    this.microphoneDeviceId = deviceId;
+    if (this.isActive() && this.usesMicrophone()) {
+      await this.switchMicrophone(deviceId);
+    }
+  }
+
+  /**
+   * Update gain, ducking and mic constraints, reopening the mic if constraints changed
+   */
+  async setProcessing(processing: AudioProcessingSettings): Promise<void> {
+    const previous = this.processing;
+    this.processing = processing;
+
+    nativeAudioCaptureService.setProcessing(processing);
+    dualAudioCaptureService.setProcessing(processing);
+
+    const constraintsChanged = previous.echoCancellation !== processing.echoCancellation
+      || previous.noiseSuppression !== processing.noiseSuppression
+      || previous.autoGainControl !== processing.autoGainControl;
+    if (constraintsChanged && this.isActive() && this.usesMicrophone()) {
+      await this.switchMicrophone(this.microphoneDeviceId);
+    }
+  }
+
+  private usesMicrophone(): boolean {
+    return this.status.mode === 'mic' || this.status.mode === 'both';
+  }
+
+  private getMicrophoneTrack(): MediaStreamTrack | null {
+    return this.status.mode === 'both'
+      ? dualAudioCaptureService.getMicrophoneTrack()
+      : nativeAudioCaptureService.getMicrophoneTrack();
+  }
+
+  private watchMicrophone(): void {
+    navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+    this.watchMicrophoneTrack();
+  }
+
+  private unwatchMicrophone(): void {
+    navigator.mediaDevices.removeEventListener('devicechange', this.handleDeviceChange);
+    const track = this.getMicrophoneTrack();
+    if (track) {
+      track.onended = null;
+    }
+  }
+
+  // A pulled headset ends its track, sometimes before devicechange fires
+  private watchMicrophoneTrack(): void {
+    const track = this.getMicrophoneTrack();
+    if (track) {
+      track.onended = () => this.handleDeviceChange();
+    }
+  }
+
+  /**
+   * Follow device changes: fall back when the active mic disappears, return to
+   * the preferred mic when it comes back, and track a new system default
+   */
+  private async handleDeviceChange(): Promise<void> {
+    if (!this.isActive() || !this.usesMicrophone() || this.switchingMicrophone) return;
+
+    const inputs = (await navigator.mediaDevices.enumerateDevices()).filter(device => device.kind === 'audioinput');
+    const target = inputs.find(device => device.deviceId === this.microphoneDeviceId)
+      || inputs.find(device => device.deviceId === 'default')
+      || inputs[0];
+
+    if (!target) {
+      this.reportDegraded(MICROPHONE_LOST_REASON);
+      return;
+    }
+
+    const track = this.getMicrophoneTrack();
+    const current = track && track.readyState === 'live' ? track.getSettings() : null;
+    if (current && current.deviceId === target.deviceId && current.groupId === target.groupId) return;
+
+    logger.debug(`🎧 Audio devices changed - switching microphone to "${target.label || target.deviceId}"`);
+    await this.switchMicrophone(target.deviceId === 'default' ? undefined : target.deviceId);
+  }
+
+  private async switchMicrophone(deviceId?: string): Promise<void> {
+    this.switchingMicrophone = true;
+    this.unwatchMicrophone();
+
+    try {
+      if (this.status.mode === 'both') {
+        await dualAudioCaptureService.switchMicrophone(deviceId || undefined);
+      } else {
+        await nativeAudioCaptureService.switchMicrophone(deviceId || undefined);
+      }
+
+      if (this.status.reason === MICROPHONE_LOST_REASON) {
+        this.reportRecovered();
+      }
+    } catch (error) {
+      logger.error('❌ Failed to switch microphone:', error);
+      this.reportDegraded(MICROPHONE_LOST_REASON);
+    } finally {
+      this.switchingMicrophone = false;
+      if (this.isActive()) {
+        this.watchMicrophone();
+      }
+    }
+  }
+
+  private async startMicrophone(): Promise<void> {
+    this.transition('requesting-permission');
+
+    const started = await nativeAudioCaptureService.startCapture({
+      includeMicrophone: true,
+      includeSystemAudio: false,
+      sampleRate: 16000,
+      bufferSize: 4096,
+      deviceId: this.microphoneDeviceId || undefined,
+      processing: this.processing
+    });
+    if (!started) {
+      throw new Error('Failed to start audio capture - check microphone permissions');
+    }
+
+    this.transition('capturing');
+  }
+
+  private async startSystemAudio(sourceId?: string): Promise<void> {
+    this.transition('requesting-permission');
+
+    const started = await systemAudioCapture.startCapture(sourceId);
+    if (!started) {
+      throw new Error('Failed to capture system audio - check screen recording permissions');
+    }
+
+    this.transition('capturing');
+  }
+
+  private async startBoth(multichannel: boolean, systemSourceId?: string): Promise<void> {
+    this.transition('requesting-permission');
+
+    await dualAudioCaptureService.startCapture({
+      multichannel,
+      microphoneDeviceId: this.microphoneDeviceId || undefined,
+      systemSourceId: systemSourceId || undefined,
+      processing: this.processing
+    });
+    if (!dualAudioCaptureService.isActive()) {
+      throw new Error('Failed to start audio capture - check microphone permissions');
+    }
+
+    if (dualAudioCaptureService.isDualModeActive()) {
+      this.transition('capturing');
+    } else {
+      this.transition('degraded', 'System audio was not shared - capturing microphone only');
+    }
+  }
+
+  private async startFile(options: CaptureStartOptions): Promise<void> {
+    if (!options.file) {
+      throw new Error('No audio file provided');
+    }
+
+    const { pcm, durationSeconds } = await audioImportService.decodeFile(options.file);
+    this.fileCancelled = false;
+    this.transition('capturing');
+    this.status = { ...this.status, durationSeconds };
+
+    this.filePlayback = audioImportService.streamPcm(
+      pcm,
+      (chunk) => this.onAudioDataCallback?.(chunk),
+      {
+        speed: options.speed || 1,
+        onProgress: options.onProgress,
+        shouldCancel: () => this.fileCancelled
+      }
+    ).then((completed) => {
+      if (completed) {
+        this.transition('stopped');
+      }
+      return completed;
+    });
+  }
+
+  private transition(state: CaptureState, reason?: string): void {
+    const from = this.status.state;
+
+    if (from !== state && !TRANSITIONS[from].includes(state)) {
+      logger.warn(`⚠️ Ignoring invalid capture transition: ${from} -> ${state}`);
+      return;
+    }
+
+    this.status = { ...this.status, state, reason };
+    logger.debug(`🎛️ Capture state: ${from} -> ${state}${reason ? ` (${reason})` : ''}`);
+    this.onStateChangeCallback?.(this.status);
+  }
+}
+
+// Export singleton instance
+export const captureManager = new CaptureManager();
@@ -0,0 +1,340 @@
+import logger from '../utils/logger';
+import { llmRouter, LLMMessage } from './llmRouter';
+import { LLMModelSelection, Transcript } from '../types';
+
+/**
+ * Context Builder - packs chat prompts into the model's context window
+ * The system prompt, selected transcript context and the new message always go in;
+ * the rest of the budget is shared between the call transcript and the chat history.
+ * Material that no longer fits is folded into rolling summaries in the background
+ * instead of dropped, so the start of a long call stays available to the assistant.
+ */
+
+export interface ChatContextInput {
+  systemPrompt: string; // Includes any selected transcript segment
+  message: string;
+  transcripts: Transcript[];
+  history: LLMMessage[]; // Oldest first, without the new message
+  model: LLMModelSelection;
+  maxOutputTokens: number;
+}
+
+// Context windows by model name prefix; unknown models get the conservative default
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/^gpt-5/, 400000],
+  [/^gpt-4o/, 128000],
+  [/^claude-/, 200000],
+  [/^llama-3\.[13]/, 131072],
+  [/^gemma2/, 8192]
+];
+const DEFAULT_CONTEXT_WINDOW = 8192;
+// Large windows are capped to keep latency and per-minute token limits in check mid-call
+const MAX_PROMPT_TOKENS = 12000;
+// Share of the free budget reserved for the call transcript; history gets the rest
+const TRANSCRIPT_SHARE = 0.6;
+// Each summary folds at most this much source text per request
+const SUMMARY_CHUNK_TOKENS = 3000;
+const SUMMARY_MAX_TOKENS = 400;
+// Wait this long after a failed fold before trying again
+const FOLD_RETRY_MS = 30000;
+// Room left for the system prompt, question and answer when folding between requests
+const TYPICAL_OVERHEAD_TOKENS = 2000;
+
+/**
+ * Rough token count (1 token ≈ 4 characters of English)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function getContextWindow(model: LLMModelSelection): number {
+  const match = CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model.model));
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Format final transcripts as "Speaker: text" lines
+ */
+export function formatTranscriptLines(transcripts: Transcript[]): string[] {
+  return toSummaryLines(transcripts).map(line => line.text);
+}
+
+/** A line for a rolling summary, keyed so it is recognized across calls */
+interface SummaryLine {
+  key: string;
+  text: string;
+}
+
+function toSummaryLines(transcripts: Transcript[]): SummaryLine[] {
+  return transcripts
+    .filter(t => !t.isInterim && !t.isGap && t.text.trim())
+    .map(t => ({ key: t.id, text: t.speaker ? `${t.speaker}: ${t.text}` : t.text }));
+}
+
+/**
+ * Rolling summary over keyed lines that arrive oldest first
+ * Lines wait in `pending` until a background fold merges the oldest of them into
+ * `summary`; readers only ever see the summary that is ready, never wait for one.
+ */
+class RollingSummary {
+  summary = '';
+  // Unsummarized lines by key, in arrival order
+  private pending = new Map<string, string>();
+  private summarizedKeys = new Set<string>();
+  private targetTokens = Infinity;
+  private isFolding = false;
+  private retryAt = 0;
+  // Bumped on reset so a fold in flight for the previous session is discarded
+  private generation = 0;
+
+  constructor(private readonly label: string) {}
+
+  reset(): void {
+    this.summary = '';
+    this.pending.clear();
+    this.summarizedKeys.clear();
+    this.targetTokens = Infinity;
+    this.retryAt = 0;
+    this.generation++;
+  }
+
+  get summarizedCount(): number {
+    return this.summarizedKeys.size;
+  }
+
+  /**
+   * Add lines, or update the text of ones already pending
+   */
+  add(lines: SummaryLine[]): void {
+    lines.forEach(line => {
+      if (!this.summarizedKeys.has(line.key)) {
+        this.pending.set(line.key, line.text);
+      }
+    });
+  }
+
+  /**
+   * The newest pending lines that fit next to the summary, without calling a model
+   * Older lines that don't fit yet are left out until a fold covers them.
+   */
+  recent(budgetTokens: number): string[] {
+    const available = budgetTokens - estimateTokens(this.summary);
+    const lines = Array.from(this.pending.values());
+    const kept: string[] = [];
+    let used = 0;
+    for (let i = lines.length - 1; i >= 0; i--) {
+      const lineTokens = estimateTokens(lines[i]) + 1;
+      if (used + lineTokens > available) {
+        // A single oversized line is cut rather than sent over budget
+        if (kept.length === 0 && available > 0) kept.unshift(lines[i].slice(-available * 4));
+        break;
+      }
+      kept.unshift(lines[i]);
+      used += lineTokens;
+    }
+    return kept;
+  }
+
+  /**
+   * Fold in the background until the pending lines and summary fit `budgetTokens`
+   */
+  scheduleFold(budgetTokens: number): void {
+    this.targetTokens = budgetTokens;
+    if (this.isFolding || Date.now() < this.retryAt || this.fits()) return;
+
+    this.isFolding = true;
+    this.fold(this.generation).finally(() => {
+      this.isFolding = false;
+    });
+  }
+
+  /**
+   * Tokens for the summary plus every pending line
+   */
+  sizeTokens(): number {
+    return estimateTokens(this.summary) + this.pendingTokens();
+  }
+
+  private pendingTokens(): number {
+    return estimateTokens(Array.from(this.pending.values()).join('\n'));
+  }
+
+  private fits(): boolean {
+    return this.sizeTokens() <= this.targetTokens;
+  }
+
+  private async fold(generation: number): Promise<void> {
+    while (!this.fits() && this.pending.size > 1) {
+      // Fold a chunk from the front, leaving the recent half of the budget verbatim
+      const entries = Array.from(this.pending.entries());
+      const chunk: Array<[string, string]> = [];
+      let chunkTokens = 0;
+      let remainingTokens = this.pendingTokens();
+      while (entries.length - chunk.length > 1 &&
+        chunkTokens < SUMMARY_CHUNK_TOKENS &&
+        remainingTokens > this.targetTokens / 2) {
+        const entry = entries[chunk.length];
+        const lineTokens = estimateTokens(entry[1]) + 1;
+        chunk.push(entry);
+        chunkTokens += lineTokens;
+        remainingTokens -= lineTokens;
+      }
+      if (chunk.length === 0) return;
+
+      const folded = await this.summarize(chunk.map(([, text]) => text));
+      if (generation !== this.generation) return;
+
+      if (folded === undefined) {
+        // Keep the lines and try again once the provider has had time to recover
+        this.retryAt = Date.now() + FOLD_RETRY_MS;
+        return;
+      }
+      if (folded === null) {
+        // No summary model - drop the oldest lines rather than overflow the window
+        logger.warn(`⚠️ Could not summarize ${this.label}, dropping ${chunk.length} oldest lines`);
+      } else {
+        this.summary = folded;
+      }
+      chunk.forEach(([key]) => {
+        this.pending.delete(key);
+        this.summarizedKeys.add(key);
+      });
+    }
+  }
+
+  /**
+   * Merge lines into the summary; null without a summary model, undefined if the call failed
+   */
+  private async summarize(lines: string[]): Promise<string | null | undefined> {
+    if (!llmRouter.isConfigured('summaries')) {
+      return null;
+    }
+
+    try {
+      const response = await llmRouter.complete('summaries', {
+        messages: [
+          {
+            role: 'system',
+            content: `You maintain a running summary of a sales call ${this.label}. Merge the new material into the existing summary. Keep names, numbers, requirements, objections, commitments and open questions. Reply with the updated summary only, under 250 words.`
+          },
+          {
+            role: 'user',
+            content: `Existing summary:\n${this.summary || '(none yet)'}\n\nNew material:\n${lines.join('\n')}`
+          }
+        ],
+        maxTokens: SUMMARY_MAX_TOKENS,
+        temperature: 0.2
+      });
+      logger.debug(`🗜️ Folded ${lines.length} lines into the ${this.label} summary`);
+      return response.content.trim() || this.summary;
+    } catch (error) {
+      logger.error(`❌ Failed to summarize ${this.label}:`, error);
+      return undefined;
+    }
+  }
+}
+
+export class ContextBuilder {
+  private transcriptSummary = new RollingSummary('transcript');
+  private historySummary = new RollingSummary('chat history');
+
+  /**
+   * Forget the summaries when a new session starts
+   */
+  reset(): void {
+    this.transcriptSummary.reset();
+    this.historySummary.reset();
+  }
+
+  /**
+   * Take in a final transcript line as it arrives, folding older lines in the background
+   * so the summary is ready before the rep asks anything.
+   */
+  addTranscript(transcript: Transcript): void {
+    this.transcriptSummary.add(toSummaryLines([transcript]));
+
+    const model = llmRouter.getModel('chat');
+    const budget = Math.min(getContextWindow(model), MAX_PROMPT_TOKENS) - TYPICAL_OVERHEAD_TOKENS;
+    this.transcriptSummary.scheduleFold(Math.floor(budget * TRANSCRIPT_SHARE));
+  }
+
+  /**
+   * Summary of the call transcript that has scrolled out of the verbatim window
+   */
+  getTranscriptSummary(): string {
+    return this.transcriptSummary.summary;
+  }
+
+  /**
+   * Assemble the messages for a chat request within the model's budget
+   * Uses the summaries as they stand; anything over budget is folded afterwards.
+   */
+  build(input: ChatContextInput): LLMMessage[] {
+    const budget = Math.min(getContextWindow(input.model), MAX_PROMPT_TOKENS) - input.maxOutputTokens;
+    const requiredTokens = estimateTokens(input.systemPrompt) + estimateTokens(input.message);
+    const freeTokens = Math.max(0, budget - requiredTokens);
+    if (freeTokens === 0) {
+      logger.warn(`⚠️ Selected context alone fills the ${budget} token budget`);
+    }
+
+    // Lines fed by addTranscript are already there; this catches any that were not
+    const transcriptLines = toSummaryLines(input.transcripts);
+    this.transcriptSummary.add(transcriptLines);
+
+    // Chat history is append-only, so its lines are keyed by position
+    if (input.history.length < this.historySummary.summarizedCount) {
+      // The chat was cleared or replaced
+      this.historySummary.reset();
+    }
+    // History is summarized as role-tagged lines so the summary knows who said what
+    this.historySummary.add(input.history.map((m, i) => ({ key: String(i), text: `${m.role}: ${m.content}` })));
+
+    const transcriptTokens = this.transcriptSummary.sizeTokens();
+    const historyTokens = this.historySummary.sizeTokens();
+
+    // Give each side its share, handing any unused share to the other
+    let transcriptBudget = Math.floor(freeTokens * TRANSCRIPT_SHARE);
+    let historyBudget = freeTokens - transcriptBudget;
+    if (transcriptTokens < transcriptBudget) {
+      historyBudget += transcriptBudget - transcriptTokens;
+      transcriptBudget = transcriptTokens;
+    } else if (historyTokens < historyBudget) {
+      transcriptBudget += historyBudget - historyTokens;
+      historyBudget = historyTokens;
+    }
+
+    const recentTranscript = this.transcriptSummary.recent(transcriptBudget);
+    const recentHistoryLines = this.historySummary.recent(historyBudget);
+    const recentHistory = input.history.slice(input.history.length - recentHistoryLines.length);
+    this.transcriptSummary.scheduleFold(transcriptBudget);
+    this.historySummary.scheduleFold(historyBudget);
+
+    let systemPrompt = input.systemPrompt;
+    if (this.transcriptSummary.summary) {
+      systemPrompt += `\n\nCALL SUMMARY SO FAR (earlier part of the call):\n${this.transcriptSummary.summary}`;
+    }
+    if (recentTranscript.length > 0) {
+      systemPrompt += `\n\nRECENT TRANSCRIPT:\n${recentTranscript.join('\n')}`;
+    }
+    if (this.historySummary.summary) {
+      systemPrompt += `\n\nEARLIER IN THIS CHAT:\n${this.historySummary.summary}`;
+    }
+
+    logger.debug('🧮 Chat context:', {
+      budget,
+      transcriptLines: `${recentTranscript.length}/${transcriptLines.length}`,
+      historyMessages: `${recentHistory.length}/${input.history.length}`,
+      estimatedTokens: estimateTokens(systemPrompt) + estimateTokens(input.message) +
+        recentHistory.reduce((sum, m) => sum + estimateTokens(m.content) + 1, 0)
+    });
+
+    return [
+      { role: 'system', content: systemPrompt },
+      ...recentHistory,
+      { role: 'user', content: input.message }
+    ];
+  }
+}
+
+// Export singleton instance
+export const contextBuilder = new ContextBuilder();
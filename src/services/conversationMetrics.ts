@@ -0,0 +1,180 @@
+import { ConversationMetrics, SpeakerTalkMetrics, Transcript } from '../types';
+import { isRepLine } from '../utils/speakerRoles';
+
+/**
+ * Conversation Metrics - talk time, pace, questions, interruptions and fillers
+ * Lines are folded in one at a time so the live numbers cover the whole call,
+ * even after the store trims old transcripts from memory.
+ */
+
+type MetricsLine = Pick<Transcript, 'text' | 'speaker' | 'speakerId' | 'startOffset' | 'endOffset' | 'words' | 'isGap' | 'isInterim'>;
+
+const CHANNEL_LABELS: Record<string, string> = {
+  user: 'Rep',
+  call: 'Prospect',
+  mixed: 'Mixed audio'
+};
+
+// Pace assumed for lines without timing, roughly 150 words per minute
+const FALLBACK_WORDS_PER_SECOND = 2.5;
+// Overlap below this is crosstalk at the turn boundary, not an interruption
+const INTERRUPTION_TOLERANCE_SECONDS = 0.5;
+
+const FILLER_PATTERN = /\b(u+m+|u+h+|uhm|erm|hmm+|you know|i mean|basically|literally)\b/gi;
+
+interface SpeakerTally extends SpeakerTalkMetrics {
+  key: string;
+  source: Pick<MetricsLine, 'speaker' | 'speakerId'>;
+}
+
+interface Run {
+  key: string;
+  start?: number;
+  end?: number;
+  seconds: number;
+}
+
+const speakerKey = (line: MetricsLine) =>
+  line.speakerId !== undefined ? `speaker:${line.speakerId}` : `channel:${line.speaker || 'user'}`;
+
+const speakerLabel = (line: MetricsLine) =>
+  line.speakerId !== undefined
+    ? line.speaker || `Speaker ${line.speakerId + 1}`
+    : CHANNEL_LABELS[line.speaker || 'user'] || line.speaker || 'Rep';
+
+const lineSeconds = (line: MetricsLine, wordCount: number): number => {
+  if (line.words && line.words.length > 0) {
+    return Math.max(0, line.words[line.words.length - 1].end - line.words[0].start);
+  }
+  if (line.startOffset !== undefined && line.endOffset !== undefined) {
+    return Math.max(0, line.endOffset - line.startOffset);
+  }
+  return wordCount / FALLBACK_WORDS_PER_SECOND;
+};
+
+const perMinute = (words: number, seconds: number) => seconds > 0 ? Math.round(words / (seconds / 60)) : 0;
+
+export class ConversationMetricsTracker {
+  private speakers = new Map<string, SpeakerTally>();
+  private run: Run | null = null;
+  private longestMonologue: { speaker: string; seconds: number } | null = null;
+  private previous: { key: string; endOffset?: number } | null = null;
+
+  reset(): void {
+    this.speakers.clear();
+    this.run = null;
+    this.longestMonologue = null;
+    this.previous = null;
+  }
+
+  /**
+   * Fold in one final transcript line
+   */
+  add(line: MetricsLine): void {
+    if (line.isInterim || line.isGap || !line.text.trim()) return;
+
+    const key = speakerKey(line);
+    const wordCount = line.text.trim().split(/\s+/).length;
+    const seconds = lineSeconds(line, wordCount);
+
+    let tally = this.speakers.get(key);
+    if (!tally) {
+      tally = {
+        key,
+        source: line,
+        speaker: speakerLabel(line),
+        isRep: false,
+        talkSeconds: 0,
+        words: 0,
+        wordsPerMinute: 0,
+        questions: 0,
+        interruptions: 0,
+        fillerWords: 0,
+        longestMonologueSeconds: 0
+      };
+      this.speakers.set(key, tally);
+    }
+
+    // Diarized speakers can be renamed mid-call
+    tally.source = line;
+    tally.speaker = speakerLabel(line);
+    tally.talkSeconds += seconds;
+    tally.words += wordCount;
+    tally.wordsPerMinute = perMinute(tally.words, tally.talkSeconds);
+    tally.questions += (line.text.match(/\?/g) || []).length;
+    tally.fillerWords += (line.text.match(FILLER_PATTERN) || []).length;
+
+    if (
+      this.previous && this.previous.key !== key &&
+      line.startOffset !== undefined && this.previous.endOffset !== undefined &&
+      line.startOffset < this.previous.endOffset - INTERRUPTION_TOLERANCE_SECONDS
+    ) {
+      tally.interruptions++;
+    }
+    this.previous = { key, endOffset: line.endOffset };
+
+    // A monologue runs until someone else speaks, pauses included
+    if (this.run && this.run.key === key) {
+      this.run.seconds = this.run.start !== undefined && line.endOffset !== undefined
+        ? line.endOffset - this.run.start
+        : this.run.seconds + seconds;
+      this.run.end = line.endOffset;
+    } else {
+      this.run = { key, start: line.startOffset, end: line.endOffset, seconds };
+    }
+
+    tally.longestMonologueSeconds = Math.max(tally.longestMonologueSeconds, this.run.seconds);
+    if (!this.longestMonologue || this.run.seconds > this.longestMonologue.seconds) {
+      this.longestMonologue = { speaker: tally.speaker, seconds: this.run.seconds };
+    }
+  }
+
+  getMetrics(): ConversationMetrics {
+    // Roles are settled here since renaming one speaker as the rep changes who the others are
+    const tallies = Array.from(this.speakers.values());
+    const speakerNames: Record<number, string> = {};
+    tallies.forEach(({ source }) => {
+      if (source.speakerId !== undefined && source.speaker) speakerNames[source.speakerId] = source.speaker;
+    });
+
+    const speakers: SpeakerTalkMetrics[] = tallies
+      .map(({ key, source, ...metrics }) => ({ ...metrics, isRep: isRepLine(source, speakerNames) }))
+      .sort((a, b) => b.talkSeconds - a.talkSeconds);
+
+    const rep = speakers.find(s => s.isRep);
+    const totalSeconds = speakers.reduce((sum, s) => sum + s.talkSeconds, 0);
+    const totalWords = speakers.reduce((sum, s) => sum + s.words, 0);
+    const focus = rep ? [rep] : speakers;
+    const focusWords = focus.reduce((sum, s) => sum + s.words, 0);
+
+    return {
+      speakers,
+      repTalkShare: rep && totalSeconds > 0 ? rep.talkSeconds / totalSeconds : null,
+      longestMonologue: this.longestMonologue,
+      wordsPerMinute: rep ? rep.wordsPerMinute : perMinute(totalWords, totalSeconds),
+      questions: focus.reduce((sum, s) => sum + s.questions, 0),
+      interruptions: speakers.reduce((sum, s) => sum + s.interruptions, 0),
+      fillerRate: focusWords > 0 ? (focus.reduce((sum, s) => sum + s.fillerWords, 0) / focusWords) * 100 : 0
+    };
+  }
+}
+
+/**
+ * Metrics for a complete transcript, e.g. a saved session
+ */
+export function computeConversationMetrics(transcripts: Transcript[]): ConversationMetrics {
+  const tracker = new ConversationMetricsTracker();
+  transcripts.forEach(t => tracker.add(t));
+  return tracker.getMetrics();
+}
+
+/**
+ * Format seconds as m:ss
+ */
+export const formatMetricSeconds = (seconds: number): string => {
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${(rounded % 60).toString().padStart(2, '0')}`;
+};
+
+// Export singleton instance for the live session
+export const conversationMetricsTracker = new ConversationMetricsTracker();
@@ -1,4 +1,6 @@
 import logger from '../utils/logger';
+import { PcmCapture, TARGET_SAMPLE_RATE, DEFAULT_AUDIO_PROCESSING } from './audioWorkletCapture';
+import { AudioProcessingSettings } from '../types';
 
 /**
  * Dual Audio Capture - Enhanced for Teams/Video Calls
@@ -10,9 +12,18 @@ interface DualAudioOptions {
   enableSystemAudio: boolean;
   enableMicrophone: boolean;
   sampleRate: number;
-  bufferSize: number;
+  multichannel: boolean; // Send mic and system audio as separate channels instead of mixing
+  microphoneDeviceId?: string; // Omitted follows the system default microphone
+  systemSourceId?: string; // Desktop capturer source; omitted prompts for a screen/tab share
+  processing: AudioProcessingSettings;
 }
 
+// Ducking: system audio drops to this fraction of its gain while the mic is above the speech level
+const DUCK_FACTOR = 0.3;
+const DUCK_SPEECH_LEVEL = 0.02;
+const DUCK_HOLD_MS = 400;
+const DUCK_POLL_MS = 50;
+
 export class DualAudioCaptureService {
   private micStream: MediaStream | null = null;
   private systemStream: MediaStream | null = null;
@@ -21,21 +32,27 @@ export class DualAudioCaptureService {
   private systemSource: MediaStreamAudioSourceNode | null = null;
   private micGainNode: GainNode | null = null;
   private systemGainNode: GainNode | null = null;
-  private processor: ScriptProcessorNode | null = null;
+  private pcmCapture: PcmCapture | null = null;
+  private channelMerger: ChannelMergerNode | null = null;
+  private micAnalyser: AnalyserNode | null = null;
+  private duckingTimer: ReturnType<typeof setInterval> | null = null;
   private isCapturing = false;
   private isDualMode = false;
   
-  private readonly options: DualAudioOptions = {
+  private readonly defaultOptions: DualAudioOptions = {
     enableSystemAudio: true,
     enableMicrophone: true,
-    sampleRate: 16000,
-    bufferSize: 4096
+    sampleRate: TARGET_SAMPLE_RATE,
+    multichannel: false,
+    processing: DEFAULT_AUDIO_PROCESSING
   };
+  private options: DualAudioOptions = { ...this.defaultOptions };
   
   // Event callbacks
   private onAudioDataCallback?: (audioData: ArrayBuffer) => void;
   private onErrorCallback?: (error: Error) => void;
   private onStatusCallback?: (status: string) => void;
+  private onSystemAudioLostCallback?: (reason: string) => void;
 
   constructor() {
     logger.debug('🎙️🔊 DualAudioCaptureService initialized');
@@ -62,19 +79,26 @@ export class DualAudioCaptureService {
     this.onStatusCallback = callback;
   }
 
+  /**
+   * Set callback for when system audio drops out mid-capture
+   */
+  setOnSystemAudioLost(callback: (reason: string) => void): void {
+    this.onSystemAudioLostCallback = callback;
+  }
+
   /**
    * Start dual audio capture (microphone + system audio)
    * This will capture BOTH your voice AND the remote participant's voice
    */
-  async startCapture(): Promise<void> {
+  async startCapture(options: Partial<DualAudioOptions> = {}): Promise<void> {
+    this.options = { ...this.defaultOptions, ...options };
+
     try {
       logger.debug('🚀 Starting dual audio capture...');
       this.onStatusCallback?.('Starting dual audio capture...');
 
-      // Initialize audio context
-      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
-        sampleRate: this.options.sampleRate
-      });
+      // Native rate context; the capture worklet resamples to 16kHz
+      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
 
       if (this.audioContext.state === 'suspended') {
         await this.audioContext.resume();
@@ -89,9 +113,14 @@ export class DualAudioCaptureService {
       }
 
       // Step 3: Create audio processing pipeline
-      this.setupAudioProcessing();
+      if (this.options.multichannel) {
+        await this.setupMultichannelProcessing();
+      } else {
+        await this.setupAudioProcessing();
+      }
 
       this.isCapturing = true;
+      this.startDucking();
       logger.debug('✅ Dual audio capture started successfully!');
       this.onStatusCallback?.(`Capture mode: ${this.isDualMode ? 'Dual (Mic + System)' : 'Microphone only'}`);
       
@@ -107,23 +136,87 @@ export class DualAudioCaptureService {
    */
   private async setupMicrophone(): Promise<void> {
     logger.debug('🎤 Setting up microphone...');
-    
-    this.micStream = await navigator.mediaDevices.getUserMedia({
+
+    this.micStream = await this.openMicrophone(this.options.microphoneDeviceId);
+    logger.debug('✅ Microphone access granted:', this.micStream.getAudioTracks()[0].getSettings());
+  }
+
+  /**
+   * Open a mono microphone stream, optionally from a specific device
+   */
+  private async openMicrophone(deviceId?: string): Promise<MediaStream> {
+    const stream = await navigator.mediaDevices.getUserMedia({
       audio: {
+        deviceId: deviceId ? { exact: deviceId } : undefined,
         channelCount: 1,
         sampleRate: this.options.sampleRate,
-        echoCancellation: true,
-        noiseSuppression: true,
-        autoGainControl: true
+        echoCancellation: this.options.processing.echoCancellation,
+        noiseSuppression: this.options.processing.noiseSuppression,
+        autoGainControl: this.options.processing.autoGainControl
       }
     });
 
-    const micTrack = this.micStream.getAudioTracks()[0];
-    if (!micTrack) {
+    if (!stream.getAudioTracks()[0]) {
       throw new Error('No microphone track available');
     }
 
-    logger.debug('✅ Microphone access granted:', micTrack.getSettings());
+    return stream;
+  }
+
+  /**
+   * Swap the microphone mid-capture without touching system audio
+   * The new source feeds the existing mic gain node, so channel layout and the
+   * outgoing audio stream are unchanged.
+   */
+  async switchMicrophone(deviceId?: string): Promise<void> {
+    if (!this.isCapturing || !this.audioContext || !this.micGainNode) {
+      throw new Error('No audio capture in progress');
+    }
+
+    logger.debug(`🔄 Switching microphone to ${deviceId || 'system default'}...`);
+    const stream = await this.openMicrophone(deviceId);
+    const source = this.audioContext.createMediaStreamSource(stream);
+    source.connect(this.micGainNode);
+
+    if (this.micSource) {
+      this.micSource.disconnect();
+    }
+    if (this.micStream) {
+      this.micStream.getTracks().forEach(track => track.stop());
+    }
+
+    this.micSource = source;
+    this.micStream = stream;
+    this.options.microphoneDeviceId = deviceId;
+    this.onStatusCallback?.('Microphone switched');
+    logger.debug('✅ Microphone switched:', stream.getAudioTracks()[0].label);
+  }
+
+  /**
+   * Apply gain and ducking changes to the running graph
+   * getUserMedia constraints only take effect when the microphone is reopened
+   */
+  setProcessing(processing: AudioProcessingSettings): void {
+    this.options.processing = processing;
+
+    if (this.micGainNode) {
+      this.micGainNode.gain.value = processing.microphoneGain;
+    }
+    if (this.systemGainNode) {
+      this.systemGainNode.gain.value = processing.systemAudioGain;
+    }
+
+    this.stopDucking();
+    if (this.isCapturing) {
+      this.startDucking();
+    }
+  }
+
+  /**
+   * Current microphone track, if capturing
+   */
+  getMicrophoneTrack(): MediaStreamTrack | null {
+    return this.micStream?.getAudioTracks()[0] || null;
   }
 
   /**
@@ -136,18 +229,35 @@ export class DualAudioCaptureService {
     logger.debug('Log:', '⚠️  IMPORTANT: Make sure to check "Share system audio" or "Share tab audio"');
     
     try {
-      // Request system audio through screen capture API
-      // This will prompt user to select audio source
-      this.systemStream = await navigator.mediaDevices.getDisplayMedia({
-        audio: {
-          channelCount: 1,
-          sampleRate: this.options.sampleRate,
-          echoCancellation: false, // Don't cancel echo for system audio
-          noiseSuppression: false,
-          autoGainControl: false
-        },
-        video: false // We only want audio
-      });
+      if (this.options.systemSourceId) {
+        // Preferred source picked in settings: capture it directly without a prompt (Windows/Linux)
+        this.systemStream = await (navigator.mediaDevices as any).getUserMedia({
+          audio: {
+            mandatory: {
+              chromeMediaSource: 'desktop',
+              chromeMediaSourceId: this.options.systemSourceId
+            }
+          },
+          video: false
+        });
+      } else {
+        // Request system audio through screen capture API
+        // This will prompt user to select audio source
+        this.systemStream = await navigator.mediaDevices.getDisplayMedia({
+          audio: {
+            channelCount: 1,
+            sampleRate: this.options.sampleRate,
+            echoCancellation: false, // Don't cancel echo for system audio
+            noiseSuppression: false,
+            autoGainControl: false
+          },
+          video: false // We only want audio
+        });
+      }
+
+      if (!this.systemStream) {
+        throw new Error('No system audio stream');
+      }
 
       const systemTrack = this.systemStream.getAudioTracks()[0];
       if (!systemTrack) {
@@ -162,6 +272,7 @@ export class DualAudioCaptureService {
         logger.debug('⚠️ System audio sharing stopped - switching to microphone only');
         this.isDualMode = false;
         this.onStatusCallback?.('System audio stopped - using microphone only');
+        this.onSystemAudioLostCallback?.('System audio sharing stopped - capturing microphone only');
       };
       
     } catch (error) {
@@ -174,7 +285,7 @@ export class DualAudioCaptureService {
   /**
    * Setup audio processing pipeline
    */
-  private setupAudioProcessing(): void {
+  private async setupAudioProcessing(): Promise<void> {
     if (!this.audioContext) return;
 
     logger.debug('🔧 Setting up audio processing...');
@@ -183,40 +294,24 @@ export class DualAudioCaptureService {
     if (this.micStream) {
       this.micSource = this.audioContext.createMediaStreamSource(this.micStream);
       this.micGainNode = this.audioContext.createGain();
-      this.micGainNode.gain.value = 1.0; // Full volume for microphone
+      this.micGainNode.gain.value = this.options.processing.microphoneGain;
     }
 
     if (this.systemStream && this.isDualMode) {
       this.systemSource = this.audioContext.createMediaStreamSource(this.systemStream);
       this.systemGainNode = this.audioContext.createGain();
-      this.systemGainNode.gain.value = 0.8; // Slightly lower to prevent overpowering
+      this.systemGainNode.gain.value = this.options.processing.systemAudioGain;
     }
 
-    // Create script processor for audio processing
-    this.processor = this.audioContext.createScriptProcessor(
-      this.options.bufferSize,
-      1, // Input channels
-      1  // Output channels
-    );
-
-    // Process audio data
-    this.processor.onaudioprocess = (event) => {
-      const inputBuffer = event.inputBuffer;
-      const channelData = inputBuffer.getChannelData(0);
-      
-      // Convert to ArrayBuffer for sending to transcription
-      const arrayBuffer = new ArrayBuffer(channelData.length * 4);
-      const view = new Float32Array(arrayBuffer);
-      view.set(channelData);
-      
-      this.onAudioDataCallback?.(arrayBuffer);
-    };
+    // Mono linear16 chunks from the capture worklet
+    this.pcmCapture = new PcmCapture((audioData) => {
+      this.onAudioDataCallback?.(audioData);
+    });
+    const mixer = this.audioContext.createGain();
 
     // Connect the audio graph
     if (this.isDualMode) {
       // Dual mode: Mix microphone and system audio
-      const mixer = this.audioContext.createGain();
-      
       if (this.micSource && this.micGainNode) {
         this.micSource.connect(this.micGainNode);
         this.micGainNode.connect(mixer);
@@ -227,19 +322,55 @@ export class DualAudioCaptureService {
         this.systemGainNode.connect(mixer);
       }
       
-      mixer.connect(this.processor);
       logger.debug('🎵 Audio graph connected in dual mode (Mic + System)');
     } else {
       // Microphone only mode
       if (this.micSource && this.micGainNode) {
         this.micSource.connect(this.micGainNode);
-        this.micGainNode.connect(this.processor);
+        this.micGainNode.connect(mixer);
       }
       logger.debug('🎵 Audio graph connected in microphone-only mode');
     }
 
-    // Connect processor to destination (required for processing)
-    this.processor.connect(this.audioContext.destination);
+    await this.pcmCapture.connect(this.audioContext, mixer);
+  }
+
+  /**
+   * Setup two-channel processing pipeline
+   * Microphone goes to channel 0 (rep) and system audio to channel 1 (prospect),
+   * interleaved as stereo linear16 so the transcriber can tag each line by source.
+   * Channel 1 stays silent if system audio was not shared.
+   */
+  private async setupMultichannelProcessing(): Promise<void> {
+    if (!this.audioContext) return;
+
+    logger.debug('🔧 Setting up two-channel audio processing...');
+
+    this.channelMerger = this.audioContext.createChannelMerger(2);
+
+    if (this.micStream) {
+      this.micSource = this.audioContext.createMediaStreamSource(this.micStream);
+      this.micGainNode = this.audioContext.createGain();
+      this.micGainNode.gain.value = this.options.processing.microphoneGain;
+      this.micSource.connect(this.micGainNode);
+      this.micGainNode.connect(this.channelMerger, 0, 0);
+    }
+
+    if (this.systemStream && this.isDualMode) {
+      this.systemSource = this.audioContext.createMediaStreamSource(this.systemStream);
+      this.systemGainNode = this.audioContext.createGain();
+      this.systemGainNode.gain.value = this.options.processing.systemAudioGain;
+      this.systemSource.connect(this.systemGainNode);
+      this.systemGainNode.connect(this.channelMerger, 0, 1);
+    }
+
+    // The worklet keeps both channels and interleaves them as stereo linear16
+    this.pcmCapture = new PcmCapture((audioData) => {
+      this.onAudioDataCallback?.(audioData);
+    }, { channelCount: 2 });
+
+    await this.pcmCapture.connect(this.audioContext, this.channelMerger);
+    logger.debug('🎵 Audio graph connected in two-channel mode (Mic | System)');
   }
 
   /**
@@ -249,6 +380,7 @@ export class DualAudioCaptureService {
     logger.debug('⏹️ Stopping dual audio capture...');
     
     this.isCapturing = false;
+    this.stopDucking();
 
     // Stop all tracks
     if (this.micStream) {
@@ -262,9 +394,14 @@ export class DualAudioCaptureService {
     }
 
     // Disconnect audio nodes
-    if (this.processor) {
-      this.processor.disconnect();
-      this.processor = null;
+    if (this.pcmCapture) {
+      this.pcmCapture.disconnect();
+      this.pcmCapture = null;
+    }
+
+    if (this.channelMerger) {
+      this.channelMerger.disconnect();
+      this.channelMerger = null;
     }
 
     if (this.micSource) {
@@ -298,6 +435,61 @@ export class DualAudioCaptureService {
     this.onStatusCallback?.('Audio capture stopped');
   }
 
+  /**
+   * Watch the mic level and lower system audio while the rep is talking
+   * Keeps the prospect's voice from burying the rep in the mixed stream
+   */
+  private startDucking(): void {
+    const { processing } = this.options;
+    if (!processing.duckSystemAudio || !this.audioContext || !this.micGainNode || !this.systemGainNode) return;
+
+    const audioContext = this.audioContext;
+    const systemGainNode = this.systemGainNode;
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    this.micGainNode.connect(analyser);
+    this.micAnalyser = analyser;
+
+    const samples = new Float32Array(analyser.fftSize);
+    let lastSpeechAt = 0;
+
+    this.duckingTimer = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      let sumSquares = 0;
+      for (let i = 0; i < samples.length; i++) {
+        sumSquares += samples[i] * samples[i];
+      }
+
+      const now = Date.now();
+      if (Math.sqrt(sumSquares / samples.length) >= DUCK_SPEECH_LEVEL) {
+        lastSpeechAt = now;
+      }
+
+      const ducked = now - lastSpeechAt < DUCK_HOLD_MS;
+      const target = processing.systemAudioGain * (ducked ? DUCK_FACTOR : 1);
+      systemGainNode.gain.setTargetAtTime(target, audioContext.currentTime, 0.05);
+    }, DUCK_POLL_MS);
+
+    logger.debug('🔉 System audio ducking enabled');
+  }
+
+  private stopDucking(): void {
+    if (this.duckingTimer) {
+      clearInterval(this.duckingTimer);
+      this.duckingTimer = null;
+    }
+
+    if (this.micAnalyser) {
+      this.micGainNode?.disconnect(this.micAnalyser);
+      this.micAnalyser = null;
+    }
+
+    if (this.systemGainNode && this.audioContext) {
+      this.systemGainNode.gain.cancelScheduledValues(this.audioContext.currentTime);
+      this.systemGainNode.gain.value = this.options.processing.systemAudioGain;
+    }
+  }
+
   /**
    * Check if currently capturing
    */
@@ -1,4 +1,5 @@
 import logger from '../utils/logger';
+import { AppSettings, TranscriptionProviderId, TranscriptWord } from '../types';
 
 /**
  * Electron Transcription Service - Uses main process for WebSocket connection
@@ -9,14 +10,21 @@ interface TranscriptResult {
   text: string;
   timestamp: Date;
   isInterim: boolean;
-  speaker?: 'user' | 'system';
+  speaker?: string;
+  speakerId?: number;
+  startOffset?: number;
+  endOffset?: number;
+  words?: TranscriptWord[];
+  isGap?: boolean;
 }
 
 export class ElectronTranscriptionService {
   private apiKey: string = '';
+  private provider: TranscriptionProviderId = 'deepgram';
   private isTranscribing: boolean = false;
   private onTranscriptCallback?: (result: TranscriptResult) => void;
   private onErrorCallback?: (error: Error) => void;
+  private onStoppedCallback?: (reason: string) => void;
   private audioPacketCount: number = 0;
 
   constructor() {
@@ -33,23 +41,34 @@ export class ElectronTranscriptionService {
           logger.warn('⚠️ ELECTRON SERVICE: No transcript callback registered!', );
         }
       });
+
+      // The provider ran out of reconnection attempts; nothing more will be transcribed
+      window.electronAPI.onTranscriptionStopped?.(({ reason }) => {
+        logger.error('❌ ELECTRON SERVICE: Transcription stopped by main process:', reason);
+        if (this.isTranscribing && this.onStoppedCallback) {
+          this.onStoppedCallback(reason);
+        }
+      });
     }
   }
 
   /**
-   * Initialize with Deepgram API key
+   * Initialize with the configured transcription provider and its credentials
    */
-  initialize(apiKey: string): void {
-    this.apiKey = apiKey;
-    logger.debug('🔑 Electron transcription service configured with key:', apiKey ? apiKey.substring(0, 10) + '...' : 'NO KEY');
+  initialize(settings: Pick<AppSettings, 'deepgramKey' | 'transcriptionProvider'>): void {
+    this.apiKey = settings.deepgramKey;
+    this.provider = settings.transcriptionProvider || 'deepgram';
+    logger.debug(`🔑 Electron transcription service configured for ${this.provider} with key:`, this.apiKey ? this.apiKey.substring(0, 10) + '...' : 'NO KEY');
   }
 
   /**
    * Start transcription using Electron main process
+   * Pass channels to override the configured channel layout (e.g. mono for imported files)
    */
-  async startTranscription(): Promise<boolean> {
-    if (!this.apiKey) {
-      throw new Error('Deepgram API key not configured');
+  async startTranscription(options: { channels?: number } = {}): Promise<boolean> {
+    // Only hosted providers need an API key; local servers run unauthenticated
+    if (this.provider === 'deepgram' && !this.apiKey) {
+      throw new Error('Please configure your Deepgram API key in Settings');
     }
 
     if (this.isTranscribing) {
@@ -64,7 +83,7 @@ export class ElectronTranscriptionService {
         throw new Error('Electron API not available');
       }
 
-      const result = await window.electronAPI.deepgramStart(this.apiKey);
+      const result = await window.electronAPI.deepgramStart(this.apiKey, options);
       
       if (result.success) {
         this.isTranscribing = true;
@@ -118,7 +137,7 @@ export class ElectronTranscriptionService {
     // Log every 100th packet to avoid spam but show activity
     this.audioPacketCount = (this.audioPacketCount || 0) + 1;
     if (this.audioPacketCount % 100 === 0) {
-      logger.debug(`📄 Sent ${this.audioPacketCount} audio packets to Deepgram (latest: ${audioData.byteLength} bytes)`);
+      logger.debug(`📄 Sent ${this.audioPacketCount} audio packets to ${this.provider} (latest: ${audioData.byteLength} bytes)`);
     }
 
     if (!window.electronAPI) {
@@ -151,6 +170,13 @@ export class ElectronTranscriptionService {
     this.onErrorCallback = callback;
   }
 
+  /**
+   * Set callback for when the provider stops on its own
+   */
+  setOnStopped(callback: (reason: string) => void): void {
+    this.onStoppedCallback = callback;
+  }
+
   /**
    * Check if currently transcribing
    */
@@ -0,0 +1,200 @@
+import logger from '../utils/logger';
+import { llmRouter } from './llmRouter';
+import { estimateTokens } from './contextBuilder';
+import { KnowledgeDocument, KnowledgeDocumentKind, KnowledgeMatch, LLMModelSelection } from '../types';
+
+/**
+ * Knowledge Base - the team's battle cards, case studies, pricing sheets and portfolio
+ * Documents are split into chunks and embedded when imported; during a call what the
+ * prospect says is embedded and matched against them in the local store.
+ */
+
+export const KNOWLEDGE_KIND_LABELS: Record<KnowledgeDocumentKind, string> = {
+  'battle-card': 'Battle card',
+  'case-study': 'Case study',
+  pricing: 'Pricing',
+  portfolio: 'Portfolio',
+  other: 'Other'
+};
+
+export interface KnowledgeImport {
+  title: string;
+  text: string;
+  kind: KnowledgeDocumentKind;
+  source?: string;
+}
+
+const CHUNK_TOKENS = 200;
+const EMBED_BATCH_SIZE = 64;
+const MAX_MATCHES = 2;
+// Below this similarity a match is more likely noise than something worth showing
+const MIN_MATCH_SCORE = 0.45;
+// Don't surface the same document again within this window
+const DOCUMENT_COOLDOWN_MS = 180000;
+const SEARCH_TIMEOUT_MS = 5000;
+
+/**
+ * Identify an embedding model the way the local store records it
+ */
+export function embeddingModelId(selection: LLMModelSelection): string {
+  return `${selection.provider}:${selection.model}`;
+}
+
+/**
+ * Split a markdown or plain-text document into chunks of roughly CHUNK_TOKENS
+ * Paragraphs are kept whole where they fit; longer ones are split by sentence.
+ */
+export function chunkDocument(text: string): string[] {
+  const pieces = text
+    .replace(/\r\n/g, '\n')
+    .split(/\n\s*\n|\n(?=#{1,6} )/)
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph.length > 0 && !/^[-*_]{3,}$/.test(paragraph))
+    .flatMap(paragraph => estimateTokens(paragraph) <= CHUNK_TOKENS
+      ? [paragraph]
+      : (paragraph.match(/[^.!?]+(?:[.!?]+|$)/g) || [paragraph]).map(sentence => sentence.trim()));
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    const next = current ? `${current}\n\n${piece}` : piece;
+    if (current && estimateTokens(next) > CHUNK_TOKENS) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = next;
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+  return chunks;
+}
+
+export class KnowledgeBaseService {
+  private lastShownAt = new Map<string, number>();
+  private isSearching = false;
+  // Bumped on reset so a search in flight for the previous session is discarded
+  private generation = 0;
+  private onMatchesCallback?: (matches: KnowledgeMatch[]) => void;
+
+  setOnMatches(callback: (matches: KnowledgeMatch[]) => void): void {
+    this.onMatchesCallback = callback;
+  }
+
+  reset(): void {
+    this.lastShownAt.clear();
+    this.generation++;
+  }
+
+  async listDocuments(): Promise<KnowledgeDocument[]> {
+    if (!window.electronAPI || !(window.electronAPI as any).listKnowledgeDocuments) {
+      return [];
+    }
+
+    const result = await (window.electronAPI as any).listKnowledgeDocuments();
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to load knowledge base');
+    }
+    return result.documents.map((document: any) => ({
+      ...document,
+      createdAt: new Date(document.createdAt)
+    }));
+  }
+
+  /**
+   * Chunk, embed and store a document
+   */
+  async importDocument(input: KnowledgeImport): Promise<KnowledgeDocument> {
+    if (!llmRouter.canEmbed()) {
+      throw new Error('No embedding model configured - add an API key for it in settings');
+    }
+
+    const chunks = chunkDocument(input.text);
+    if (chunks.length === 0) {
+      throw new Error(`${input.title} has no text to import`);
+    }
+
+    // The title goes into each embedding so a chunk is found by what the document is about
+    const vectors: number[][] = [];
+    for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+      const batch = chunks.slice(i, i + EMBED_BATCH_SIZE);
+      const response = await llmRouter.embed(batch.map(chunk => `${input.title}\n\n${chunk}`));
+      vectors.push(...response.vectors);
+    }
+
+    const document: KnowledgeDocument = {
+      id: `kb_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      title: input.title,
+      kind: input.kind,
+      source: input.source,
+      embeddingModel: embeddingModelId(llmRouter.getEmbeddingModel()),
+      chunkCount: chunks.length,
+      createdAt: new Date()
+    };
+
+    const result = await (window.electronAPI as any).saveKnowledgeDocument(
+      document,
+      chunks.map((text, i) => ({ text, embedding: vectors[i] }))
+    );
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save document');
+    }
+
+    logger.debug(`📚 Imported ${document.title} (${chunks.length} chunks)`);
+    return document;
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    const result = await (window.electronAPI as any).deleteKnowledgeDocument(documentId);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to delete document');
+    }
+  }
+
+  /**
+   * Look up playbook content related to a prospect's line and report any new matches
+   * Lines that arrive while a search is running are skipped; the next one gets its turn.
+   */
+  async findRelevant(text: string): Promise<void> {
+    if (this.isSearching || !llmRouter.canEmbed()) return;
+    if (!window.electronAPI || !(window.electronAPI as any).searchKnowledge) return;
+
+    const generation = this.generation;
+    // A card that shows up after the moment has passed is no help
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), SEARCH_TIMEOUT_MS);
+    this.isSearching = true;
+
+    try {
+      const { vectors } = await llmRouter.embed([text], controller.signal);
+      const result = await (window.electronAPI as any).searchKnowledge(vectors[0], {
+        embeddingModel: embeddingModelId(llmRouter.getEmbeddingModel()),
+        limit: MAX_MATCHES,
+        minScore: MIN_MATCH_SCORE
+      });
+      if (generation !== this.generation) return;
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+
+      const now = Date.now();
+      const matches: KnowledgeMatch[] = result.results
+        .filter((match: any) => now - (this.lastShownAt.get(match.documentId) || 0) >= DOCUMENT_COOLDOWN_MS)
+        .map((match: any) => ({ ...match, quote: text, matchedAt: new Date(now) }));
+      if (matches.length === 0) return;
+
+      matches.forEach(match => this.lastShownAt.set(match.documentId, now));
+      logger.debug(`📚 Playbook matches: ${matches.map(m => m.title).join(', ')}`);
+      this.onMatchesCallback?.(matches);
+    } catch (error) {
+      logger.warn('⚠️ Knowledge base search failed:', error);
+    } finally {
+      clearTimeout(timeout);
+      this.isSearching = false;
+    }
+  }
+}
+
+// Export singleton instance
+export const knowledgeBase = new KnowledgeBaseService();
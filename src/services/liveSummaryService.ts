@@ -0,0 +1,112 @@
+import logger from '../utils/logger';
+import { llmRouter } from './llmRouter';
+import { BatchedUpdater } from './batchedUpdater';
+import { LiveCallSummary } from '../types';
+
+/**
+ * Live Summary Service - running summary of the call while it is recorded
+ * Final transcripts are buffered and folded into the summary every N lines,
+ * so each update only sends the previous summary plus the new lines.
+ */
+
+const SUMMARY_MAX_TOKENS = 600;
+
+const SUMMARY_PROMPT = `You maintain a live summary of an ongoing sales call.
+Merge the new transcript lines into the current summary and reply with JSON only:
+{"keyFacts": string[], "pains": string[], "budget": string, "timeline": string, "stakeholders": string[]}
+- keyFacts: concrete facts about the prospect, their company and requirements
+- pains: problems the prospect wants solved
+- budget / timeline: what was said, or "" if not mentioned yet
+- stakeholders: people involved in the decision, with their role when known
+Keep every list under 8 short items. Keep earlier items unless the call contradicts them.`;
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+/**
+ * Parse and validate the model's JSON reply
+ */
+export function parseLiveSummary(content: string, transcriptCount: number): LiveCallSummary | null {
+  // Models sometimes wrap JSON in a code fence or add a sentence around it
+  const match = content.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+
+  try {
+    const data = JSON.parse(match[0]);
+    return {
+      keyFacts: toStringList(data.keyFacts),
+      pains: toStringList(data.pains),
+      budget: typeof data.budget === 'string' ? data.budget : '',
+      timeline: typeof data.timeline === 'string' ? data.timeline : '',
+      stakeholders: toStringList(data.stakeholders),
+      transcriptCount,
+      updatedAt: new Date().toISOString()
+    };
+  } catch {
+    return null;
+  }
+}
+
+export class LiveSummaryService {
+  private summary: LiveCallSummary | null = null;
+  private updater = new BatchedUpdater('live summary', (lines, isCurrent) => this.update(lines, isCurrent));
+  private onSummaryCallback?: (summary: LiveCallSummary) => void;
+
+  setOnSummary(callback: (summary: LiveCallSummary) => void): void {
+    this.onSummaryCallback = callback;
+  }
+
+  /**
+   * Start over for a new session, optionally from a saved summary
+   */
+  reset(summary: LiveCallSummary | null = null): void {
+    this.summary = summary;
+    this.updater.reset();
+  }
+
+  getSummary(): LiveCallSummary | null {
+    return this.summary;
+  }
+
+  /**
+   * Buffer a final transcript line and update once `interval` lines are waiting
+   */
+  addTranscript(line: string, interval: number): void {
+    if (interval <= 0) return;
+    this.updater.add(line, interval);
+  }
+
+  private async update(lines: string[], isCurrent: () => boolean): Promise<void> {
+    if (!llmRouter.isConfigured('summaries')) {
+      logger.debug('⚠️ No summaries model configured - skipping live summary');
+      return;
+    }
+
+    const previous = this.summary;
+    const response = await llmRouter.complete('summaries', {
+      messages: [
+        { role: 'system', content: SUMMARY_PROMPT },
+        {
+          role: 'user',
+          content: `Current summary:\n${previous ? JSON.stringify({ ...previous, transcriptCount: undefined, updatedAt: undefined }) : '(none yet)'}\n\nNew transcript lines:\n${lines.join('\n')}`
+        }
+      ],
+      maxTokens: SUMMARY_MAX_TOKENS,
+      temperature: 0.2
+    });
+
+    if (!isCurrent()) return;
+
+    const summary = parseLiveSummary(response.content, (previous?.transcriptCount || 0) + lines.length);
+    if (!summary) {
+      throw new Error('Live summary response was not valid JSON');
+    }
+
+    this.summary = summary;
+    logger.debug(`📋 Live summary updated (${summary.transcriptCount} transcripts)`);
+    this.onSummaryCallback?.(summary);
+  }
+}
+
+// Export singleton instance
+export const liveSummaryService = new LiveSummaryService();
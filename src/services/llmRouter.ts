@@ -0,0 +1,608 @@
+import logger from '../utils/logger';
+import { AppSettings, LLMModelSelection, LLMProviderId, LLMStatus, LLMTask } from '../types';
+
+/**
+ * LLM Router - one chat interface for every model provider
+ * Each task (chat, todos, insights, summaries) is mapped to a provider and model
+ * in settings; adapters hide the wire format differences between providers.
+ * Failed calls are retried with backoff, then handed down the fallback chain.
+ */
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  responseFormat?: 'json'; // Ask for a JSON object where the provider supports it
+  signal?: AbortSignal;
+  onChunk?: (chunk: string) => void; // Streams deltas when provided
+  onRestart?: () => void; // Streamed output so far is void; a retry or fallback starts over
+}
+
+export interface LLMResponse {
+  content: string;
+  provider: LLMProviderId;
+  model: string;
+}
+
+export interface LLMClient {
+  readonly provider: LLMProviderId;
+  complete(model: string, request: LLMRequest): Promise<string>;
+  embed?(model: string, texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+export interface EmbeddingResponse {
+  vectors: number[][];
+  provider: LLMProviderId;
+  model: string;
+}
+
+export const DEFAULT_LLM_MODELS: Record<LLMTask, LLMModelSelection> = {
+  chat: { provider: 'groq', model: 'llama-3.3-70b-versatile' },
+  todos: { provider: 'groq', model: 'llama-3.3-70b-versatile' },
+  insights: { provider: 'groq', model: 'llama-3.3-70b-versatile' },
+  summaries: { provider: 'groq', model: 'llama-3.3-70b-versatile' }
+};
+
+// Local models are opt-in: the local provider only exists once its URL is set
+export const DEFAULT_LLM_FALLBACKS: LLMModelSelection[] = [
+  { provider: 'openai', model: 'gpt-5-nano' }
+];
+
+export const LLM_PROVIDERS: Array<{ id: LLMProviderId; label: string; models: string[] }> = [
+  { id: 'openai', label: 'OpenAI', models: ['gpt-5-nano', 'gpt-5-mini', 'gpt-5', 'gpt-4o-mini'] },
+  { id: 'groq', label: 'Groq', models: ['llama-3.3-70b-versatile', 'llama-3.1-8b-instant', 'gemma2-9b-it'] },
+  { id: 'anthropic', label: 'Anthropic', models: ['claude-3-5-haiku-latest', 'claude-3-5-sonnet-latest'] },
+  { id: 'local', label: 'Local (OpenAI-compatible)', models: ['llama3.1', 'qwen2.5', 'mistral'] }
+];
+
+export const DEFAULT_EMBEDDING_MODEL: LLMModelSelection = { provider: 'openai', model: 'text-embedding-3-small' };
+
+// Providers with an embeddings endpoint
+export const EMBEDDING_PROVIDERS: Array<{ id: LLMProviderId; label: string; models: string[] }> = [
+  { id: 'openai', label: 'OpenAI', models: ['text-embedding-3-small', 'text-embedding-3-large'] },
+  { id: 'local', label: 'Local (OpenAI-compatible)', models: ['nomic-embed-text', 'mxbai-embed-large'] }
+];
+
+const DEFAULT_MAX_TOKENS = 1024;
+
+// Retries per provider before moving down the fallback chain
+const MAX_RETRIES = 2;
+const BASE_BACKOFF_MS = 500;
+// A longer Retry-After than this fails over instead of leaving the rep waiting
+const MAX_RETRY_WAIT_MS = 5000;
+// How long one attempt may go without a response (or, when streaming, between chunks)
+// before the model is treated as down and the next one in the chain is tried
+const ATTEMPT_TIMEOUT_MS: Record<LLMTask, number> = {
+  chat: 20000,
+  todos: 15000,
+  insights: 15000,
+  summaries: 60000
+};
+
+/**
+ * A failed provider call, with what the router needs to decide on a retry
+ */
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    readonly provider: LLMProviderId,
+    readonly status?: number,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+
+  /** Rate limits and server errors are worth retrying; bad keys, bad requests and timeouts are not */
+  get retryable(): boolean {
+    return this.status === 429 || this.status === undefined || this.status >= 500;
+  }
+}
+
+/**
+ * Read an error body into a readable message
+ */
+async function readErrorMessage(response: Response): Promise<string> {
+  const body = await response.text();
+  try {
+    const data = JSON.parse(body);
+    return data.error?.message || data.message || `${response.status} ${response.statusText}`;
+  } catch {
+    return `${response.status} ${response.statusText}`;
+  }
+}
+
+/**
+ * Parse a Retry-After header, given either in seconds or as an HTTP date
+ */
+function parseRetryAfter(response: Response): number | undefined {
+  const header = response.headers.get('retry-after');
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+async function toProviderError(provider: LLMProviderId, response: Response, message?: string): Promise<LLMProviderError> {
+  return new LLMProviderError(
+    `${provider} API error: ${message || await readErrorMessage(response)}`,
+    provider,
+    response.status,
+    parseRetryAfter(response)
+  );
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * setTimeout as a promise that rejects when the request is aborted
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Yield the `data:` payloads of a server-sent events response
+ */
+async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('Response body is not readable');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    // Events can be split across reads, so only consume complete lines
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line.startsWith('data: ')) {
+        yield line.slice(6).trim();
+      }
+    }
+  }
+}
+
+/**
+ * OpenAI chat completions wire format - also used by Groq and local servers
+ */
+export class OpenAICompatibleClient implements LLMClient {
+  constructor(
+    readonly provider: LLMProviderId,
+    private baseUrl: string,
+    private apiKey: string
+  ) {}
+
+  async complete(model: string, request: LLMRequest): Promise<string> {
+    const body: any = {
+      model,
+      messages: request.messages,
+      stream: !!request.onChunk
+    };
+
+    if (request.responseFormat === 'json') {
+      body.response_format = { type: 'json_object' };
+    }
+
+    if (this.provider === 'openai') {
+      // Current OpenAI models take max_completion_tokens and reject non-default temperatures on reasoning models
+      if (request.maxTokens) body.max_completion_tokens = request.maxTokens;
+      if (request.temperature !== undefined && !model.startsWith('gpt-5')) body.temperature = request.temperature;
+    } else {
+      if (request.maxTokens) body.max_tokens = request.maxTokens;
+      if (request.temperature !== undefined) body.temperature = request.temperature;
+    }
+
+    let response = await this.post('chat/completions', body, request.signal);
+
+    // Unverified OpenAI organizations cannot stream; retry as a single response
+    if (!response.ok && body.stream) {
+      const message = await readErrorMessage(response);
+      if (!message.includes('verified to stream')) {
+        throw await toProviderError(this.provider, response, message);
+      }
+
+      logger.debug('🔄 Organization not verified for streaming, retrying without stream...');
+      body.stream = false;
+      response = await this.post('chat/completions', body, request.signal);
+    }
+
+    if (!response.ok) {
+      throw await toProviderError(this.provider, response);
+    }
+
+    if (!body.stream) {
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content || '';
+      request.onChunk?.(content);
+      return content;
+    }
+
+    let fullContent = '';
+    for await (const data of readServerSentEvents(response)) {
+      if (data === '[DONE]') continue;
+
+      try {
+        const content = JSON.parse(data).choices?.[0]?.delta?.content;
+        if (content) {
+          fullContent += content;
+          request.onChunk?.(content);
+        }
+      } catch {
+        logger.debug('Failed to parse streaming chunk:', data);
+      }
+    }
+
+    return fullContent;
+  }
+
+  async embed(model: string, texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    const response = await this.post('embeddings', { model, input: texts }, signal);
+    if (!response.ok) {
+      throw await toProviderError(this.provider, response);
+    }
+
+    const data = await response.json();
+    // Results carry their input index; don't rely on the order they come back in
+    return (data.data || [])
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((item: any) => item.embedding);
+  }
+
+  private post(path: string, body: any, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    return fetch(`${this.baseUrl.replace(/\/$/, '')}/${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal
+    });
+  }
+}
+
+/**
+ * Anthropic Messages API
+ */
+export class AnthropicClient implements LLMClient {
+  readonly provider = 'anthropic' as const;
+
+  constructor(private apiKey: string) {}
+
+  async complete(model: string, request: LLMRequest): Promise<string> {
+    // System prompts are a top-level field rather than a message
+    const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const messages = request.messages.filter(m => m.role !== 'system');
+
+    const body: any = {
+      model,
+      messages,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      stream: !!request.onChunk
+    };
+    if (system) body.system = system;
+    if (request.temperature !== undefined) body.temperature = request.temperature;
+
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01',
+        'anthropic-dangerous-direct-browser-access': 'true'
+      },
+      body: JSON.stringify(body),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw await toProviderError(this.provider, response);
+    }
+
+    if (!body.stream) {
+      const data = await response.json();
+      return (data.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+    }
+
+    let fullContent = '';
+    for await (const data of readServerSentEvents(response)) {
+      try {
+        const event = JSON.parse(data);
+        if (event.type === 'content_block_delta' && event.delta?.text) {
+          fullContent += event.delta.text;
+          request.onChunk?.(event.delta.text);
+        }
+      } catch {
+        logger.debug('Failed to parse streaming chunk:', data);
+      }
+    }
+
+    return fullContent;
+  }
+}
+
+export class LLMRouter {
+  private clients = new Map<LLMProviderId, LLMClient>();
+  private models: Record<LLMTask, LLMModelSelection> = DEFAULT_LLM_MODELS;
+  private fallbacks: LLMModelSelection[] = DEFAULT_LLM_FALLBACKS;
+  private embeddingModel: LLMModelSelection = DEFAULT_EMBEDDING_MODEL;
+  private onStatusChangeCallback?: (status: LLMStatus) => void;
+
+  /**
+   * Rebuild provider clients from the current settings
+   */
+  configure(settings: AppSettings): void {
+    // Keys starting with gsk_ are Groq keys saved in the original single key field
+    const legacyGroqKey = settings.openaiKey.startsWith('gsk_') ? settings.openaiKey : '';
+    const openaiKey = legacyGroqKey ? '' : settings.openaiKey;
+    const groqKey = settings.groqKey || legacyGroqKey;
+
+    this.clients.clear();
+    if (openaiKey) {
+      this.clients.set('openai', new OpenAICompatibleClient('openai', 'https://api.openai.com/v1', openaiKey));
+    }
+    if (groqKey) {
+      this.clients.set('groq', new OpenAICompatibleClient('groq', 'https://api.groq.com/openai/v1', groqKey));
+    }
+    if (settings.anthropicKey) {
+      this.clients.set('anthropic', new AnthropicClient(settings.anthropicKey));
+    }
+    // Only when the user points at a local server; an unset URL must not make tasks look configured
+    if (settings.localLLMUrl.trim()) {
+      this.clients.set('local', new OpenAICompatibleClient('local', settings.localLLMUrl.trim(), ''));
+    }
+
+    this.models = { ...DEFAULT_LLM_MODELS, ...settings.llmModels };
+    this.fallbacks = settings.llmFallbacks || DEFAULT_LLM_FALLBACKS;
+    this.embeddingModel = settings.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+    logger.debug('🧭 LLM router configured:', {
+      providers: Array.from(this.clients.keys()),
+      models: this.models,
+      fallbacks: this.fallbacks
+    });
+  }
+
+  setOnStatusChange(callback: (status: LLMStatus) => void): void {
+    this.onStatusChangeCallback = callback;
+  }
+
+  getModel(task: LLMTask): LLMModelSelection {
+    return this.models[task];
+  }
+
+  /**
+   * Check whether any model in the task's chain has credentials
+   */
+  isConfigured(task: LLMTask): boolean {
+    return this.getChain(task).length > 0;
+  }
+
+  /**
+   * Check whether the embedding model's provider has credentials and an embeddings endpoint
+   */
+  canEmbed(): boolean {
+    return !!this.clients.get(this.embeddingModel.provider)?.embed;
+  }
+
+  getEmbeddingModel(): LLMModelSelection {
+    return this.embeddingModel;
+  }
+
+  /**
+   * Embed texts with the configured embedding model
+   * There is no fallback chain: vectors from different models can't be compared.
+   */
+  async embed(texts: string[], signal?: AbortSignal): Promise<EmbeddingResponse> {
+    const { provider, model } = this.embeddingModel;
+    const client = this.clients.get(provider);
+    if (!client?.embed) {
+      throw new Error(`No ${provider} embeddings configured - check your settings`);
+    }
+
+    const vectors = await client.embed(model, texts, signal);
+    return { vectors, provider, model };
+  }
+
+  /**
+   * Run a request on the model selected for a task, falling back down the chain on failure
+   */
+  async complete(task: LLMTask, request: LLMRequest): Promise<LLMResponse> {
+    const primary = this.models[task];
+    const chain = this.getChain(task);
+    if (chain.length === 0) {
+      throw new Error(`No ${primary.provider} API key configured for ${task} - check your settings`);
+    }
+
+    // Track streamed output so a retry can tell the caller to discard it
+    let hasStreamed = false;
+    const attemptRequest: LLMRequest = {
+      ...request,
+      onChunk: request.onChunk && ((chunk) => {
+        hasStreamed = true;
+        request.onChunk?.(chunk);
+      })
+    };
+    const restart = () => {
+      if (hasStreamed) {
+        hasStreamed = false;
+        request.onRestart?.();
+      }
+    };
+
+    let lastError: unknown;
+    for (const selection of chain) {
+      const isPrimary = selection === primary;
+      if (lastError) {
+        restart();
+      }
+
+      try {
+        const content = await this.completeWithRetry(task, selection, attemptRequest, restart);
+        this.emitStatus({
+          task,
+          state: isPrimary ? 'ok' : 'fallback',
+          ...selection,
+          message: isPrimary ? undefined : lastError instanceof Error ? lastError.message : `${primary.provider} unavailable`
+        });
+        return { content, ...selection };
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        lastError = error;
+        logger.warn(`⚠️ ${selection.provider}/${selection.model} failed for ${task}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    this.emitStatus({
+      task,
+      state: 'failed',
+      ...primary,
+      message: lastError instanceof Error ? lastError.message : String(lastError)
+    });
+    throw lastError;
+  }
+
+  /**
+   * The task's model followed by the fallbacks, skipping providers without credentials
+   */
+  private getChain(task: LLMTask): LLMModelSelection[] {
+    const primary = this.models[task];
+    const fallbacks = this.fallbacks.filter(
+      fallback => fallback.provider !== primary.provider || fallback.model !== primary.model
+    );
+    return [primary, ...fallbacks].filter(selection => selection.model && this.clients.has(selection.provider));
+  }
+
+  /**
+   * Call one model, retrying rate limits and server errors with exponential backoff
+   */
+  private async completeWithRetry(
+    task: LLMTask,
+    selection: LLMModelSelection,
+    request: LLMRequest,
+    restart: () => void
+  ): Promise<string> {
+    const client = this.clients.get(selection.provider)!;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        logger.debug(`🧭 ${task} -> ${selection.provider}/${selection.model}${attempt > 0 ? ` (retry ${attempt})` : ''}`);
+        return await this.attempt(client, selection, request, ATTEMPT_TIMEOUT_MS[task]);
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+
+        const retryable = !(error instanceof LLMProviderError) || error.retryable;
+        if (!retryable || attempt >= MAX_RETRIES) throw error;
+
+        // Honor Retry-After on 429s, otherwise back off exponentially
+        const delay = (error instanceof LLMProviderError && error.retryAfterMs !== undefined)
+          ? error.retryAfterMs
+          : BASE_BACKOFF_MS * Math.pow(2, attempt);
+        if (delay > MAX_RETRY_WAIT_MS) throw error;
+
+        this.emitStatus({
+          task,
+          state: 'retrying',
+          ...selection,
+          message: error instanceof Error ? error.message : String(error)
+        });
+        logger.debug(`⏳ Retrying ${selection.provider} in ${delay}ms`);
+        await wait(delay, request.signal);
+        restart();
+      }
+    }
+  }
+
+  /**
+   * One call to a model, aborted if it stalls for longer than timeoutMs
+   * A stall becomes a 408 provider error so the chain moves on, while an abort
+   * from the caller's own signal is passed through untouched.
+   */
+  private async attempt(
+    client: LLMClient,
+    selection: LLMModelSelection,
+    request: LLMRequest,
+    timeoutMs: number
+  ): Promise<string> {
+    const controller = new AbortController();
+    const onCallerAbort = () => controller.abort();
+    if (request.signal?.aborted) {
+      controller.abort();
+    }
+    request.signal?.addEventListener('abort', onCallerAbort, { once: true });
+
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const restartTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+    };
+    restartTimer();
+
+    try {
+      return await client.complete(selection.model, {
+        ...request,
+        signal: controller.signal,
+        onChunk: request.onChunk && ((chunk) => {
+          restartTimer();
+          request.onChunk?.(chunk);
+        })
+      });
+    } catch (error) {
+      if (timedOut && !request.signal?.aborted) {
+        throw new LLMProviderError(`${selection.provider} timed out after ${timeoutMs / 1000}s`, selection.provider, 408);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onCallerAbort);
+    }
+  }
+
+  private emitStatus(status: LLMStatus): void {
+    this.onStatusChangeCallback?.(status);
+  }
+}
+
+// Export singleton instance
+export const llmRouter = new LLMRouter();
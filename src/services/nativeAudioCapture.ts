@@ -1,4 +1,6 @@
 import logger from '../utils/logger';
+import { PcmCapture, DEFAULT_AUDIO_PROCESSING } from './audioWorkletCapture';
+import { AudioProcessingSettings, AudioSourceInfo } from '../types';
 
 /**
  * Native Audio Capture Service - Enhanced for Desktop
@@ -11,13 +13,17 @@ interface AudioCaptureOptions {
   includeMicrophone: boolean;
   includeSystemAudio: boolean;
   sampleRate: number;
-  bufferSize: number;
+  bufferSize: number; // Samples per chunk at sampleRate
+  deviceId?: string; // Microphone to open; omitted follows the system default
+  processing: AudioProcessingSettings;
 }
 
 export class NativeAudioCaptureService {
   private mediaStream: MediaStream | null = null;
   private audioContext: AudioContext | null = null;
-  private audioProcessor: ScriptProcessorNode | null = null;
+  private pcmCapture: PcmCapture | null = null;
+  private mixer: GainNode | null = null;
+  private microphoneGain: GainNode | null = null;
   private microphoneSource: MediaStreamAudioSourceNode | null = null;
   private systemAudioSource: MediaStreamAudioSourceNode | null = null;
   private isCapturing = false;
@@ -28,8 +34,10 @@ export class NativeAudioCaptureService {
     includeMicrophone: true,
     includeSystemAudio: false, // Will be enabled when native support is available
     sampleRate: 16000,
-    bufferSize: 4096
+    bufferSize: 4096,
+    processing: DEFAULT_AUDIO_PROCESSING
   };
+  private processing: AudioProcessingSettings = DEFAULT_AUDIO_PROCESSING;
   
   // Event callbacks
   private onAudioDataCallback?: (audioData: ArrayBuffer) => void;
@@ -117,8 +125,8 @@ export class NativeAudioCaptureService {
   /**
    * Get available audio sources
    */
-  async getAudioSources(): Promise<Array<{ id: string; name: string; type: 'microphone' | 'system' }>> {
-    const sources: Array<{ id: string; name: string; type: 'microphone' | 'system' }> = [];
+  async getAudioSources(): Promise<AudioSourceInfo[]> {
+    const sources: AudioSourceInfo[] = [];
     
     try {
       // Get microphone devices
@@ -168,6 +176,7 @@ export class NativeAudioCaptureService {
     }
 
     const config = { ...this.defaultOptions, ...options };
+    this.processing = config.processing;
     
     try {
       logger.debug('🎤 Starting enhanced audio capture...');
@@ -182,10 +191,8 @@ export class NativeAudioCaptureService {
         }
       }
 
-      // Create audio context
-      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
-        sampleRate: config.sampleRate
-      });
+      // Native rate context; the capture worklet resamples to 16kHz
+      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
 
       // Start microphone capture
       if (config.includeMicrophone) {
@@ -198,9 +205,9 @@ export class NativeAudioCaptureService {
       }
 
       // Set up audio processing
-      this.setupAudioProcessing(config);
-
       this.isCapturing = true;
+      await this.setupAudioProcessing(config);
+
       this.updateStatus('Audio capture active');
       
       // Show desktop notification
@@ -220,6 +227,7 @@ export class NativeAudioCaptureService {
       return true;
     } catch (error) {
       logger.error('❌ Failed to start enhanced audio capture:', error);
+      this.isCapturing = false;
       this.cleanup();
       
       if (this.onErrorCallback) {
@@ -238,22 +246,10 @@ export class NativeAudioCaptureService {
     
     try {
       // Request microphone permission first
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-          sampleRate: config.sampleRate,
-          channelCount: 1
-        }
-      });
+      const stream = await this.openMicrophone(config.sampleRate, config.deviceId);
 
       logger.debug('✅ Microphone permission granted, stream obtained');
       logger.debug('🔊 Audio tracks:', stream.getAudioTracks().length);
-      
-      if (stream.getAudioTracks().length === 0) {
-        throw new Error('No audio tracks found in stream');
-      }
 
       this.mediaStream = stream;
       this.microphoneSource = this.audioContext!.createMediaStreamSource(this.mediaStream);
@@ -273,6 +269,72 @@ export class NativeAudioCaptureService {
     }
   }
 
+  /**
+   * Open a mono microphone stream, optionally from a specific device
+   */
+  private async openMicrophone(sampleRate: number, deviceId?: string): Promise<MediaStream> {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        deviceId: deviceId ? { exact: deviceId } : undefined,
+        echoCancellation: this.processing.echoCancellation,
+        noiseSuppression: this.processing.noiseSuppression,
+        autoGainControl: this.processing.autoGainControl,
+        sampleRate,
+        channelCount: 1
+      }
+    });
+
+    if (stream.getAudioTracks().length === 0) {
+      throw new Error('No audio tracks found in stream');
+    }
+
+    return stream;
+  }
+
+  /**
+   * Swap the microphone mid-capture without restarting the pipeline
+   * The new source joins the same mixer and worklet, so the audio stream stays continuous
+   */
+  async switchMicrophone(deviceId?: string): Promise<void> {
+    if (!this.isCapturing || !this.audioContext || !this.microphoneGain) {
+      throw new Error('No audio capture in progress');
+    }
+
+    logger.debug(`🔄 Switching microphone to ${deviceId || 'system default'}...`);
+    const stream = await this.openMicrophone(this.defaultOptions.sampleRate, deviceId);
+    const source = this.audioContext.createMediaStreamSource(stream);
+    source.connect(this.microphoneGain);
+
+    if (this.microphoneSource) {
+      this.microphoneSource.disconnect();
+    }
+    if (this.mediaStream) {
+      this.mediaStream.getTracks().forEach(track => track.stop());
+    }
+
+    this.microphoneSource = source;
+    this.mediaStream = stream;
+    this.updateStatus('Microphone switched');
+    logger.debug('✅ Microphone switched:', stream.getAudioTracks()[0].label);
+  }
+
+  /**
+   * Apply a new microphone gain live; constraints take effect when the mic is reopened
+   */
+  setProcessing(processing: AudioProcessingSettings): void {
+    this.processing = processing;
+    if (this.microphoneGain) {
+      this.microphoneGain.gain.value = processing.microphoneGain;
+    }
+  }
+
+  /**
+   * Current microphone track, if capturing
+   */
+  getMicrophoneTrack(): MediaStreamTrack | null {
+    return this.mediaStream?.getAudioTracks()[0] || null;
+  }
+
   /**
    * Start system audio capture (Windows/Linux)
    */
@@ -307,22 +369,19 @@ export class NativeAudioCaptureService {
   /**
    * Set up audio processing pipeline
    */
-  private setupAudioProcessing(config: AudioCaptureOptions): void {
+  private async setupAudioProcessing(config: AudioCaptureOptions): Promise<void> {
     if (!this.audioContext) return;
 
-    // Create script processor for real-time audio processing
-    this.audioProcessor = this.audioContext.createScriptProcessor(
-      config.bufferSize,
-      1, // 1 input channel
-      1  // 1 output channel
-    );
-
     // Create mixer if we have multiple sources
     const mixer = this.audioContext.createGain();
+    this.mixer = mixer;
     
-    // Connect microphone source
+    // Connect microphone source through its own gain so mics can be swapped in front of it
+    this.microphoneGain = this.audioContext.createGain();
+    this.microphoneGain.gain.value = this.processing.microphoneGain;
+    this.microphoneGain.connect(mixer);
     if (this.microphoneSource) {
-      this.microphoneSource.connect(mixer);
+      this.microphoneSource.connect(this.microphoneGain);
     }
     
     // Connect system audio source
@@ -330,36 +389,16 @@ export class NativeAudioCaptureService {
       this.systemAudioSource.connect(mixer);
     }
 
-    // Connect mixer to processor
-    mixer.connect(this.audioProcessor);
-    this.audioProcessor.connect(this.audioContext.destination);
-
-    // Process audio data in real-time
+    // Linear16 chunks and their level arrive from the audio thread
     let audioPacketCount = 0;
-    let lastVolumeCheck = 0;
-    
-    this.audioProcessor.onaudioprocess = (audioProcessingEvent) => {
+
+    this.pcmCapture = new PcmCapture((audioData, volume) => {
       if (!this.isCapturing) return;
 
-      const inputBuffer = audioProcessingEvent.inputBuffer;
-      const inputData = inputBuffer.getChannelData(0);
-      
-      // Check audio volume level
-      let sum = 0;
-      for (let i = 0; i < inputData.length; i++) {
-        sum += inputData[i] * inputData[i];
-      }
-      const volume = Math.sqrt(sum / inputData.length);
-      
-      // Convert Float32Array to Int16Array for Deepgram
-      const int16Buffer = this.convertFloat32ToInt16(inputData);
-      
       // Log every 50th packet to avoid console spam but show activity
       audioPacketCount++;
       if (audioPacketCount % 50 === 0) {
-        logger.debug(`🎵 Audio packet ${audioPacketCount}, size: ${int16Buffer.buffer.byteLength} bytes, volume: ${volume.toFixed(4)}`);
-        logger.debug(`🎵 Raw audio sample (first 10): [${Array.from(inputData.slice(0, 10)).map((x: number) => x.toFixed(3)).join(', ')}]`);
-        logger.debug(`🎵 Converted sample (first 10): [${Array.from(int16Buffer.slice(0, 10)).join(', ')}]`);
+        logger.debug(`🎵 Audio packet ${audioPacketCount}, size: ${audioData.byteLength} bytes, volume: ${volume.toFixed(4)}`);
       }
       
       // Check if we're getting any audio signal
@@ -373,7 +412,7 @@ export class NativeAudioCaptureService {
       
       // Send audio data via callback
       if (this.onAudioDataCallback) {
-        this.onAudioDataCallback(int16Buffer.buffer as ArrayBuffer);
+        this.onAudioDataCallback(audioData);
         
         // First time sending audio
         if (audioPacketCount === 1) {
@@ -382,7 +421,9 @@ export class NativeAudioCaptureService {
       } else {
         logger.warn('⚠️ No audio callback set!', );
       }
-    };
+    }, { chunkMs: (config.bufferSize / config.sampleRate) * 1000 });
+
+    await this.pcmCapture.connect(this.audioContext, mixer);
   }
 
   /**
@@ -454,14 +495,23 @@ export class NativeAudioCaptureService {
    * Clean up resources
    */
   private cleanup(): void {
-    // Disconnect and clear audio processor
-    if (this.audioProcessor) {
-      this.audioProcessor.disconnect();
-      this.audioProcessor.onaudioprocess = null;
-      this.audioProcessor = null;
+    // Disconnect the capture worklet
+    if (this.pcmCapture) {
+      this.pcmCapture.disconnect();
+      this.pcmCapture = null;
     }
 
     // Disconnect sources
+    if (this.microphoneGain) {
+      this.microphoneGain.disconnect();
+      this.microphoneGain = null;
+    }
+
+    if (this.mixer) {
+      this.mixer.disconnect();
+      this.mixer = null;
+    }
+
     if (this.microphoneSource) {
       this.microphoneSource.disconnect();
       this.microphoneSource = null;
@@ -488,23 +538,6 @@ export class NativeAudioCaptureService {
     }
   }
 
-  /**
-   * Convert Float32Array to Int16Array for Deepgram
-   */
-  private convertFloat32ToInt16(float32Array: Float32Array): Int16Array {
-    const int16Array = new Int16Array(float32Array.length);
-    
-    for (let i = 0; i < float32Array.length; i++) {
-      // Clamp values to [-1, 1] range
-      const sample = Math.max(-1, Math.min(1, float32Array[i]));
-      
-      // Convert to 16-bit signed integer
-      int16Array[i] = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
-    }
-    
-    return int16Array;
-  }
-
   /**
    * Get platform-specific capabilities
    */
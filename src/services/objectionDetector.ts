@@ -0,0 +1,190 @@
+import logger from '../utils/logger';
+import { llmRouter } from './llmRouter';
+import { extractJson } from '../utils/jsonSchema';
+import { isProspectLine } from '../utils/speakerRoles';
+import { ObjectionAlert, ObjectionCategory, Rebuttal, Transcript } from '../types';
+
+/**
+ * Objection Detector - spots sales objections in what the prospect says
+ * A keyword pass picks candidate lines cheaply; the insights model then confirms
+ * the objection and its category before a rebuttal card is raised.
+ */
+
+export const OBJECTION_LABELS: Record<ObjectionCategory, string> = {
+  price: 'Price',
+  timing: 'Timing',
+  competitor: 'Competitor',
+  authority: 'Authority',
+  'in-house': 'Built in-house',
+  need: 'No need'
+};
+
+const OBJECTION_PATTERNS: Record<ObjectionCategory, RegExp[]> = {
+  price: [
+    /too (expensive|pricey|much)/i,
+    /(can't|cannot|don't) afford/i,
+    /(price|cost|budget|quote|rate)s? (is|are|was|seems?) (high|steep|a lot|out of)/i,
+    /(out of|over|no|exceeds?( our)?) (the )?budget/i,
+    /cheaper/i
+  ],
+  timing: [
+    /not (the )?right (time|now)/i,
+    /(next|this) (quarter|year)/i,
+    /(circle|come) back (to this |later|in)/i,
+    /too (busy|early|soon)/i,
+    /(not|isn't|no) (a )?priority/i,
+    /revisit (this|it)/i
+  ],
+  competitor: [
+    /(already|currently) (use|using|work with|working with|have a contract)/i,
+    /(another|other|different) (vendor|agency|provider|company|team)/i,
+    /(competitor|alternative)s?/i,
+    /(got|have|getting) (a )?(other|few|couple of) (quotes|proposals|bids)/i
+  ],
+  authority: [
+    /(run|check|talk) (it |this )?(by|with|past) (my|our|the) (boss|manager|team|cto|ceo|cfo|board|partner)/i,
+    /not (my|up to me)/i,
+    /(boss|manager|board|cfo|ceo|cto|partner) (has to|needs to|would have to|will) (approve|decide|sign)/i,
+    /(need|needs) (approval|sign-off|buy-in)/i
+  ],
+  'in-house': [
+    /in[- ]house/i,
+    /(build|built|building|do|doing) (it|this) ourselves/i,
+    /our (own )?(dev|developers|engineers|team) (can|could|will)/i,
+    /(hire|hiring) (a )?(developer|engineer|someone)/i
+  ],
+  need: [
+    /(don't|do not) (really )?(need|see the need)/i,
+    /(works|working) (fine|well|ok) (for us|as is|now)/i,
+    /not (interested|a fit|relevant)/i,
+    /happy with (what|our|the current)/i
+  ]
+};
+
+// Built-in rebuttals, used until the team saves its own library
+export const DEFAULT_REBUTTALS: Rebuttal[] = [
+  { id: 'default-price-1', category: 'price', title: 'Reframe on ROI', response: 'Compared to what it costs you today to leave this unsolved, how does the price look? Let\'s put numbers on the time and revenue at stake.' },
+  { id: 'default-price-2', category: 'price', title: 'Phase the scope', response: 'We can start with the piece that delivers the most value first and phase the rest, so the first invoice fits this quarter\'s budget.' },
+  { id: 'default-timing-1', category: 'timing', title: 'Cost of waiting', response: 'Understood. What changes between now and then? If nothing does, waiting usually just delays the results you told me you need.' },
+  { id: 'default-competitor-1', category: 'competitor', title: 'Differentiate, don\'t disparage', response: 'They\'re a solid option. What would you want to be different this time? That\'s exactly where we tend to stand out.' },
+  { id: 'default-authority-1', category: 'authority', title: 'Equip the champion', response: 'Makes sense. What will they want to see to say yes? I can put together a one-page summary, or join a short call with them.' },
+  { id: 'default-in-house-1', category: 'in-house', title: 'Build vs. buy', response: 'Your team can definitely build it. The question is whether that\'s the best use of their time, versus us delivering it in weeks while they stay on the core product.' },
+  { id: 'default-need-1', category: 'need', title: 'Probe the status quo', response: 'Glad it\'s working. If you could change one thing about how it works today, what would it be?' }
+];
+
+// Don't raise the same kind of objection again within this window
+const CATEGORY_COOLDOWN_MS = 45000;
+const CONFIRM_TIMEOUT_MS = 4000;
+const MAX_REBUTTALS_PER_CARD = 2;
+
+export class ObjectionDetector {
+  private rebuttals: Rebuttal[] = DEFAULT_REBUTTALS;
+  private lastAlertAt = new Map<ObjectionCategory, number>();
+  private onObjectionCallback?: (alert: ObjectionAlert) => void;
+
+  setOnObjection(callback: (alert: ObjectionAlert) => void): void {
+    this.onObjectionCallback = callback;
+  }
+
+  /**
+   * Use the team's library; an empty library falls back to the built-in rebuttals
+   */
+  setRebuttals(rebuttals: Rebuttal[]): void {
+    this.rebuttals = rebuttals.length > 0 ? rebuttals : DEFAULT_REBUTTALS;
+  }
+
+  getRebuttals(): Rebuttal[] {
+    return this.rebuttals;
+  }
+
+  reset(): void {
+    this.lastAlertAt.clear();
+  }
+
+  /**
+   * Check a finalized transcript line and raise an alert if it carries an objection
+   * Only the prospect's lines are checked; speakerNames are the renamed diarized speakers.
+   */
+  async analyze(transcript: Pick<Transcript, 'text' | 'speaker' | 'speakerId'>, speakerNames: Record<number, string> = {}): Promise<void> {
+    if (!isProspectLine(transcript, speakerNames)) return;
+
+    const candidates = (Object.keys(OBJECTION_PATTERNS) as ObjectionCategory[])
+      .filter(category => OBJECTION_PATTERNS[category].some(pattern => pattern.test(transcript.text)));
+    if (candidates.length === 0) return;
+
+    const confirmed = await this.confirm(transcript.text, candidates);
+    if (!confirmed) return;
+
+    const now = Date.now();
+    if (now - (this.lastAlertAt.get(confirmed.category) || 0) < CATEGORY_COOLDOWN_MS) {
+      logger.debug(`⏭️ ${confirmed.category} objection already raised recently`);
+      return;
+    }
+    this.lastAlertAt.set(confirmed.category, now);
+
+    const alert: ObjectionAlert = {
+      id: `objection_${now}_${Math.random().toString(36).substr(2, 9)}`,
+      category: confirmed.category,
+      quote: transcript.text,
+      summary: confirmed.summary,
+      rebuttals: this.rebuttals.filter(r => r.category === confirmed.category).slice(0, MAX_REBUTTALS_PER_CARD),
+      detectedAt: new Date()
+    };
+
+    logger.debug(`🛡️ ${OBJECTION_LABELS[alert.category]} objection detected:`, transcript.text.substring(0, 60));
+    this.onObjectionCallback?.(alert);
+  }
+
+  /**
+   * Ask the model whether the keyword hit is a real objection
+   * Without a model, or if it is slow or fails, the keyword match stands.
+   */
+  private async confirm(
+    text: string,
+    candidates: ObjectionCategory[]
+  ): Promise<{ category: ObjectionCategory; summary?: string } | null> {
+    if (!llmRouter.isConfigured('insights')) {
+      return { category: candidates[0] };
+    }
+
+    // A card that shows up after the moment has passed is no help
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), CONFIRM_TIMEOUT_MS);
+
+    try {
+      const response = await llmRouter.complete('insights', {
+        messages: [
+          {
+            role: 'system',
+            content: `You classify what a sales prospect just said. Categories: ${Object.keys(OBJECTION_LABELS).join(', ')}.
+Reply with JSON only: {"isObjection": boolean, "category": string, "summary": string}
+isObjection is true only if the prospect is pushing back on buying. summary restates the objection in under 12 words.`
+          },
+          { role: 'user', content: `Likely ${candidates.join(' or ')}: "${text}"` }
+        ],
+        maxTokens: 100,
+        temperature: 0,
+        responseFormat: 'json',
+        signal: controller.signal
+      });
+
+      const data = extractJson(response.content) as { isObjection?: boolean; category?: string; summary?: string };
+      if (!data.isObjection) {
+        return null;
+      }
+
+      const category = (data.category && data.category in OBJECTION_LABELS)
+        ? data.category as ObjectionCategory
+        : candidates[0];
+      return { category, summary: typeof data.summary === 'string' ? data.summary : undefined };
+    } catch (error) {
+      logger.warn('⚠️ Objection check failed, using keyword match:', error);
+      return { category: candidates[0] };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+// Export singleton instance
+export const objectionDetector = new ObjectionDetector();
@@ -0,0 +1,183 @@
+import logger from '../utils/logger';
+import { llmRouter } from './llmRouter';
+import { BatchedUpdater } from './batchedUpdater';
+import { extractJson } from '../utils/jsonSchema';
+import { QualificationFieldStatus, QualificationFrameworkId, QualificationScorecard } from '../types';
+
+/**
+ * Scorecard Service - fills the qualification framework in while the call is recorded
+ * Final transcripts are batched like the live summary's and sent together with the
+ * current scorecard, so each update only covers the new lines.
+ */
+
+export interface QualificationFieldDefinition {
+  key: string;
+  label: string;
+  question: string; // What the rep should ask while the field is still missing
+}
+
+export const QUALIFICATION_FRAMEWORKS: Record<QualificationFrameworkId, { label: string; fields: QualificationFieldDefinition[] }> = {
+  bant: {
+    label: 'BANT',
+    fields: [
+      { key: 'budget', label: 'Budget', question: 'What budget have you set aside for this?' },
+      { key: 'authority', label: 'Authority', question: 'Who else is involved in making this decision?' },
+      { key: 'need', label: 'Need', question: 'What problem are you trying to solve, and why now?' },
+      { key: 'timeline', label: 'Timeline', question: 'When do you need this in place?' }
+    ]
+  },
+  meddic: {
+    label: 'MEDDIC',
+    fields: [
+      { key: 'metrics', label: 'Metrics', question: 'How will you measure whether this was a success?' },
+      { key: 'economicBuyer', label: 'Economic Buyer', question: 'Who signs off on the budget for this?' },
+      { key: 'decisionCriteria', label: 'Decision Criteria', question: 'What will you compare options on?' },
+      { key: 'decisionProcess', label: 'Decision Process', question: 'What are the steps between now and a signed agreement?' },
+      { key: 'identifyPain', label: 'Identify Pain', question: 'What happens if you don\'t solve this?' },
+      { key: 'champion', label: 'Champion', question: 'Who on your side wants this to happen most?' }
+    ]
+  },
+  spin: {
+    label: 'SPIN',
+    fields: [
+      { key: 'situation', label: 'Situation', question: 'How do you handle this today?' },
+      { key: 'problem', label: 'Problem', question: 'What frustrates you most about the current setup?' },
+      { key: 'implication', label: 'Implication', question: 'What does that problem cost you in time or revenue?' },
+      { key: 'needPayoff', label: 'Need-Payoff', question: 'If that were solved, what would it mean for your team?' }
+    ]
+  }
+};
+
+// Final transcripts between scorecard updates
+const SCORECARD_INTERVAL = 4;
+const SCORECARD_MAX_TOKENS = 500;
+
+const FIELD_STATUSES: QualificationFieldStatus[] = ['missing', 'partial', 'complete'];
+const STATUS_RANK: Record<QualificationFieldStatus, number> = { missing: 0, partial: 1, complete: 2 };
+
+/**
+ * Empty scorecard for a framework, or null when qualification tracking is off
+ */
+export function createScorecard(framework: QualificationFrameworkId | 'none'): QualificationScorecard | null {
+  if (framework === 'none' || !QUALIFICATION_FRAMEWORKS[framework]) {
+    return null;
+  }
+
+  return {
+    framework,
+    fields: QUALIFICATION_FRAMEWORKS[framework].fields.map(({ key }) => ({ key, value: '', status: 'missing' })),
+    transcriptCount: 0,
+    updatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Merge the model's JSON reply into the scorecard
+ * Fields only move forward, so a vague later line can't erase what was already covered.
+ */
+export function mergeScorecard(
+  scorecard: QualificationScorecard,
+  content: string,
+  transcriptCount: number
+): QualificationScorecard | null {
+  let data: any;
+  try {
+    data = extractJson(content);
+  } catch {
+    return null;
+  }
+  const updates = data && typeof data.fields === 'object' ? data.fields : null;
+  if (!updates) return null;
+
+  return {
+    ...scorecard,
+    fields: scorecard.fields.map((field) => {
+      const update = updates[field.key];
+      if (!update || !FIELD_STATUSES.includes(update.status) || typeof update.value !== 'string') {
+        return field;
+      }
+      if (STATUS_RANK[update.status as QualificationFieldStatus] < STATUS_RANK[field.status]) {
+        return field;
+      }
+      return { key: field.key, value: update.value.trim(), status: update.status };
+    }),
+    transcriptCount,
+    updatedAt: new Date().toISOString()
+  };
+}
+
+export class ScorecardService {
+  private scorecard: QualificationScorecard | null = null;
+  private updater = new BatchedUpdater('scorecard', (lines, isCurrent) => this.update(lines, isCurrent));
+  private onScorecardCallback?: (scorecard: QualificationScorecard) => void;
+
+  setOnScorecard(callback: (scorecard: QualificationScorecard) => void): void {
+    this.onScorecardCallback = callback;
+  }
+
+  /**
+   * Start over for a new session or framework, optionally from a saved scorecard
+   */
+  reset(scorecard: QualificationScorecard | null = null): void {
+    this.scorecard = scorecard;
+    this.updater.reset();
+  }
+
+  getScorecard(): QualificationScorecard | null {
+    return this.scorecard;
+  }
+
+  /**
+   * Buffer a final transcript line and update once enough lines are waiting
+   */
+  addTranscript(line: string): void {
+    if (!this.scorecard) return;
+    this.updater.add(line, SCORECARD_INTERVAL);
+  }
+
+  private async update(lines: string[], isCurrent: () => boolean): Promise<void> {
+    if (!this.scorecard) return;
+    if (!llmRouter.isConfigured('insights')) {
+      logger.debug('⚠️ No insights model configured - skipping scorecard');
+      return;
+    }
+
+    const previous = this.scorecard;
+    const framework = QUALIFICATION_FRAMEWORKS[previous.framework];
+    const response = await llmRouter.complete('insights', {
+      messages: [
+        {
+          role: 'system',
+          content: `You track ${framework.label} qualification during a live sales call.
+Fields:
+${framework.fields.map(f => `- ${f.key}: ${f.label} (e.g. "${f.question}")`).join('\n')}
+Update the fields from the new transcript lines and reply with JSON only:
+{"fields": {"<key>": {"value": string, "status": "missing" | "partial" | "complete"}}}
+value is a short note of what the prospect said. Use "partial" when the topic came up without a clear answer.
+Only include fields the new lines tell you something about.`
+        },
+        {
+          role: 'user',
+          content: `Current scorecard:\n${JSON.stringify(previous.fields)}\n\nNew transcript lines:\n${lines.join('\n')}`
+        }
+      ],
+      maxTokens: SCORECARD_MAX_TOKENS,
+      temperature: 0.1,
+      responseFormat: 'json'
+    });
+
+    if (!isCurrent()) return;
+
+    const scorecard = mergeScorecard(previous, response.content, previous.transcriptCount + lines.length);
+    if (!scorecard) {
+      throw new Error('Scorecard response was not valid JSON');
+    }
+
+    this.scorecard = scorecard;
+    logger.debug(`🎯 Scorecard updated: ${scorecard.fields.filter(f => f.status === 'complete').length}/${scorecard.fields.length} complete`);
+    this.onScorecardCallback?.(scorecard);
+  }
+}
+
+// Export singleton instance
+export const scorecardService = new ScorecardService();
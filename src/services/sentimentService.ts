@@ -0,0 +1,163 @@
+import logger from '../utils/logger';
+import { llmRouter } from './llmRouter';
+import { extractJson } from '../utils/jsonSchema';
+import { Transcript } from '../types';
+
+/**
+ * Sentiment Service - scores sentiment and engagement of each final transcript line
+ * Lines are scored in small batches with a little preceding context, so a
+ * sarcastic "great" or a curt "fine" is read the way it was meant.
+ */
+
+export interface TranscriptScore {
+  id: string;
+  sentiment: number;
+  engagement: number;
+}
+
+type ScoredLine = Pick<Transcript, 'id' | 'text' | 'speaker'>;
+
+const SENTIMENT_BATCH_SIZE = 4;
+// Score a partial batch once its first line has waited this long
+const SENTIMENT_FLUSH_MS = 10000;
+const CONTEXT_LINES = 3;
+const SENTIMENT_MAX_TOKENS = 300;
+
+const SENTIMENT_PROMPT = `You score lines from a live sales call.
+For each numbered line give:
+- sentiment: -1 (hostile, frustrated, negative) to 1 (enthusiastic, positive), 0 for neutral
+- engagement: 0 (disengaged, one-word or evasive) to 1 (engaged, detailed, asking questions)
+Earlier lines are context only; don't score them.
+Reply with JSON only: {"scores": [{"line": number, "sentiment": number, "engagement": number}]}`;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const formatLine = (line: ScoredLine) => `${line.speaker || 'Speaker'}: ${line.text}`;
+
+/**
+ * Parse the model's scores for a batch of lines
+ */
+export function parseScores(content: string, batch: ScoredLine[]): TranscriptScore[] {
+  const data = extractJson(content) as { scores?: unknown };
+  if (!Array.isArray(data.scores)) {
+    throw new Error('Sentiment response had no scores');
+  }
+
+  return data.scores.flatMap((score: any) => {
+    const line = batch[Number(score?.line) - 1];
+    if (!line || typeof score.sentiment !== 'number' || typeof score.engagement !== 'number') {
+      return [];
+    }
+    return [{
+      id: line.id,
+      sentiment: clamp(score.sentiment, -1, 1),
+      engagement: clamp(score.engagement, 0, 1)
+    }];
+  });
+}
+
+export class SentimentService {
+  private pendingLines: ScoredLine[] = [];
+  private recentLines: ScoredLine[] = [];
+  private isScoring = false;
+  private flushTimer: NodeJS.Timeout | null = null;
+  // Bumped on reset so a batch in flight for the previous session is discarded
+  private generation = 0;
+  private onScoresCallback?: (scores: TranscriptScore[]) => void;
+
+  setOnScores(callback: (scores: TranscriptScore[]) => void): void {
+    this.onScoresCallback = callback;
+  }
+
+  reset(): void {
+    this.pendingLines = [];
+    this.recentLines = [];
+    this.clearFlushTimer();
+    this.generation++;
+  }
+
+  /**
+   * Queue a final transcript line for scoring
+   */
+  addTranscript(line: ScoredLine): void {
+    this.pendingLines.push(line);
+    this.scheduleScoring();
+  }
+
+  /**
+   * Score now if a full batch is waiting, otherwise make sure a partial one is flushed later
+   */
+  private scheduleScoring(): void {
+    if (this.pendingLines.length >= SENTIMENT_BATCH_SIZE) {
+      this.score();
+    } else if (this.pendingLines.length > 0 && !this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.score();
+      }, SENTIMENT_FLUSH_MS);
+    }
+  }
+
+  private clearFlushTimer(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  private async score(): Promise<void> {
+    if (this.isScoring || this.pendingLines.length === 0) return;
+    this.clearFlushTimer();
+
+    if (!llmRouter.isConfigured('insights')) {
+      logger.debug('⚠️ No insights model configured - skipping sentiment scoring');
+      this.pendingLines = [];
+      return;
+    }
+
+    const generation = this.generation;
+    const batch = this.pendingLines.splice(0, SENTIMENT_BATCH_SIZE);
+    const context = this.recentLines.slice(-CONTEXT_LINES);
+    this.isScoring = true;
+
+    try {
+      const response = await llmRouter.complete('insights', {
+        messages: [
+          { role: 'system', content: SENTIMENT_PROMPT },
+          {
+            role: 'user',
+            content: `${context.length > 0 ? `Earlier lines:\n${context.map(formatLine).join('\n')}\n\n` : ''}Lines to score:\n${batch.map((line, i) => `${i + 1}. ${formatLine(line)}`).join('\n')}`
+          }
+        ],
+        maxTokens: SENTIMENT_MAX_TOKENS,
+        temperature: 0,
+        responseFormat: 'json'
+      });
+
+      if (generation !== this.generation) return;
+
+      const scores = parseScores(response.content, batch);
+      this.recentLines = [...this.recentLines, ...batch].slice(-CONTEXT_LINES);
+      if (scores.length > 0) {
+        logger.debug(`📈 Scored sentiment for ${scores.length} line(s)`);
+        this.onScoresCallback?.(scores);
+      }
+    } catch (error) {
+      // Scores are a nice-to-have; drop the batch rather than fall behind the call
+      logger.error('❌ Failed to score sentiment:', error);
+      if (generation === this.generation) {
+        this.recentLines = [...this.recentLines, ...batch].slice(-CONTEXT_LINES);
+      }
+    } finally {
+      this.isScoring = false;
+    }
+
+    // Lines that arrived while this batch was scored
+    if (generation === this.generation) {
+      this.scheduleScoring();
+    }
+  }
+}
+
+// Export singleton instance
+export const sentimentService = new SentimentService();
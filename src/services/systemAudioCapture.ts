@@ -1,4 +1,5 @@
 import logger from '../utils/logger';
+import { PcmCapture } from './audioWorkletCapture';
 
 /**
  * System Audio Capture Service for Client Calls (Windows + Mac)
@@ -11,7 +12,7 @@ export class SystemAudioCapture {
   private systemStream: MediaStream | null = null;
   private audioContext: AudioContext | null = null;
   private systemAudioSource: MediaStreamAudioSourceNode | null = null;
-  private audioProcessor: ScriptProcessorNode | null = null;
+  private pcmCapture: PcmCapture | null = null;
   private onAudioDataCallback?: (audioData: ArrayBuffer) => void;
   private platform: string = 'unknown';
 
@@ -31,7 +32,11 @@ export class SystemAudioCapture {
     }
   }
 
-  async startCapture(): Promise<boolean> {
+  /**
+   * Start capturing a desktop source
+   * Uses `preferredSourceId` when it is still available, otherwise the first meeting app found
+   */
+  async startCapture(preferredSourceId?: string): Promise<boolean> {
     try {
       logger.debug('🔊 Starting system audio capture for client calls...');
       
@@ -76,8 +81,9 @@ export class SystemAudioCapture {
                name.includes('call');
       });
 
-      // Use meeting app if found, otherwise use entire screen
-      const selectedSource = meetingApps.length > 0 ? meetingApps[0] : audioSources.sources[0];
+      // Use the preferred source if set, then a meeting app, otherwise the entire screen
+      const preferredSource = audioSources.sources.find((source: any) => source.id === preferredSourceId);
+      const selectedSource = preferredSource || (meetingApps.length > 0 ? meetingApps[0] : audioSources.sources[0]);
       logger.debug(`🎯 Selected source for system audio: "${selectedSource.name}"`);
 
       // Create cross-platform constraints for system audio capture
@@ -126,41 +132,16 @@ export class SystemAudioCapture {
       logger.debug('✅ System audio stream obtained');
       logger.debug(`🔊 Audio tracks: ${this.systemStream.getAudioTracks().length}`);
 
-      // Create audio context
-      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
-        sampleRate: 16000 // Deepgram preferred rate
-      });
+      // Native rate context; the worklet downmixes stereo and resamples to 16kHz
+      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
 
       // Create system audio source
       this.systemAudioSource = this.audioContext.createMediaStreamSource(this.systemStream);
 
-      // Create audio processor
-      this.audioProcessor = this.audioContext.createScriptProcessor(4096, 2, 1);
-
       let packetCount = 0;
-      this.audioProcessor.onaudioprocess = (event) => {
+      this.pcmCapture = new PcmCapture((audioData, volume) => {
         if (!this.isCapturing) return;
 
-        const inputBuffer = event.inputBuffer;
-        const leftChannel = inputBuffer.getChannelData(0);
-        const rightChannel = inputBuffer.numberOfChannels > 1 ? inputBuffer.getChannelData(1) : leftChannel;
-
-        // Mix stereo to mono
-        const monoData = new Float32Array(leftChannel.length);
-        for (let i = 0; i < leftChannel.length; i++) {
-          monoData[i] = (leftChannel[i] + rightChannel[i]) / 2;
-        }
-
-        // Calculate volume
-        let sum = 0;
-        for (let i = 0; i < monoData.length; i++) {
-          sum += monoData[i] * monoData[i];
-        }
-        const volume = Math.sqrt(sum / monoData.length);
-
-        // Convert to Int16Array
-        const int16Buffer = this.convertFloat32ToInt16(monoData);
-
         packetCount++;
         if (packetCount % 100 === 0) {
           if (volume > 0.001) {
@@ -172,13 +153,11 @@ export class SystemAudioCapture {
 
         // Send audio data if there's signal
         if (this.onAudioDataCallback && volume > 0.0001) {
-          this.onAudioDataCallback(int16Buffer.buffer as ArrayBuffer);
+          this.onAudioDataCallback(audioData);
         }
-      };
+      });
 
-      // Connect audio nodes
-      this.systemAudioSource.connect(this.audioProcessor);
-      this.audioProcessor.connect(this.audioContext.destination);
+      await this.pcmCapture.connect(this.audioContext, this.systemAudioSource);
 
       // Resume audio context if needed
       if (this.audioContext.state === 'suspended') {
@@ -213,12 +192,9 @@ export class SystemAudioCapture {
   }
 
   private cleanup(): void {
-    if (this.audioProcessor) {
-      try {
-        this.audioProcessor.disconnect();
-        this.audioProcessor.onaudioprocess = null;
-      } catch (e) {}
-      this.audioProcessor = null;
+    if (this.pcmCapture) {
+      this.pcmCapture.disconnect();
+      this.pcmCapture = null;
     }
 
     if (this.systemAudioSource) {
@@ -243,15 +219,6 @@ export class SystemAudioCapture {
       this.audioContext = null;
     }
   }
-
-  private convertFloat32ToInt16(float32Array: Float32Array): Int16Array {
-    const int16Array = new Int16Array(float32Array.length);
-    for (let i = 0; i < float32Array.length; i++) {
-      const sample = Math.max(-1, Math.min(1, float32Array[i]));
-      int16Array[i] = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
-    }
-    return int16Array;
-  }
 }
 
 // Export singleton instance
@@ -28,7 +28,7 @@ class AIProcessor {
     }
   ) {
     // Skip if AI not ready or text too similar to last processed
-    if (!aiService.isReady() || !settings.openaiKey) {
+    if (!aiService.isReady()) {
       logger.debug('⚠️ AI not ready or no API key');
       return;
     }
@@ -1,21 +1,45 @@
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
-import { Transcript, Todo, ChatMessage, Suggestion, RecordingState, AppSettings, RecordingSession } from '../types';
+import { Transcript, Todo, ChatMessage, Suggestion, RecordingState, AppSettings, RecordingSession, AudioImportState, CaptureStatus, LLMStatus, LLMTask, LiveCallSummary, ObjectionAlert, QualificationScorecard, ConversationMetrics, KnowledgeMatch } from '../types';
 import { nativeAudioCaptureService } from '../services/nativeAudioCapture';
 import { dualAudioCaptureService } from '../services/dualAudioCapture';
 import { electronTranscriptionService } from '../services/electronTranscriptionService';
-// import { systemAudioCapture } from '../services/systemAudioCapture'; // Temporarily disabled
+import { captureManager, getAudioProcessing } from '../services/captureManager';
 import { aiService } from '../services/aiService';
-import { groqService } from '../services/groqService';
+import { llmRouter, DEFAULT_LLM_MODELS, DEFAULT_LLM_FALLBACKS, DEFAULT_EMBEDDING_MODEL } from '../services/llmRouter';
+import { contextBuilder } from '../services/contextBuilder';
+import { liveSummaryService } from '../services/liveSummaryService';
+import { callReportService } from '../services/callReportService';
+import { objectionDetector } from '../services/objectionDetector';
+import { scorecardService, createScorecard } from '../services/scorecardService';
+import { conversationMetricsTracker } from '../services/conversationMetrics';
+import { sentimentService } from '../services/sentimentService';
+import { knowledgeBase } from '../services/knowledgeBase';
 import { improvedAIProcessor } from './improvedAIProcessor';
 import { transcriptDeduplicator } from '../utils/transcriptDeduplicator';
 import { transcriptDeduplicator as efficientDeduplicator } from '../utils/transcriptDeduplication';
+import { findTranscriptTimeRange } from '../utils/transcriptTiming';
+import { isProspectLine } from '../utils/speakerRoles';
 import logger from '../utils/logger';
 import { AuthSlice, createAuthSlice } from './authSlice';
 
+/** Default label for a diarized speaker until the rep renames it */
+const getDefaultSpeakerLabel = (speakerId: number) => `Speaker ${speakerId + 1}`;
+
+// Imported files stream at this multiple of real time
+const AUDIO_IMPORT_SPEED = 4;
+// Time allowed for the provider to finalize the last utterances of an import
+const AUDIO_IMPORT_DRAIN_MS = 3000;
+// Objection cards shown at once; older ones drop off
+const MAX_OBJECTION_ALERTS = 3;
+// Playbook matches kept for the overlay and for grounding suggestions
+const MAX_KNOWLEDGE_MATCHES = 3;
+
 interface AppState extends AuthSlice {
   // Recording
   recording: RecordingState;
+  audioImport: AudioImportState | null;
+  captureStatus: CaptureStatus;
 
   // Session Management
   currentSessionId: string | null;
@@ -24,15 +48,22 @@ interface AppState extends AuthSlice {
 
   // Data
   transcripts: Transcript[];
+  speakerNames: Record<number, string>;
   todos: Todo[];
   chatHistory: ChatMessage[];
   suggestions: Suggestion[];
+  liveSummary: LiveCallSummary | null;
+  objectionAlerts: ObjectionAlert[];
+  knowledgeMatches: KnowledgeMatch[];
+  scorecard: QualificationScorecard | null;
+  conversationMetrics: ConversationMetrics | null;
 
   // Settings
   settings: AppSettings;
 
   // AI Processing State
   lastAIProcessingTime: number;
+  llmStatus: Partial<Record<LLMTask, LLMStatus>>; // Last provider outcome per task
   pendingAITimeout: NodeJS.Timeout | null;
 
   // UI State (removed activePanel - showing all panels simultaneously)
@@ -46,8 +77,17 @@ interface AppState extends AuthSlice {
   setRecording: (recording: RecordingState) => void;
   startRecording: () => Promise<boolean>;
   stopRecording: () => Promise<void>;
+  importAudioFile: (file: File) => Promise<string | null>;
+  cancelAudioImport: () => void;
   addTranscript: (transcript: Omit<Transcript, 'id'>) => void;
+  setLiveSummary: (summary: LiveCallSummary | null) => void;
+  setObjectionAlerts: (alerts: ObjectionAlert[]) => void;
+  dismissObjection: (id: string) => void;
+  setKnowledgeMatches: (matches: KnowledgeMatch[]) => void;
+  dismissKnowledgeMatch: (documentId: string) => void;
+  setScorecard: (scorecard: QualificationScorecard | null) => void;
   updateTranscript: (id: string, text: string) => void;
+  renameSpeaker: (speakerId: number, name: string) => void;
   addTodo: (todo: Omit<Todo, 'id' | 'createdAt'>) => void;
   toggleTodo: (id: string) => void;
   addChatMessage: (message: Omit<ChatMessage, 'id'>) => void;
@@ -67,7 +107,7 @@ interface AppState extends AuthSlice {
 
   // Session Management Actions
   createSession: () => string;
-  endSession: (sessionId: string, transcriptCount: number) => Promise<void>;
+  endSession: (sessionId: string, transcriptCount: number, durationSeconds?: number) => Promise<void>;
   loadSessionConversations: (sessionId: string) => Promise<void>;
   loadHistoricalSession: (sessionId: string) => Promise<void>;
   clearHistoricalSession: () => void;
@@ -87,14 +127,23 @@ export const useAppStore = create<AppState>()(
       isRecording: false,
       duration: 0
     },
+    audioImport: null,
+    captureStatus: { state: 'idle', mode: null },
     currentSessionId: null,
     sessions: [],
     viewingHistoricalSession: false,
     transcripts: [],
+    speakerNames: {},
     todos: [],
     chatHistory: [],
     suggestions: [],
+    liveSummary: null,
+    objectionAlerts: [],
+    knowledgeMatches: [],
+    scorecard: null,
+    conversationMetrics: null,
     lastAIProcessingTime: 0,
+    llmStatus: {},
     pendingAITimeout: null,
     selectedContext: [],
     showSettings: false,
@@ -102,9 +151,36 @@ export const useAppStore = create<AppState>()(
     settings: {
       deepgramKey: '',
       openaiKey: '',
+      groqKey: '',
+      anthropicKey: '',
+      localLLMUrl: '',
+      llmModels: DEFAULT_LLM_MODELS,
+      llmFallbacks: DEFAULT_LLM_FALLBACKS,
+      embeddingModel: DEFAULT_EMBEDDING_MODEL,
       autoTranscription: true,
       autoTodos: true,
       autoSuggestions: true,
+      liveSummaryInterval: 8,
+      objectionDetection: true,
+      qualificationFramework: 'bant',
+      sentimentTracking: true,
+      playbookSuggestions: true,
+      transcriptionProvider: 'deepgram',
+      localTranscriptionUrl: 'ws://localhost:9090',
+      multichannelTranscription: false,
+      transcriptionLanguage: 'en-US',
+      transcriptionModel: 'nova-2',
+      customVocabulary: [],
+      recordSessionAudio: false,
+      silenceGating: true,
+      audioInputDeviceId: '',
+      systemAudioSourceId: '',
+      microphoneGain: 1,
+      systemAudioGain: 1,
+      echoCancellation: true,
+      noiseSuppression: true,
+      autoGainControl: true,
+      duckSystemAudio: false,
       audioMode: 'both',
       selectedAudioSource: undefined
     },
@@ -139,23 +215,20 @@ export const useAppStore = create<AppState>()(
             fullSettings: savedSettings
           });
           
-          if (savedSettings && (savedSettings.deepgramKey || savedSettings.openaiKey)) {
+          if (savedSettings && (savedSettings.deepgramKey || savedSettings.openaiKey || savedSettings.groqKey || savedSettings.anthropicKey)) {
             set((state) => {
               state.settings = { ...state.settings, ...savedSettings };
             });
             logger.debug('✅ Settings applied to store');
             
-            // Initialize AI service immediately after loading settings
-            if (savedSettings.openaiKey) {
-              logger.debug('🤖 Initializing AI service with loaded key...');
-              aiService.initialize(savedSettings.openaiKey);
-              logger.debug('🤖 AI service initialized and ready:', aiService.isReady());
-              logger.debug('🤖 Settings after loading:', {
-                autoSuggestions: savedSettings.autoSuggestions,
-                autoTodos: savedSettings.autoTodos,
-                hasOpenAI: !!savedSettings.openaiKey
-              });
-            }
+            // Point the LLM router at the loaded keys and models immediately
+            llmRouter.configure(useAppStore.getState().settings);
+            logger.debug('🤖 AI service initialized and ready:', aiService.isReady());
+            logger.debug('🤖 Settings after loading:', {
+              autoSuggestions: savedSettings.autoSuggestions,
+              autoTodos: savedSettings.autoTodos,
+              hasOpenAI: !!savedSettings.openaiKey
+            });
           } else {
             logger.warn('⚠️ No valid settings found in storage');
           }
@@ -169,7 +242,7 @@ export const useAppStore = create<AppState>()(
       // Set up transcription service callbacks
       logger.debug('🔗 Setting up transcript callback...');
       electronTranscriptionService.setOnTranscript((result) => {
-        const { addTranscript, settings } = useAppStore.getState();
+        const { addTranscript, settings, speakerNames } = useAppStore.getState();
         
         logger.debug('📝 Raw transcript received:', {
           text: result.text,
@@ -177,6 +250,20 @@ export const useAppStore = create<AppState>()(
           length: result.text.length
         });
 
+        // Gap markers flag audio lost during a disconnect; they skip cleanup and AI processing
+        if (result.isGap) {
+          logger.warn('⚠️ Transcription gap:', result.text);
+          addTranscript({
+            text: result.text,
+            timestamp: result.timestamp,
+            isInterim: false,
+            isGap: true,
+            startOffset: result.startOffset,
+            endOffset: result.endOffset
+          });
+          return;
+        }
+
         // Use the proven deduplicator from original app
         const cleanedText = transcriptDeduplicator.clean(result.text, result.isInterim);
         
@@ -189,14 +276,45 @@ export const useAppStore = create<AppState>()(
         if (!result.isInterim) {
           logger.debug('✅ Adding cleaned transcript:', cleanedText);
           
+          // Diarized speakers keep their (possibly renamed) label for the whole session
+          const speaker = result.speakerId !== undefined
+            ? speakerNames[result.speakerId] || getDefaultSpeakerLabel(result.speakerId)
+            : result.speaker || 'user';
+
           // Add to transcript store
           addTranscript({
             text: cleanedText,
             timestamp: result.timestamp,
             isInterim: result.isInterim,
-            speaker: result.speaker || 'user'
+            speaker,
+            speakerId: result.speakerId,
+            startOffset: result.startOffset,
+            endOffset: result.endOffset,
+            words: result.words
           });
 
+          conversationMetricsTracker.add({
+            text: cleanedText,
+            isInterim: false,
+            speaker,
+            speakerId: result.speakerId,
+            startOffset: result.startOffset,
+            endOffset: result.endOffset,
+            words: result.words
+          });
+          set((state) => {
+            state.conversationMetrics = conversationMetricsTracker.getMetrics();
+          });
+
+          liveSummaryService.addTranscript(`${speaker}: ${cleanedText}`, settings.liveSummaryInterval);
+          scorecardService.addTranscript(`${speaker}: ${cleanedText}`);
+
+          if (settings.objectionDetection) {
+            objectionDetector.analyze({ text: cleanedText, speaker, speakerId: result.speakerId }, speakerNames).catch((error) => {
+              logger.error('❌ Objection detection failed:', error);
+            });
+          }
+
           // Process with AI if transcript is meaningful
           const words = cleanedText.split(/\s+/);
           const isMeaningful = (
@@ -217,6 +335,13 @@ export const useAppStore = create<AppState>()(
             openAIKeyLength: settings.openaiKey?.length || 0
           });
 
+          // What the prospect raises is matched against the team's playbook
+          if (isMeaningful && settings.playbookSuggestions && isProspectLine({ speaker, speakerId: result.speakerId }, speakerNames)) {
+            knowledgeBase.findRelevant(cleanedText).catch((error) => {
+              logger.error('❌ Playbook lookup failed:', error);
+            });
+          }
+
           if (isMeaningful) {
             logger.debug('🎯 Processing with AI:', cleanedText.substring(0, 50) + '...');
             
@@ -238,7 +363,8 @@ export const useAppStore = create<AppState>()(
                     content: message,
                     timestamp: new Date()
                   });
-                }
+                },
+                getKnowledge: () => useAppStore.getState().knowledgeMatches
               }
             );
           }
@@ -248,16 +374,114 @@ export const useAppStore = create<AppState>()(
         }
       });
 
-      // Set up native audio capture callback (microphone)
-      nativeAudioCaptureService.setOnAudioData((audioData) => {
-        // Send audio to Electron transcription service
+      // Every capture mode (mic, system, both, file) feeds the transcription service
+      captureManager.setOnAudioData((audioData) => {
         electronTranscriptionService.sendAudioData(audioData);
       });
 
-      // System audio capture callback disabled for stability
-      // systemAudioCapture.setOnAudioData((audioData) => {
-      //   electronTranscriptionService.sendAudioData(audioData);
-      // });
+      captureManager.setOnStateChange((status) => {
+        set((state) => {
+          state.captureStatus = status;
+        });
+      });
+
+      llmRouter.setOnStatusChange((status) => {
+        set((state) => {
+          state.llmStatus[status.task] = status;
+        });
+      });
+
+      liveSummaryService.setOnSummary((summary) => {
+        const { currentSessionId, setLiveSummary } = useAppStore.getState();
+        setLiveSummary(summary);
+
+        // The overlay shows the same summary
+        if (window.electronAPI && (window.electronAPI as any).syncToOverlay) {
+          (window.electronAPI as any).syncToOverlay({
+            action: 'syncState',
+            liveSummary: summary
+          });
+        }
+
+        // Keep the latest summary on the session so it survives a crash mid-call
+        if (currentSessionId && window.electronAPI && (window.electronAPI as any).updateSession) {
+          (window.electronAPI as any).updateSession(currentSessionId, { liveSummary: summary }).catch((error: any) => {
+            logger.error('❌ Failed to save live summary:', error);
+          });
+        }
+      });
+
+      sentimentService.setOnScores((scores) => {
+        set((state) => {
+          scores.forEach((score) => {
+            const transcript = state.transcripts.find(t => t.id === score.id);
+            if (transcript) {
+              transcript.sentiment = score.sentiment;
+              transcript.engagement = score.engagement;
+            }
+          });
+        });
+
+        if (window.electronAPI && (window.electronAPI as any).updateTranscriptScores) {
+          (window.electronAPI as any).updateTranscriptScores(scores).catch((error: any) => {
+            logger.error('❌ Failed to save sentiment scores:', error);
+          });
+        }
+      });
+
+      scorecardService.setOnScorecard((scorecard) => {
+        const { currentSessionId, setScorecard } = useAppStore.getState();
+        setScorecard(scorecard);
+
+        if (currentSessionId && window.electronAPI && (window.electronAPI as any).updateSession) {
+          (window.electronAPI as any).updateSession(currentSessionId, { scorecard }).catch((error: any) => {
+            logger.error('❌ Failed to save scorecard:', error);
+          });
+        }
+      });
+
+      objectionDetector.setOnObjection((alert) => {
+        const { objectionAlerts, setObjectionAlerts } = useAppStore.getState();
+        setObjectionAlerts([alert, ...objectionAlerts].slice(0, MAX_OBJECTION_ALERTS));
+
+        if (window.electronAPI && (window.electronAPI as any).syncToOverlay) {
+          (window.electronAPI as any).syncToOverlay({
+            action: 'syncState',
+            objectionAlerts: useAppStore.getState().objectionAlerts
+          });
+        }
+      });
+
+      knowledgeBase.setOnMatches((matches) => {
+        const { knowledgeMatches, setKnowledgeMatches } = useAppStore.getState();
+        const ids = new Set(matches.map(match => match.documentId));
+        setKnowledgeMatches([
+          ...matches,
+          ...knowledgeMatches.filter(match => !ids.has(match.documentId))
+        ].slice(0, MAX_KNOWLEDGE_MATCHES));
+
+        if (window.electronAPI && (window.electronAPI as any).syncToOverlay) {
+          (window.electronAPI as any).syncToOverlay({
+            action: 'syncState',
+            knowledgeMatches: useAppStore.getState().knowledgeMatches
+          });
+        }
+      });
+
+      // Rebuttal cards draw from the team library when one has been saved
+      if (window.electronAPI && (window.electronAPI as any).getRebuttals) {
+        (window.electronAPI as any).getRebuttals().then((result: any) => {
+          if (result.success) {
+            objectionDetector.setRebuttals(result.rebuttals);
+          }
+        }).catch((error: any) => {
+          logger.error('❌ Failed to load rebuttal library:', error);
+        });
+      }
+
+      dualAudioCaptureService.setOnStatus((status) => {
+        logger.debug('🔊 Two-channel audio status:', status);
+      });
 
       // Set up error handlers
       nativeAudioCaptureService.setOnError((error) => {
@@ -273,6 +497,16 @@ export const useAppStore = create<AppState>()(
         logger.error('📝 Transcription error:', error);
       });
 
+      // End the session rather than keep recording a call that is no longer transcribed
+      electronTranscriptionService.setOnStopped((reason) => {
+        logger.error('📝 Transcription stopped:', reason);
+        if (useAppStore.getState().recording.isRecording) {
+          useAppStore.getState().stopRecording().catch((error) => {
+            logger.error('❌ Failed to stop recording after transcription stopped:', error);
+          });
+        }
+      });
+
       logger.debug('✅ Services initialized');
     },
 
@@ -294,23 +528,15 @@ export const useAppStore = create<AppState>()(
           openAIKeyLength: settings.openaiKey?.length || 0
         });
 
-        // Initialize AI service with the loaded settings
-        if (settings.openaiKey) {
-          logger.debug('🤖 Initializing AI service with key:', settings.openaiKey.substring(0, 10) + '...');
-          aiService.initialize(settings.openaiKey);
-          logger.debug('🤖 AI service ready:', aiService.isReady());
-        } else {
-          logger.warn('⚠️ No OpenAI key configured - AI features will not work');
+        // Configure the LLM router with the loaded settings
+        llmRouter.configure(settings);
+        if (!aiService.isReady()) {
+          logger.warn('⚠️ No API key for the selected chat model - AI features will not work');
         }
 
-        // Initialize Electron transcription service
-        if (settings.deepgramKey) {
-          logger.debug('🎙️ Initializing Electron transcription service with key:', settings.deepgramKey.substring(0, 10) + '...');
-          electronTranscriptionService.initialize(settings.deepgramKey);
-        } else {
-          logger.error('❌ No Deepgram API key found in settings');
-          throw new Error('Please configure your Deepgram API key in Settings');
-        }
+        // Initialize Electron transcription service (provider validates its own credentials)
+        logger.debug('🎙️ Initializing Electron transcription service with provider:', settings.transcriptionProvider);
+        electronTranscriptionService.initialize(settings);
 
         // Always capture both mic + system for client calls
         logger.debug('🎤 Starting dual audio capture (mic + system) for client calls...');
@@ -327,27 +553,16 @@ export const useAppStore = create<AppState>()(
         }
         logger.debug('✅ Transcription service started successfully');
         
-        // Start microphone capture
-        logger.debug('🎙️ Step 2: Starting microphone capture...');
-        const micStarted = await nativeAudioCaptureService.startCapture({
-          includeMicrophone: true,
-          includeSystemAudio: false,
-          sampleRate: 16000,
-          bufferSize: 4096
+        // Two-channel mode: mic (rep) and system audio (prospect) on separate channels
+        logger.debug('🎙️ Step 2: Starting audio capture...');
+        const captureStatus = await captureManager.start({
+          mode: settings.multichannelTranscription ? 'both' : 'mic',
+          multichannel: settings.multichannelTranscription,
+          microphoneDeviceId: settings.audioInputDeviceId,
+          systemSourceId: settings.systemAudioSourceId,
+          processing: getAudioProcessing(settings)
         });
-        logger.debug('🎙️ Microphone capture result:', micStarted);
-        
-        // Focus on reliable microphone capture for now (like working version)
-        logger.debug('🔊 Step 3: Focusing on reliable microphone capture');
-        logger.debug('💡 Using proven approach from working SmartCallMate project');
-        let systemStarted = false; // Keeping simple for stability
-        
-        const audioStarted = micStarted; // At least microphone should work
-        
-        if (!audioStarted) {
-          logger.error('❌ Audio capture failed to start');
-          throw new Error('Failed to start audio capture - check microphone permissions');
-        }
+        logger.debug('🎙️ Audio capture result:', captureStatus);
         logger.debug('✅ Audio capture and transcription started successfully');
 
         // Create new session for this recording
@@ -355,6 +570,13 @@ export const useAppStore = create<AppState>()(
         const sessionId = createSession();
         logger.debug('✅ Created new session for recording:', sessionId);
 
+        // Name the local audio recording after this session
+        if (settings.recordSessionAudio && window.electronAPI && (window.electronAPI as any).attachRecordingSession) {
+          (window.electronAPI as any).attachRecordingSession(sessionId).catch((error: any) => {
+            logger.error('❌ Failed to attach audio recording to session:', error);
+          });
+        }
+
         // Update recording state
         set((state) => {
           state.recording = {
@@ -392,7 +614,7 @@ export const useAppStore = create<AppState>()(
         // Cleanup on failure
         try {
           logger.debug('🧹 Cleaning up after error...');
-          await nativeAudioCaptureService.stopCapture();
+          await captureManager.stop();
           await electronTranscriptionService.stopTranscription();
         } catch (cleanupError) {
           logger.error('❌ Cleanup failed:', cleanupError);
@@ -414,8 +636,7 @@ export const useAppStore = create<AppState>()(
         }
 
         // Stop audio capture services
-        await nativeAudioCaptureService.stopCapture();
-        // systemAudioCapture.stopCapture(); // Disabled
+        await captureManager.stop();
         await electronTranscriptionService.stopTranscription();
 
         // Update recording state
@@ -437,6 +658,96 @@ export const useAppStore = create<AppState>()(
         throw error;
       }
     },
+
+    importAudioFile: async (file: File): Promise<string | null> => {
+      const { recording, audioImport } = useAppStore.getState();
+      if (recording.isRecording || audioImport) {
+        throw new Error('Finish the current recording or import first');
+      }
+
+      set((state) => {
+        state.audioImport = { fileName: file.name, status: 'decoding', progress: 0 };
+      });
+
+      let transcriptionStarted = false;
+
+      try {
+        logger.debug('📂 Importing audio file:', file.name);
+
+        const { initializeServices } = useAppStore.getState();
+        await initializeServices();
+        const { settings } = useAppStore.getState();
+        llmRouter.configure(settings);
+
+        // Same pipeline as a live call: transcripts flow through the normal callback
+        electronTranscriptionService.initialize(settings);
+        transcriptionStarted = await electronTranscriptionService.startTranscription({ channels: 1 });
+        if (!transcriptionStarted) {
+          throw new Error('Failed to start transcription service');
+        }
+
+        // Decoding happens before any audio is sent, so the session starts with the first chunk
+        await captureManager.start({
+          mode: 'file',
+          file,
+          speed: AUDIO_IMPORT_SPEED,
+          onProgress: (progress) => set((state) => {
+            if (state.audioImport) {
+              state.audioImport.progress = progress;
+            }
+          })
+        });
+
+        const { createSession } = useAppStore.getState();
+        const sessionId = createSession();
+
+        if (settings.recordSessionAudio && window.electronAPI && (window.electronAPI as any).attachRecordingSession) {
+          (window.electronAPI as any).attachRecordingSession(sessionId).catch((error: any) => {
+            logger.error('❌ Failed to attach audio recording to session:', error);
+          });
+        }
+
+        set((state) => {
+          state.audioImport = { fileName: file.name, status: 'transcribing', progress: 0 };
+        });
+
+        const completed = await captureManager.waitUntilFinished();
+        const { durationSeconds } = captureManager.getStatus();
+
+        // Let the provider finalize the last utterances before disconnecting
+        await new Promise(resolve => setTimeout(resolve, AUDIO_IMPORT_DRAIN_MS));
+        await electronTranscriptionService.stopTranscription();
+        transcriptionStarted = false;
+
+        set((state) => {
+          state.audioImport = { fileName: file.name, status: 'summarizing', progress: 1 };
+        });
+
+        const { transcripts, endSession } = useAppStore.getState();
+        await endSession(sessionId, transcripts.length, durationSeconds);
+
+        logger.debug(`✅ Audio import ${completed ? 'finished' : 'cancelled'}:`, sessionId);
+        return sessionId;
+      } catch (error) {
+        logger.error('❌ Failed to import audio file:', error);
+
+        await captureManager.stop();
+        if (transcriptionStarted) {
+          await electronTranscriptionService.stopTranscription().catch((stopError) => {
+            logger.error('❌ Cleanup failed:', stopError);
+          });
+        }
+        throw error;
+      } finally {
+        set((state) => {
+          state.audioImport = null;
+        });
+      }
+    },
+
+    cancelAudioImport: () => {
+      captureManager.stop();
+    },
     
     addTranscript: (transcript) => set((state) => {
       // Skip very short interim results
@@ -445,7 +756,7 @@ export const useAppStore = create<AppState>()(
       }
 
       // OPTIMIZATION: Use O(1) hash-based deduplication instead of O(n²) similarity
-      if (efficientDeduplicator.isDuplicate(transcript.text)) {
+      if (!transcript.isGap && efficientDeduplicator.isDuplicate(transcript.text)) {
         logger.debug('🚫 Skipping duplicate transcript (hash match)');
         return;
       }
@@ -469,16 +780,27 @@ export const useAppStore = create<AppState>()(
             text: newTranscript.text,
             timestamp: newTranscript.timestamp,
             isInterim: newTranscript.isInterim,
-            speaker: newTranscript.speaker || null
+            speaker: newTranscript.speaker || null,
+            speakerId: newTranscript.speakerId,
+            startOffset: newTranscript.startOffset,
+            endOffset: newTranscript.endOffset,
+            words: newTranscript.words,
+            isGap: newTranscript.isGap
           }).catch((error: any) => {
             logger.error('❌ Failed to save transcript to DB:', error);
           });
         }
+
+        if (state.settings.sentimentTracking && !newTranscript.isGap) {
+          sentimentService.addTranscript(newTranscript);
+        }
+
+        contextBuilder.addTranscript(newTranscript);
       }
       
       // OPTIMIZATION: Implement memory bounds to prevent infinite growth
       if (state.transcripts.length > 500) {
-        // Keep only the most recent 250 transcripts
+        // Keep only the most recent 250 transcripts; the chat context has its own copy until summarized
         state.transcripts = state.transcripts.slice(-250);
         logger.debug('🧹 Cleaned old transcripts, kept last 250');
       }
@@ -498,6 +820,50 @@ export const useAppStore = create<AppState>()(
       }
     }),
     
+    setLiveSummary: (summary) => {
+      set((state) => {
+        state.liveSummary = summary;
+        const session = state.sessions.find(s => s.id === state.currentSessionId);
+        if (session && summary) {
+          session.liveSummary = summary;
+        }
+      });
+    },
+
+    setObjectionAlerts: (alerts) => {
+      set((state) => {
+        state.objectionAlerts = alerts;
+      });
+    },
+
+    setScorecard: (scorecard) => {
+      set((state) => {
+        state.scorecard = scorecard;
+        const session = state.sessions.find(s => s.id === state.currentSessionId);
+        if (session && scorecard) {
+          session.scorecard = scorecard;
+        }
+      });
+    },
+
+    dismissObjection: (id) => {
+      set((state) => {
+        state.objectionAlerts = state.objectionAlerts.filter(alert => alert.id !== id);
+      });
+    },
+
+    setKnowledgeMatches: (matches) => {
+      set((state) => {
+        state.knowledgeMatches = matches;
+      });
+    },
+
+    dismissKnowledgeMatch: (documentId) => {
+      set((state) => {
+        state.knowledgeMatches = state.knowledgeMatches.filter(match => match.documentId !== documentId);
+      });
+    },
+
     // Helper function to calculate text similarity
     calculateSimilarity: (text1: string, text2: string): number => {
       const words1 = text1.toLowerCase().split(' ');
@@ -568,7 +934,7 @@ export const useAppStore = create<AppState>()(
     },
     
     sendTranscriptAsMessage: async (text: string) => {
-      const { addChatMessage, settings } = useAppStore.getState();
+      const { addChatMessage } = useAppStore.getState();
       
       // Add transcript as user message
       addChatMessage({
@@ -577,12 +943,12 @@ export const useAppStore = create<AppState>()(
         timestamp: new Date()
       });
       
-      // Generate AI response if OpenAI is configured
-      if (settings.openaiKey && aiService.isReady()) {
+      // Generate AI response if a chat model is configured
+      if (aiService.isReady()) {
         try {
           const response = await aiService.sendChatMessage({
             message: text,
-            context: '',
+            transcripts: useAppStore.getState().transcripts,
             conversationHistory: []
           });
           
@@ -595,7 +961,7 @@ export const useAppStore = create<AppState>()(
           logger.error('❌ AI response error:', error);
           addChatMessage({
             role: 'assistant',
-            content: '❌ Failed to generate AI response. Please check your OpenAI configuration.',
+            content: '❌ Failed to generate AI response. Please check your AI model settings.',
             timestamp: new Date()
           });
         }
@@ -640,6 +1006,27 @@ export const useAppStore = create<AppState>()(
       }
     }),
 
+    renameSpeaker: (speakerId, name) => {
+      const label = name.trim() || getDefaultSpeakerLabel(speakerId);
+
+      set((state) => {
+        state.speakerNames[speakerId] = label;
+        state.transcripts.forEach(t => {
+          if (t.speakerId === speakerId) {
+            t.speaker = label;
+          }
+        });
+      });
+      logger.debug(`🏷️ Renamed speaker ${speakerId} to:`, label);
+
+      // Persist the new label on every transcript row of this session (historical sessions included)
+      const { currentSessionId } = useAppStore.getState();
+      if (currentSessionId && window.electronAPI && (window.electronAPI as any).renameSpeaker) {
+        (window.electronAPI as any).renameSpeaker(currentSessionId, speakerId, label).catch((error: any) => {
+          logger.error('❌ Failed to rename speaker in DB:', error);
+        });
+      }
+    },
 
     addTodo: (todo) => set((state) => {
       const newTodo: Todo = {
@@ -682,13 +1069,7 @@ export const useAppStore = create<AppState>()(
 
     sendChatMessage: async (message: string) => {
       try {
-        const { addChatMessage, transcripts, settings, selectedContext, clearSelectedContext, currentSessionId } = useAppStore.getState();
-
-        // Initialize Groq service if not already done
-        if (!groqService.isReady() && settings.openaiKey) {
-          logger.debug('🤖 Initializing Groq service with API key');
-          groqService.initialize(settings.openaiKey);
-        }
+        const { addChatMessage, transcripts, selectedContext, clearSelectedContext, currentSessionId } = useAppStore.getState();
 
         // Build the message with context displayed (like ChatGPT)
         let displayMessage = message;
@@ -703,12 +1084,15 @@ export const useAppStore = create<AppState>()(
           // Show context in the chat message (minimalist, no label)
           displayMessage = `"${selectedText}"\n\n${message}`;
 
-          // Try to find timestamps for selected text in transcripts
-          const matchingTranscript = transcripts.find(t => selectedText.includes(t.text.substring(0, 20)));
-          if (matchingTranscript) {
-            startTime = transcripts.indexOf(matchingTranscript) * 5; // Rough estimate
-            endTime = startTime + 10; // Rough estimate
-            speakerInfo = matchingTranscript.speaker || 'user';
+          // Resolve the audio time range of the selection from word timings
+          const timeRange = findTranscriptTimeRange(transcripts, selectedText);
+          if (timeRange) {
+            startTime = timeRange.startTime;
+            endTime = timeRange.endTime;
+            speakerInfo = timeRange.speaker || 'user';
+          } else {
+            const matchingTranscript = transcripts.find(t => selectedText.includes(t.text.substring(0, 20)));
+            speakerInfo = matchingTranscript ? matchingTranscript.speaker || 'user' : undefined;
           }
 
           transcriptContext = selectedText;
@@ -726,15 +1110,15 @@ export const useAppStore = create<AppState>()(
           clearSelectedContext();
         }
 
-        // Get conversation history for context
+        // Full conversation history, minus the message just added - the context builder fits it to the model
         const { chatHistory } = useAppStore.getState();
-        const conversationHistory = chatHistory.slice(-6).map(msg => ({
+        const conversationHistory = chatHistory.slice(0, -1).map(msg => ({
           role: msg.role,
           content: msg.content
         }));
 
-        // Send to Groq service
-        if (groqService.isReady()) {
+        // Send to the chat model
+        if (aiService.isReady()) {
           // Add placeholder message for streaming
           const assistantMessage = {
             id: `msg-${Date.now()}`,
@@ -744,9 +1128,7 @@ export const useAppStore = create<AppState>()(
           };
           addChatMessage(assistantMessage);
 
-          let fullResponse = '';
-
-          const response = await groqService.sendChatMessage({
+          const response = await aiService.sendChatMessage({
             message,
             context: transcriptContext ? {
               text: transcriptContext,
@@ -754,17 +1136,16 @@ export const useAppStore = create<AppState>()(
               endTime,
               speaker: speakerInfo
             } : undefined,
-            chatHistory: conversationHistory,
-            onChunk: (chunk) => {
-              fullResponse += chunk;
-              // Update the message content as it streams
-              set((state) => {
-                const lastMessage = state.chatHistory[state.chatHistory.length - 1];
-                if (lastMessage && lastMessage.role === 'assistant') {
-                  lastMessage.content = fullResponse;
-                }
-              });
-            }
+            transcripts,
+            conversationHistory
+          }, (partialContent) => {
+            // Update the message content as it streams
+            set((state) => {
+              const lastMessage = state.chatHistory[state.chatHistory.length - 1];
+              if (lastMessage && lastMessage.role === 'assistant') {
+                lastMessage.content = partialContent;
+              }
+            });
           });
 
           // Final update with complete content
@@ -791,7 +1172,7 @@ export const useAppStore = create<AppState>()(
                 transcriptStartTime: startTime,
                 transcriptEndTime: endTime,
                 speakerInfo,
-                modelUsed: 'llama-3.3-70b-versatile'
+                modelUsed: `${response.provider}/${response.model}`
               });
 
               logger.debug('✅ Conversation saved to database:', conversationId);
@@ -803,7 +1184,7 @@ export const useAppStore = create<AppState>()(
           // Fallback response
           addChatMessage({
             role: 'assistant',
-            content: 'I need a Groq API key to be configured in settings to provide AI-powered responses. Please add your API key in Settings.',
+            content: 'I need an API key for the selected chat model to provide AI-powered responses. Please add it under AI Models in Settings.',
             timestamp: new Date()
           });
         }
@@ -833,17 +1214,39 @@ export const useAppStore = create<AppState>()(
     
     updateSettings: async (newSettings) => {
       // Get the merged settings
-      const mergedSettings = { ...useAppStore.getState().settings, ...newSettings };
+      const previousSettings = useAppStore.getState().settings;
+      const mergedSettings = { ...previousSettings, ...newSettings };
       
       // Update state
       set((state) => {
         state.settings = mergedSettings;
       });
       
-      // Re-initialize AI service if OpenAI key changed
-      if (newSettings.openaiKey) {
-        logger.debug('🤖 Re-initializing AI service with updated key...');
-        aiService.initialize(newSettings.openaiKey);
+      // Keys, local URL and per-task models all feed the router, so rebuild it on any change
+      llmRouter.configure(mergedSettings);
+
+      // Hot-swap the microphone mid-call; the recording session keeps running
+      if (newSettings.audioInputDeviceId !== undefined && newSettings.audioInputDeviceId !== previousSettings.audioInputDeviceId) {
+        captureManager.setMicrophone(newSettings.audioInputDeviceId).catch((error) => {
+          logger.error('❌ Failed to switch microphone:', error);
+        });
+      }
+
+      // Gain, ducking and echo/noise settings also apply mid-call
+      const processing = getAudioProcessing(mergedSettings);
+      if (JSON.stringify(processing) !== JSON.stringify(getAudioProcessing(previousSettings))) {
+        captureManager.setProcessing(processing).catch((error) => {
+          logger.error('❌ Failed to apply audio processing settings:', error);
+        });
+      }
+
+      // Switching frameworks mid-call starts a fresh checklist for the live session
+      const { currentSessionId, viewingHistoricalSession, setScorecard } = useAppStore.getState();
+      if (mergedSettings.qualificationFramework !== previousSettings.qualificationFramework
+        && currentSessionId && !viewingHistoricalSession) {
+        const scorecard = createScorecard(mergedSettings.qualificationFramework);
+        scorecardService.reset(scorecard);
+        setScorecard(scorecard);
       }
       
       // Save full settings to Electron storage
@@ -859,7 +1262,7 @@ export const useAppStore = create<AppState>()(
 
     // Manual AI suggestion trigger for testing
     triggerAISuggestions: async () => {
-      const { transcripts, addSuggestion, addChatMessage, settings } = useAppStore.getState();
+      const { transcripts, knowledgeMatches, addSuggestion, addChatMessage, settings } = useAppStore.getState();
       
       logger.debug('🧪 Manual AI suggestions trigger called');
       logger.debug('Settings:', { autoSuggestions: settings.autoSuggestions, hasOpenAI: !!settings.openaiKey });
@@ -888,7 +1291,8 @@ export const useAppStore = create<AppState>()(
         const insights = await aiService.generateInsights({
           text: contextText,
           source: 'manual_trigger',
-          context: recentTranscripts.map(t => `${t.speaker || 'user'}: ${t.text}`)
+          context: recentTranscripts.map(t => `${t.speaker || 'user'}: ${t.text}`),
+          knowledge: knowledgeMatches
         });
         
         logger.debug('✅ Manual AI suggestions generated:', insights);
@@ -927,6 +1331,7 @@ export const useAppStore = create<AppState>()(
         startedAt: new Date(),
         transcriptCount: 0
       };
+      const scorecard = createScorecard(useAppStore.getState().settings.qualificationFramework);
 
       set((state) => {
         state.currentSessionId = sessionId;
@@ -934,8 +1339,21 @@ export const useAppStore = create<AppState>()(
         // Clear chat history for new session
         state.chatHistory = [];
         state.transcripts = [];
+        state.speakerNames = {};
         state.todos = [];
+        state.liveSummary = null;
+        state.objectionAlerts = [];
+        state.knowledgeMatches = [];
+        state.scorecard = scorecard;
+        state.conversationMetrics = null;
       });
+      contextBuilder.reset();
+      conversationMetricsTracker.reset();
+      sentimentService.reset();
+      liveSummaryService.reset();
+      objectionDetector.reset();
+      knowledgeBase.reset();
+      scorecardService.reset(scorecard);
 
       // Save to database via Electron IPC
       if (window.electronAPI && (window.electronAPI as any).saveSession) {
@@ -948,57 +1366,43 @@ export const useAppStore = create<AppState>()(
       return sessionId;
     },
 
-    endSession: async (sessionId: string, transcriptCount: number) => {
+    endSession: async (sessionId: string, transcriptCount: number, durationSeconds?: number) => {
       const endedAt = new Date();
-      const { sessions, transcripts, chatHistory } = useAppStore.getState();
+      const { sessions, transcripts } = useAppStore.getState();
       const session = sessions.find(s => s.id === sessionId);
 
       if (session) {
-        const duration = Math.floor((endedAt.getTime() - session.startedAt.getTime()) / 1000);
+        const duration = durationSeconds !== undefined
+          ? Math.round(durationSeconds)
+          : Math.floor((endedAt.getTime() - session.startedAt.getTime()) / 1000);
 
-        // Generate AI summary for title and description
+        // The structured report supplies the session title and description
         let title = session.title || 'Sales Call';
         let description = '';
 
-        try {
-          // Prepare content for AI summary
-          const transcriptText = transcripts.map(t => t.text).join(' ').substring(0, 2000);
-          const conversationText = chatHistory.map(m => `${m.role}: ${m.content}`).join('\n').substring(0, 1000);
-
-          const summaryPrompt = `Based on this sales call, generate:
-1. A concise title (10-15 words) that explains what the call was about
-2. A brief description (30-50 words) summarizing the key points of the call
-
-Transcripts:
-${transcriptText}
-
-Conversations:
-${conversationText}
-
-Format your response as:
-TITLE: [your title here]
-DESCRIPTION: [your description here]`;
-
-          const summaryResponse = await groqService.chat([
-            { role: 'system', content: 'You are a sales call summarizer. Generate concise, professional summaries.' },
-            { role: 'user', content: summaryPrompt }
-          ]);
+        if (callReportService.isReady()) {
+          try {
+            // The store only keeps recent lines in memory; the database has the whole call
+            let reportTranscripts = transcripts;
+            if (window.electronAPI && (window.electronAPI as any).getSessionTranscripts) {
+              const result = await (window.electronAPI as any).getSessionTranscripts(sessionId);
+              if (result.success && result.transcripts.length > transcripts.length) {
+                reportTranscripts = result.transcripts;
+              }
+            }
 
-          // Parse the response
-          const titleMatch = summaryResponse.match(/TITLE:\s*(.+)/i);
-          const descMatch = summaryResponse.match(/DESCRIPTION:\s*(.+)/i);
+            const report = await callReportService.generateReport(sessionId, reportTranscripts, session.startedAt);
+            title = report.title;
+            description = report.summary;
+            logger.debug('✅ Generated call report:', { title, followUpDate: report.followUpDate });
 
-          if (titleMatch && titleMatch[1]) {
-            title = titleMatch[1].trim();
-          }
-          if (descMatch && descMatch[1]) {
-            description = descMatch[1].trim();
+            if (window.electronAPI && (window.electronAPI as any).saveCallReport) {
+              await (window.electronAPI as any).saveCallReport(report);
+            }
+          } catch (error) {
+            logger.error('❌ Failed to generate call report:', error);
+            description = 'No summary available';
           }
-
-          logger.debug('✅ Generated AI summary:', { title, description });
-        } catch (error) {
-          logger.error('❌ Failed to generate AI summary:', error);
-          description = 'No summary available';
         }
 
         set((state) => {
@@ -1090,6 +1494,7 @@ DESCRIPTION: [your description here]`;
 
       try {
         logger.debug('📚 Loading historical session:', sessionId);
+        contextBuilder.reset();
 
         // Load session details
         const sessionResult = await (window.electronAPI as any).getSession(sessionId);
@@ -1110,9 +1515,22 @@ DESCRIPTION: [your description here]`;
         }
 
         // Update state with historical data
+        const liveSummary: LiveCallSummary | null = sessionResult.session.liveSummary || null;
+        liveSummaryService.reset(liveSummary);
+        const scorecard: QualificationScorecard | null = sessionResult.session.scorecard || null;
+        scorecardService.reset(scorecard);
+        conversationMetricsTracker.reset();
+        sentimentService.reset();
+        knowledgeBase.reset();
+
         set((state) => {
           state.currentSessionId = sessionId;
           state.viewingHistoricalSession = true;
+          state.liveSummary = liveSummary;
+          state.objectionAlerts = [];
+          state.knowledgeMatches = [];
+          state.scorecard = scorecard;
+          state.conversationMetrics = null;
 
           // Load conversations into chat history - each conversation has both user and AI message
           state.chatHistory = conversationsResult.conversations?.flatMap((conv: any) => [
@@ -1136,9 +1554,24 @@ DESCRIPTION: [your description here]`;
             text: t.text,
             timestamp: new Date(t.timestamp),
             isInterim: t.isInterim || false,
-            speaker: t.speaker || undefined
+            speaker: t.speaker || undefined,
+            speakerId: t.speakerId ?? undefined,
+            startOffset: t.startOffset ?? undefined,
+            endOffset: t.endOffset ?? undefined,
+            words: t.words || undefined,
+            isGap: t.isGap || undefined,
+            sentiment: t.sentiment ?? undefined,
+            engagement: t.engagement ?? undefined
           })) || [];
 
+          // Rebuild speaker names from the persisted labels
+          state.speakerNames = {};
+          state.transcripts.forEach(t => {
+            if (t.speakerId !== undefined && t.speaker) {
+              state.speakerNames[t.speakerId] = t.speaker;
+            }
+          });
+
           state.todos = [];
         });
 
@@ -1161,9 +1594,22 @@ DESCRIPTION: [your description here]`;
         state.currentSessionId = null;
         state.chatHistory = [];
         state.transcripts = [];
+        state.speakerNames = {};
         state.todos = [];
         state.selectedContext = [];
+        state.liveSummary = null;
+        state.objectionAlerts = [];
+        state.knowledgeMatches = [];
+        state.scorecard = null;
+        state.conversationMetrics = null;
       });
+      contextBuilder.reset();
+      conversationMetricsTracker.reset();
+      sentimentService.reset();
+      liveSummaryService.reset();
+      objectionDetector.reset();
+      knowledgeBase.reset();
+      scorecardService.reset();
       logger.debug('✅ Cleared historical session view');
     },
 
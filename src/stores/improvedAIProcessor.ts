@@ -1,7 +1,7 @@
 // Improved AI Processor based on proven original app approach
 import logger from '../utils/logger';
-import { provenAIService } from '../services/provenAIService';
-import { Todo } from '../types';
+import { llmRouter } from '../services/llmRouter';
+import { KnowledgeMatch, Todo } from '../types';
 
 interface ProcessingState {
   isProcessingTodos: boolean;
@@ -38,14 +38,11 @@ class ImprovedAIProcessor {
     callbacks: {
       onTodo: (todo: Omit<Todo, 'id' | 'createdAt'>) => void;
       onSuggestion: (message: string) => void;
+      // Playbook matches to ground suggestions in, read when the suggestion is generated
+      getKnowledge?: () => KnowledgeMatch[];
     }
   ) {
-    // Set API key if provided
-    if (settings.openaiKey) {
-      provenAIService.setApiKey(settings.openaiKey);
-    }
-
-    if (!provenAIService.isReady()) {
+    if (!llmRouter.isConfigured('todos') && !llmRouter.isConfigured('insights')) {
       logger.debug('⚠️ AI not ready or no API key');
       return;
     }
@@ -86,6 +83,7 @@ class ImprovedAIProcessor {
     callbacks: {
       onTodo: (todo: Omit<Todo, 'id' | 'createdAt'>) => void;
       onSuggestion: (message: string) => void;
+      getKnowledge?: () => KnowledgeMatch[];
     }
   ) {
     // Clear existing timeout
@@ -101,7 +99,7 @@ class ImprovedAIProcessor {
       if (type === 'todos') {
         await this.processTodosWithProvenMethod(text, callbacks.onTodo);
       } else {
-        await this.processSuggestionsWithProvenMethod(text, callbacks.onSuggestion);
+        await this.processSuggestionsWithProvenMethod(text, callbacks.onSuggestion, callbacks.getKnowledge?.() || []);
       }
     }, this.TODO_DEBOUNCE_MS);
 
@@ -183,7 +181,8 @@ If no clear actionable tasks are found, respond with: []`;
    */
   private async processSuggestionsWithProvenMethod(
     text: string,
-    onSuggestion: (message: string) => void
+    onSuggestion: (message: string) => void,
+    knowledge: KnowledgeMatch[]
   ) {
     if (this.state.isProcessingSuggestions) {
       logger.debug('⏳ Already processing suggestions');
@@ -204,7 +203,8 @@ If no clear actionable tasks are found, respond with: []`;
         aiService.generateInsights({
           text: prompt,
           source: 'transcript',
-          context: [text]
+          context: [text],
+          knowledge
         }),
         new Promise<null>((_, reject) => 
           setTimeout(() => reject(new Error('AI response timeout')), this.SUGGESTION_TIMEOUT_MS)
@@ -1,12 +1,27 @@
 // Type definitions for SmartCallMate React
 
+export interface TranscriptWord {
+  word: string;
+  start: number; // Seconds from the start of the recording
+  end: number;
+  confidence?: number;
+  speaker?: number;
+}
+
 export interface Transcript {
   id: string;
   text: string;
   timestamp: Date;
   isInterim: boolean;
-  speaker?: 'user' | 'system' | 'call' | 'mixed';
+  speaker?: string; // 'user' | 'call' | 'mixed' from audio mode, or a diarized label like "Speaker 1"
+  speakerId?: number; // Diarized speaker index, stable for the whole session
   audioSource?: 'microphone' | 'system' | 'both';
+  startOffset?: number; // Seconds from the start of the recording
+  endOffset?: number;
+  words?: TranscriptWord[];
+  isGap?: boolean; // Marker for audio lost while the transcription provider was disconnected
+  sentiment?: number; // -1 (negative) to 1 (positive), scored shortly after the line is final
+  engagement?: number; // 0 (disengaged) to 1 (highly engaged)
 }
 
 export interface Todo {
@@ -25,6 +40,46 @@ export interface ChatMessage {
   timestamp: Date;
 }
 
+export type ObjectionCategory = 'price' | 'timing' | 'competitor' | 'authority' | 'in-house' | 'need';
+
+export interface Rebuttal {
+  id: string;
+  category: ObjectionCategory;
+  title: string;
+  response: string; // What the rep can say
+}
+
+export interface ObjectionAlert {
+  id: string;
+  category: ObjectionCategory;
+  quote: string; // The prospect's words that raised it
+  summary?: string; // One-line restatement from the model
+  rebuttals: Rebuttal[];
+  detectedAt: Date;
+}
+
+export type KnowledgeDocumentKind = 'battle-card' | 'case-study' | 'pricing' | 'portfolio' | 'other';
+
+export interface KnowledgeDocument {
+  id: string;
+  title: string;
+  kind: KnowledgeDocumentKind;
+  source?: string; // File name it was imported from
+  embeddingModel: string; // "provider:model" its chunks were embedded with
+  chunkCount: number;
+  createdAt: Date;
+}
+
+export interface KnowledgeMatch {
+  documentId: string;
+  title: string;
+  kind: KnowledgeDocumentKind;
+  text: string; // The chunk that matched
+  score: number; // Cosine similarity to what the prospect said
+  quote: string; // The prospect's words that surfaced it
+  matchedAt: Date;
+}
+
 export interface Suggestion {
   id: string;
   title: string;
@@ -34,12 +89,69 @@ export interface Suggestion {
   createdAt: Date;
 }
 
+export type TranscriptionProviderId = 'deepgram' | 'local';
+
+export type LLMProviderId = 'openai' | 'groq' | 'anthropic' | 'local';
+
+export type LLMTask = 'chat' | 'todos' | 'insights' | 'summaries';
+
+export interface LLMModelSelection {
+  provider: LLMProviderId;
+  model: string;
+}
+
+export type LLMStatusState = 'ok' | 'retrying' | 'fallback' | 'failed';
+
+export interface LLMStatus {
+  task: LLMTask;
+  state: LLMStatusState;
+  provider: LLMProviderId; // Provider that answered, or is being tried
+  model: string;
+  message?: string; // Why a retry or fallback happened
+}
+
 export interface AppSettings {
   deepgramKey: string;
   openaiKey: string;
+  groqKey: string;
+  anthropicKey: string;
+  localLLMUrl: string; // OpenAI-compatible base URL, e.g. Ollama or llama.cpp server; empty turns local models off
+  llmModels: Record<LLMTask, LLMModelSelection>;
+  llmFallbacks: LLMModelSelection[]; // Tried in order when a task's model fails
+  embeddingModel: LLMModelSelection; // Knowledge base search; changing it needs a re-index
   autoTranscription: boolean;
   autoTodos: boolean;
   autoSuggestions: boolean;
+  liveSummaryInterval: number; // Final transcripts between live summary updates, 0 turns it off
+  objectionDetection: boolean; // Rebuttal cards when the prospect raises an objection
+  qualificationFramework: QualificationFrameworkId | 'none';
+  sentimentTracking: boolean; // Score sentiment and engagement of each line during the call
+  playbookSuggestions: boolean; // Surface matching knowledge base content when the prospect speaks
+  transcriptionProvider: TranscriptionProviderId;
+  localTranscriptionUrl: string;
+  multichannelTranscription: boolean; // Mic and system audio transcribed as separate channels
+  transcriptionLanguage: string; // BCP-47 code such as 'en-US', or 'auto' to detect
+  transcriptionModel: string;
+  customVocabulary: string[]; // Terms to boost, optionally 'term:boost'
+  recordSessionAudio: boolean; // Keep a local WAV copy of each session
+  silenceGating: boolean; // Don't stream silence to the transcription provider
+  audioInputDeviceId: string; // '' follows the system default microphone
+  systemAudioSourceId: string; // '' asks for a screen/tab share each call
+  microphoneGain: number; // 0-2, applied before mixing/transcription
+  systemAudioGain: number; // 0-2
+  echoCancellation: boolean; // Stops speakerphone audio being transcribed again through the mic
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  duckSystemAudio: boolean; // Lower system audio while the rep is speaking
+}
+
+export type AudioProcessingSettings = Pick<AppSettings,
+  'microphoneGain' | 'systemAudioGain' | 'echoCancellation' | 'noiseSuppression' | 'autoGainControl' | 'duckSystemAudio'>;
+
+export interface AudioSourceInfo {
+  id: string;
+  name: string;
+  type: 'microphone' | 'system';
 }
 
 export interface RecordingState {
@@ -48,6 +160,23 @@ export interface RecordingState {
   duration: number;
 }
 
+export type CaptureMode = 'mic' | 'system' | 'both' | 'file';
+
+export type CaptureState = 'idle' | 'requesting-permission' | 'capturing' | 'degraded' | 'stopped';
+
+export interface CaptureStatus {
+  state: CaptureState;
+  mode: CaptureMode | null;
+  reason?: string; // Why capture is degraded or stopped
+  durationSeconds?: number; // Length of the file being streamed in 'file' mode
+}
+
+export interface AudioImportState {
+  fileName: string;
+  status: 'decoding' | 'transcribing' | 'summarizing';
+  progress: number; // 0-1 share of the file streamed so far
+}
+
 export interface RecordingSession {
   id: string;
   title?: string;
@@ -56,6 +185,82 @@ export interface RecordingSession {
   endedAt?: Date;
   duration?: number;
   transcriptCount: number;
+  liveSummary?: LiveCallSummary;
+  scorecard?: QualificationScorecard;
+}
+
+export interface CallReportObjection {
+  objection: string;
+  response: string; // How the rep answered, '' if it went unanswered
+  resolved: boolean;
+}
+
+export interface CallReportNextStep {
+  action: string;
+  owner: string; // 'rep', 'prospect' or a name
+  dueDate: string | null; // YYYY-MM-DD
+}
+
+export interface CallReport {
+  sessionId: string;
+  title: string;
+  summary: string;
+  decisions: string[];
+  objections: CallReportObjection[];
+  nextSteps: CallReportNextStep[];
+  risks: string[];
+  followUpDate: string | null; // YYYY-MM-DD
+  model: string; // provider/model that wrote the report
+  createdAt: Date;
+}
+
+export interface LiveCallSummary {
+  keyFacts: string[];
+  pains: string[];
+  budget: string; // '' until mentioned
+  timeline: string;
+  stakeholders: string[];
+  transcriptCount: number; // Final transcripts folded in so far
+  updatedAt: string; // ISO timestamp, stored as JSON on the session
+}
+
+export type QualificationFrameworkId = 'bant' | 'meddic' | 'spin';
+
+export type QualificationFieldStatus = 'missing' | 'partial' | 'complete';
+
+export interface QualificationFieldValue {
+  key: string; // Field key within the framework, e.g. 'budget' or 'economicBuyer'
+  value: string; // What the prospect said, '' until covered
+  status: QualificationFieldStatus;
+}
+
+export interface QualificationScorecard {
+  framework: QualificationFrameworkId;
+  fields: QualificationFieldValue[];
+  transcriptCount: number; // Final transcripts folded in so far
+  updatedAt: string; // ISO timestamp, stored as JSON on the session
+}
+
+export interface SpeakerTalkMetrics {
+  speaker: string; // Display label: 'Rep', 'Prospect' or the diarized speaker name
+  isRep: boolean;
+  talkSeconds: number;
+  words: number;
+  wordsPerMinute: number;
+  questions: number;
+  interruptions: number; // Times this speaker started before the other had finished
+  fillerWords: number;
+  longestMonologueSeconds: number;
+}
+
+export interface ConversationMetrics {
+  speakers: SpeakerTalkMetrics[];
+  repTalkShare: number | null; // 0-1 of talk time; null when the rep can't be told apart (mixed audio)
+  longestMonologue: { speaker: string; seconds: number } | null;
+  wordsPerMinute: number; // The rep's pace when known, otherwise everyone's
+  questions: number; // Asked by the rep when known, otherwise by anyone
+  interruptions: number;
+  fillerRate: number; // Filler words per 100 words, the rep's when known
 }
 
 export interface AIConversation {
@@ -0,0 +1,81 @@
+/**
+ * Minimal JSON Schema validation for structured LLM output
+ * Supports the subset our report schemas use: type, properties, required,
+ * additionalProperties: false, items, enum and pattern.
+ */
+
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null' | Array<'string' | 'null'>;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: string[];
+  pattern?: string;
+}
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+/**
+ * Validate a value, returning a list of errors with JSON paths (empty when valid)
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const allowedTypes = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const actualType = typeOf(value);
+  if (!allowedTypes.includes(actualType as any)) {
+    return [`${path} should be ${allowedTypes.join(' or ')}, got ${actualType}`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === 'string') {
+    if (schema.enum && !schema.enum.includes(value)) {
+      errors.push(`${path} should be one of ${schema.enum.join(', ')}`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path} should match ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`));
+    });
+  }
+
+  if (actualType === 'object' && schema.properties) {
+    const record = value as Record<string, unknown>;
+    (schema.required || []).forEach((key) => {
+      if (!(key in record)) {
+        errors.push(`${path}.${key} is required`);
+      }
+    });
+
+    Object.entries(record).forEach(([key, propertyValue]) => {
+      const propertySchema = schema.properties![key];
+      if (propertySchema) {
+        errors.push(...validateJsonSchema(propertyValue, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Pull the JSON object out of a model reply, which may be wrapped in a code fence
+ */
+export function extractJson(content: string): unknown {
+  const match = content.match(/\{[\s\S]*\}/);
+  if (!match) {
+    throw new Error('Response did not contain a JSON object');
+  }
+  return JSON.parse(match[0]);
+}
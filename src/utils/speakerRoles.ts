@@ -0,0 +1,40 @@
+import { Transcript } from '../types';
+
+export type SpeakerRole = 'rep' | 'prospect' | 'unknown';
+
+type SpeakerLine = Pick<Transcript, 'speaker' | 'speakerId'>;
+
+const REP_NAME = /^(rep|me|you)\b/i;
+const PROSPECT_NAME = /^prospect\b/i;
+
+/**
+ * Work out who said a line: the rep or the prospect
+ * - Two-channel audio: the microphone channel is the rep, the call channel the prospect
+ * - Diarized mono: a speaker renamed "Rep"/"Me" or "Prospect..." is taken at their word.
+ *   Otherwise the first voice (usually whoever started the call) is the rep, unless
+ *   another speaker was renamed as the rep, and everyone else is the prospect.
+ * - Mixed audio without speaker ids can't be told apart
+ * speakerNames holds renamed diarized speakers by id, as kept in the store.
+ */
+export function getSpeakerRole(line: SpeakerLine, speakerNames: Record<number, string> = {}): SpeakerRole {
+  if (line.speakerId === undefined) {
+    const channel = line.speaker || 'user';
+    if (channel === 'user') return 'rep';
+    if (channel === 'call') return 'prospect';
+    return 'unknown';
+  }
+
+  const name = speakerNames[line.speakerId] || line.speaker || '';
+  if (REP_NAME.test(name)) return 'rep';
+  if (PROSPECT_NAME.test(name)) return 'prospect';
+
+  const repIsNamed = Object.keys(speakerNames)
+    .some(id => Number(id) !== line.speakerId && REP_NAME.test(speakerNames[Number(id)]));
+  return line.speakerId === 0 && !repIsNamed ? 'rep' : 'prospect';
+}
+
+export const isRepLine = (line: SpeakerLine, speakerNames?: Record<number, string>) =>
+  getSpeakerRole(line, speakerNames) === 'rep';
+
+export const isProspectLine = (line: SpeakerLine, speakerNames?: Record<number, string>) =>
+  getSpeakerRole(line, speakerNames) === 'prospect';
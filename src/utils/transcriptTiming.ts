@@ -0,0 +1,66 @@
+import { Transcript } from '../types';
+
+export interface TranscriptTimeRange {
+  startTime: number;
+  endTime: number;
+  speaker?: string;
+}
+
+// Strip punctuation so "budget," matches "budget"
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[.,!?;:"()[\]]/g, '');
+
+/**
+ * Locate a quoted span inside a single transcript using its word timings
+ * Returns undefined when the words cannot be matched in order
+ */
+const findWordSpan = (transcript: Transcript, selectedText: string): TranscriptTimeRange | undefined => {
+  const words = transcript.words;
+  if (!words || words.length === 0) return undefined;
+
+  const target = selectedText.split(/\s+/).map(normalizeWord).filter(Boolean);
+  if (target.length === 0) return undefined;
+
+  const spoken = words.map(w => normalizeWord(w.word));
+  for (let i = 0; i + target.length <= spoken.length; i++) {
+    if (target.every((word, j) => spoken[i + j] === word)) {
+      return {
+        startTime: words[i].start,
+        endTime: words[i + target.length - 1].end,
+        speaker: transcript.speaker
+      };
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Resolve the audio time range of text the rep selected from the transcript
+ * - A quote inside one line is resolved to the exact words
+ * - A selection spanning several lines covers the first to the last line
+ */
+export const findTranscriptTimeRange = (
+  transcripts: Transcript[],
+  selectedText: string
+): TranscriptTimeRange | undefined => {
+  const container = transcripts.find(t => t.text.includes(selectedText));
+  if (container) {
+    const span = findWordSpan(container, selectedText);
+    if (span) return span;
+    if (container.startOffset !== undefined && container.endOffset !== undefined) {
+      return { startTime: container.startOffset, endTime: container.endOffset, speaker: container.speaker };
+    }
+  }
+
+  const matches = transcripts.filter(t =>
+    t.startOffset !== undefined && selectedText.includes(t.text.substring(0, 20))
+  );
+  if (matches.length === 0) return undefined;
+
+  const last = matches[matches.length - 1];
+  return {
+    startTime: matches[0].startOffset!,
+    endTime: last.endOffset ?? last.startOffset!,
+    speaker: matches[0].speaker
+  };
+};
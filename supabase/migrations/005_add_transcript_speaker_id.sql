@@ -0,0 +1,12 @@
+-- ================================
+-- Add diarized speaker id to transcripts
+-- ================================
+
+-- speaker holds the display label ("Speaker 1", "Sarah – prospect"),
+-- speaker_id the stable diarization index it was derived from
+ALTER TABLE transcripts
+ADD COLUMN IF NOT EXISTS speaker_id INTEGER;
+
+-- Add index for renaming a speaker across a session
+CREATE INDEX IF NOT EXISTS idx_transcripts_session_speaker
+ON transcripts(session_id, speaker_id);
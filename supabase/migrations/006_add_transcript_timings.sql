@@ -0,0 +1,13 @@
+-- ================================
+-- Add audio offsets and word timings to transcripts
+-- ================================
+
+-- Offsets are seconds from the first audio frame of the recording
+ALTER TABLE transcripts
+ADD COLUMN IF NOT EXISTS start_offset REAL,
+ADD COLUMN IF NOT EXISTS end_offset REAL,
+ADD COLUMN IF NOT EXISTS words JSONB;
+
+-- Add index for seeking within a session
+CREATE INDEX IF NOT EXISTS idx_transcripts_session_offset
+ON transcripts(session_id, start_offset);
@@ -0,0 +1,11 @@
+-- ================================
+-- Version transcripts so a session can be re-transcribed
+-- ================================
+
+-- Live transcripts are version 1; each re-transcription of the recorded
+-- audio adds a new version and the app reads the highest one
+ALTER TABLE transcripts
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_transcripts_session_version
+ON transcripts(session_id, version);
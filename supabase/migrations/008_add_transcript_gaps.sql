@@ -0,0 +1,7 @@
+-- ================================
+-- Mark transcript rows that stand in for lost audio
+-- ================================
+
+-- Gap markers are written when audio captured during a disconnect could not be replayed
+ALTER TABLE transcripts
+ADD COLUMN IF NOT EXISTS is_gap BOOLEAN DEFAULT FALSE;
@@ -0,0 +1,7 @@
+-- ================================
+-- Rolling call summary kept up to date while recording
+-- ================================
+
+-- Key facts, pains, budget, timeline and stakeholders as JSON
+ALTER TABLE recording_sessions
+ADD COLUMN IF NOT EXISTS live_summary JSONB;
@@ -0,0 +1,27 @@
+-- ================================
+-- Structured post-call reports
+-- ================================
+
+-- One report per session, regenerated in place
+CREATE TABLE IF NOT EXISTS call_reports (
+  session_id TEXT PRIMARY KEY REFERENCES recording_sessions(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  summary TEXT NOT NULL,
+  decisions JSONB NOT NULL DEFAULT '[]',
+  objections JSONB NOT NULL DEFAULT '[]',
+  next_steps JSONB NOT NULL DEFAULT '[]',
+  risks JSONB NOT NULL DEFAULT '[]',
+  follow_up_date DATE,
+  model_used TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Find upcoming follow-ups across sessions
+CREATE INDEX IF NOT EXISTS idx_call_reports_follow_up
+ON call_reports(follow_up_date);
+
+-- Add RLS policies
+ALTER TABLE call_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to call_reports" ON call_reports
+  FOR ALL USING (true);
@@ -0,0 +1,23 @@
+-- ================================
+-- Team rebuttal library for objection cards
+-- ================================
+
+-- While this table is empty the app uses its built-in rebuttals
+CREATE TABLE IF NOT EXISTS rebuttals (
+  id TEXT PRIMARY KEY,
+  category TEXT NOT NULL,
+  title TEXT NOT NULL,
+  response TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Cards look rebuttals up by objection category
+CREATE INDEX IF NOT EXISTS idx_rebuttals_category
+ON rebuttals(category);
+
+-- Add RLS policies
+ALTER TABLE rebuttals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all access to rebuttals" ON rebuttals
+  FOR ALL USING (true);
@@ -0,0 +1,7 @@
+-- ================================
+-- Qualification scorecard (BANT / MEDDIC / SPIN) filled in during the call
+-- ================================
+
+-- Framework, field values and statuses as JSON
+ALTER TABLE recording_sessions
+ADD COLUMN IF NOT EXISTS scorecard JSONB;
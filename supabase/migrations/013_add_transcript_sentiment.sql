@@ -0,0 +1,8 @@
+-- ================================
+-- Per-line sentiment and engagement scores
+-- ================================
+
+-- Sentiment from -1 to 1 and engagement from 0 to 1, NULL until scored
+ALTER TABLE transcripts
+ADD COLUMN IF NOT EXISTS sentiment REAL,
+ADD COLUMN IF NOT EXISTS engagement REAL;